@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockRebasingToken
+ * @notice A mock of a rebasing token (e.g. stETH) for testing balance seeding.
+ * @dev The balances of the ERC20 storage are shares; `balanceOf` converts them at the share price.
+ */
+contract MockRebasingToken is ERC20 {
+    // The amount of tokens per share, scaled by 1e18.
+    uint256 public sharePrice = 1e18;
+
+    constructor(string memory name, string memory symbol) ERC20(name, symbol) {}
+
+    function setSharePrice(uint256 _sharePrice) external {
+        sharePrice = _sharePrice;
+    }
+
+    function balanceOf(address account) public view override returns (uint256) {
+        return (super.balanceOf(account) * sharePrice) / 1e18;
+    }
+}
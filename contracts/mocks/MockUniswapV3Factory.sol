@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.28;
+
+contract MockUniswapV3Factory {
+    mapping(address tokenA => mapping(address tokenB => mapping(uint24 fee => address pool))) public getPool;
+
+    /**
+     * @notice Registers a pool for both token orders, like `UniswapV3Factory.createPool`.
+     * @param tokenA One of the tokens of the pool
+     * @param tokenB The other token of the pool
+     * @param fee The fee tier of the pool
+     * @param pool The pool address
+     */
+    function setPool(address tokenA, address tokenB, uint24 fee, address pool) external {
+        getPool[tokenA][tokenB][fee] = pool;
+        getPool[tokenB][tokenA][fee] = pool;
+    }
+}
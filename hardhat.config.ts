@@ -1,7 +1,9 @@
 import * as dotenv from "dotenv";
 dotenv.config();
 
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, extendProvider, task } from "hardhat/config";
+import { TASK_RUN, TASK_TEST } from "hardhat/builtin-tasks/task-names";
+import type { TaskArguments } from "hardhat/types";
 // Official plugins.
 /*
  * The toolbox (`@nomicfoundation/hardhat-toolbox`) contains:
@@ -39,6 +41,11 @@ import "@openzeppelin/hardhat-upgrades";
 import "hardhat-dependency-compiler"; // See the comment for the field `dependencyCompiler` in `config`.
 import "solidity-docgen"; // The tool by OpenZeppelin to generate documentation for contracts in the Markdown format.
 
+import "./tasks"; // Project tasks, e.g. `migrator:migrate`. See `tasks/index.ts`.
+import { getAddressBook } from "./sdk/addresses";
+import { forkTestReporter, meterGas } from "./scripts/fork-tests/reporter";
+import { startRpcCache } from "./scripts/rpc-cache/proxy";
+
 // See `README.md` for details.
 
 /*
@@ -288,6 +295,42 @@ if (process.env.FORKING_BLOCK_NUMBER)
     // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
     config.networks!.hardhat!.forking!.blockNumber = +process.env.FORKING_BLOCK_NUMBER;
 
+/*
+ * Offline fork tests. The fork connects to a local proxy that records the responses of the RPC provider into
+ * `test/fork/rpc-cache` (`FORK_MODE=record`) or serves them from there without network access (`FORK_MODE=replay`).
+ * The fork block must be pinned. See `scripts/rpc-cache`.
+ *
+ * The proxy listens on port 8549 by default, `FORK_CACHE_PORT` to change it.
+ */
+if (process.env.FORKING && process.env.FORK_MODE) {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const forking = config.networks!.hardhat!.forking!;
+    const rpcCache = startRpcCache({
+        mode: process.env.FORK_MODE,
+        upstream: forking.url,
+        chainId: getAddressBook(FORK_NETWORK).chainId,
+        blockNumber: forking.blockNumber,
+        ...(process.env.FORK_CACHE_PORT ? { port: +process.env.FORK_CACHE_PORT } : {})
+    });
+    forking.url = rpcCache.url;
+    // The proxy takes its port in the background: the tests and scripts wait for it before the fork connects.
+    for (const name of [TASK_TEST, TASK_RUN]) {
+        task(name).setAction(async (args: TaskArguments, hre, runSuper): Promise<unknown> => {
+            await rpcCache.ready;
+            return (await runSuper(args)) as unknown;
+        });
+    }
+}
+
+/*
+ * The processes of `fork:test` write the results of their tests, with the gas of each one, to `FORK_TEST_REPORT`.
+ * See `scripts/fork-tests`.
+ */
+if (process.env.FORK_TEST_REPORT) {
+    extendProvider(meterGas);
+    config.mocha = { ...config.mocha, reporter: forkTestReporter(process.env.FORK_TEST_REPORT) };
+}
+
 /*
  * This setting changes how Hardhat Network works, to mimic Ethereum's mainnet at a given hardfork.
  * It should be one of "byzantium", "constantinople", "petersburg", "istanbul", "muirGlacier", "berlin",
@@ -0,0 +1,238 @@
+import { Contract, constants, utils } from "ethers";
+import type { providers } from "ethers";
+
+import { MIGRATOR_V2_ABI, UNISWAP_V3_POOL_ABI, read } from "../../../sdk/abis";
+import { stepKind } from "./engine";
+import type { ContractParams } from "./engine";
+import type { DeploymentEntry } from "./registry";
+import type { FlashDataParams, MigratorV2Params } from "./schema";
+
+/*
+ * Compares a deployed `MigratorV2` with its `deploymentParams` entry: owner, DAI/USDS, adapters and the flash data of
+ * the comets. Comets configured on-chain but absent from the config are found through the `FlashDataConfigured` and
+ * `FlashDataRemoved` events.
+ */
+
+export type DriftKind = "missing" | "extra" | "mismatch";
+
+export interface ConfigDrift {
+    kind: DriftKind;
+    // `owner`, `adapters`, `flashData[<comet>]`, ...
+    field: string;
+    expected?: string;
+    actual?: string;
+    message: string;
+}
+
+export interface ExpectedMigratorConfig {
+    owner: string;
+    adapters: string[];
+    // By comet address.
+    flashData: Record<string, FlashDataParams>;
+    dai: string;
+    usds: string;
+    // Adapter names of the config without a deployment record.
+    unresolvedAdapters: string[];
+}
+
+/**
+ * The state a migrator should have according to its config entry, with the adapter names resolved from the latest
+ * deployments of the network. Like the deployment engine, a missing `adapters` means all the adapters of the
+ * network.
+ */
+export function expectedMigratorConfig(
+    name: string,
+    networkParams: Record<string, ContractParams>,
+    records: Record<string, DeploymentEntry>
+): ExpectedMigratorConfig {
+    const params = networkParams[name] as unknown as MigratorV2Params;
+    const adapterEntries =
+        params.adapters ??
+        Object.entries(networkParams)
+            .filter(
+                ([entry, entryParams]) => stepKind((entryParams.contract as string | undefined) ?? entry) === "adapter"
+            )
+            .map(([entry]) => entry);
+
+    const adapters: string[] = [];
+    const unresolvedAdapters: string[] = [];
+    for (const entry of adapterEntries) {
+        const address = utils.isAddress(entry) ? entry : records[entry]?.address;
+        if (!address) unresolvedAdapters.push(entry);
+        else adapters.push(utils.getAddress(address));
+    }
+
+    return {
+        owner: utils.getAddress(params.multisig),
+        adapters,
+        flashData: Object.fromEntries(params.comets.map((comet, i) => [utils.getAddress(comet), params.flashData[i]])),
+        dai: utils.getAddress(params.dai),
+        usds: utils.getAddress(params.usds),
+        unresolvedAdapters
+    };
+}
+
+function sameFlashData(a: FlashDataParams, b: FlashDataParams): boolean {
+    return (
+        utils.getAddress(a.liquidityPool) === utils.getAddress(b.liquidityPool) &&
+        utils.getAddress(a.baseToken) === utils.getAddress(b.baseToken) &&
+        a.isToken0 === b.isToken0
+    );
+}
+
+function formatFlashData({ liquidityPool, baseToken, isToken0 }: FlashDataParams): string {
+    return `pool ${liquidityPool}, base token ${baseToken}, isToken0 ${String(isToken0)}`;
+}
+
+// Blocks per `eth_getLogs` request.
+const DEFAULT_BATCH_SIZE = 2000;
+
+/**
+ * Comets whose last flash data event is `FlashDataConfigured`. Like `indexMigratorHistory`, the events are read page
+ * by page and a failing page is halved until the RPC provider accepts its range.
+ */
+async function configuredComets(migrator: Contract, fromBlock: number): Promise<string[]> {
+    const topics = [["FlashDataConfigured", "FlashDataRemoved"].map((name) => migrator.interface.getEventTopic(name))];
+    const toBlock = await migrator.provider.getBlockNumber();
+    const comets = new Map<string, boolean>();
+
+    let batchSize = DEFAULT_BATCH_SIZE;
+    let from = fromBlock;
+    while (from <= toBlock) {
+        const to = Math.min(from + batchSize - 1, toBlock);
+        let logs: providers.Log[];
+        try {
+            logs = await migrator.provider.getLogs({ address: migrator.address, fromBlock: from, toBlock: to, topics });
+        } catch (error) {
+            if (batchSize === 1) throw error;
+            batchSize = Math.ceil(batchSize / 2);
+            continue;
+        }
+        // In block and log order.
+        for (const log of logs) {
+            const event = migrator.interface.parseLog(log);
+            comets.set(utils.getAddress(event.args.comet as string), event.name === "FlashDataConfigured");
+        }
+        from = to + 1;
+    }
+    return [...comets].filter(([, isConfigured]) => isConfigured).map(([comet]) => comet);
+}
+
+/**
+ * Lists the differences between a deployed migrator and the expected config. `fromBlock` bounds the event search of
+ * the comets configured on-chain, usually the `deployedBlock` of the record.
+ */
+export async function auditMigratorConfig(
+    provider: providers.Provider,
+    migratorAddress: string,
+    expected: ExpectedMigratorConfig,
+    fromBlock = 0
+): Promise<ConfigDrift[]> {
+    const drifts: ConfigDrift[] = [];
+    const migrator = new Contract(migratorAddress, MIGRATOR_V2_ABI, provider);
+
+    const [owner, dai, usds, adapterList, eventComets] = await Promise.all([
+        read<string>(migrator, "owner"),
+        read<string>(migrator, "DAI"),
+        read<string>(migrator, "USDS"),
+        read<string[]>(migrator, "getAdapters"),
+        configuredComets(migrator, fromBlock)
+    ]);
+
+    const values: [string, string, string][] = [
+        ["owner", expected.owner, owner],
+        ["DAI", expected.dai, dai],
+        ["USDS", expected.usds, usds]
+    ];
+    for (const [field, expectedValue, actual] of values) {
+        if (utils.getAddress(actual) !== expectedValue) {
+            drifts.push({
+                kind: "mismatch",
+                field,
+                expected: expectedValue,
+                actual,
+                message: `${field} is ${actual}, expected ${expectedValue}`
+            });
+        }
+    }
+
+    for (const name of expected.unresolvedAdapters) {
+        drifts.push({
+            kind: "missing",
+            field: "adapters",
+            expected: name,
+            message: `adapter ${name} has no deployment record, its address cannot be checked`
+        });
+    }
+    const adapters = adapterList.map((adapter) => utils.getAddress(adapter));
+    for (const adapter of expected.adapters.filter((address) => !adapters.includes(address))) {
+        drifts.push({
+            kind: "missing",
+            field: "adapters",
+            expected: adapter,
+            message: `adapter ${adapter} is not allowed`
+        });
+    }
+    for (const adapter of adapters.filter((address) => !expected.adapters.includes(address))) {
+        drifts.push({
+            kind: "extra",
+            field: "adapters",
+            actual: adapter,
+            message: `adapter ${adapter} is not in the config`
+        });
+    }
+
+    const comets = [...new Set([...Object.keys(expected.flashData), ...eventComets])];
+    for (const comet of comets) {
+        const field = `flashData[${comet}]`;
+        const actual = await read<FlashDataParams>(migrator, "getFlashData", comet);
+        const expectedData = expected.flashData[comet];
+        const isSet = actual.liquidityPool !== constants.AddressZero;
+
+        if (!expectedData && isSet) {
+            drifts.push({
+                kind: "extra",
+                field,
+                actual: formatFlashData(actual),
+                message: `${comet} has flash data but is not in the config (${formatFlashData(actual)})`
+            });
+        } else if (expectedData && !isSet) {
+            drifts.push({
+                kind: "missing",
+                field,
+                expected: formatFlashData(expectedData),
+                message: `${comet} has no flash data`
+            });
+        } else if (expectedData && !sameFlashData(expectedData, actual)) {
+            drifts.push({
+                kind: "mismatch",
+                field,
+                expected: formatFlashData(expectedData),
+                actual: formatFlashData(actual),
+                message: `${comet}: ${formatFlashData(actual)}, expected ${formatFlashData(expectedData)}`
+            });
+        }
+
+        // `isToken0` against the pool, on-chain and in the config.
+        const checked = [isSet && actual, expectedData && !sameFlashData(expectedData, actual) && expectedData];
+        for (const flashData of checked) {
+            if (!flashData) continue;
+            const pool = new Contract(flashData.liquidityPool, UNISWAP_V3_POOL_ABI, provider);
+            const token0 = utils.getAddress(await read<string>(pool, "token0"));
+            if ((token0 === utils.getAddress(flashData.baseToken)) !== flashData.isToken0) {
+                const source = flashData === actual ? "on-chain" : "in the config";
+                drifts.push({
+                    kind: "mismatch",
+                    field: `${field}.isToken0`,
+                    expected: String(!flashData.isToken0),
+                    actual: String(flashData.isToken0),
+                    message:
+                        `${comet}: isToken0 is ${String(flashData.isToken0)} ${source}, but token0 of ` +
+                        `${flashData.liquidityPool} is ${token0}`
+                });
+            }
+        }
+    }
+
+    return drifts;
+}
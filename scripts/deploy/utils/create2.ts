@@ -0,0 +1,69 @@
+import { utils } from "ethers";
+import type { Signer, providers } from "ethers";
+
+/*
+ * Deterministic deployments through a CREATE2 factory, so that the address of a contract is known before it is
+ * deployed. The factory takes the salt followed by the creation code as calldata and creates the contract with
+ * `CREATE2`, as the deterministic deployment proxy (https://github.com/Arachnid/deterministic-deployment-proxy) and
+ * the Safe singleton factory do.
+ *
+ * The creation code includes the constructor arguments, so the addresses are only deterministic per network: a contract
+ * gets the same address on two chains only when its arguments are the same on both, which rules out the entries that
+ * take pools, routers, comets or adapters of their network (see `sharedCreate2Entries` of `./engine`).
+ *
+ * The salt is derived from the entry name and a version, e.g. `keccak256("MigratorV2@1")`: bumping the version
+ * deploys a new instance of unchanged code and arguments at a new address.
+ */
+
+// The deterministic deployment proxy, deployed at this address on most EVM chains.
+export const DEFAULT_CREATE2_FACTORY = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+
+export interface Create2Options {
+    factory: string;
+    version: string;
+}
+
+export function create2Salt(name: string, version: string): string {
+    return utils.id(`${name}@${version}`);
+}
+
+export function predictCreate2Address(factory: string, salt: string, initCode: utils.BytesLike): string {
+    return utils.getCreate2Address(factory, salt, utils.keccak256(initCode));
+}
+
+/**
+ * Deploys `initCode` through the factory and checks that the contract is at the predicted address.
+ */
+export async function deployCreate2(
+    signer: Signer,
+    factory: string,
+    salt: string,
+    initCode: utils.BytesLike
+): Promise<{ address: string; receipt: providers.TransactionReceipt }> {
+    const provider = signer.provider as providers.Provider;
+    if ((await provider.getCode(factory)) === "0x") throw new Error(`No CREATE2 factory at ${factory}`);
+
+    const address = predictCreate2Address(factory, salt, initCode);
+    const transaction = await signer.sendTransaction({ to: factory, data: utils.hexConcat([salt, initCode]) });
+    const receipt = await transaction.wait();
+    if ((await provider.getCode(address)) === "0x") {
+        throw new Error(`CREATE2 factory ${factory} did not deploy to ${address} (tx ${receipt.transactionHash})`);
+    }
+    return { address, receipt };
+}
+
+/**
+ * The first block with code at `address`, found by bisecting `getCode` over the block numbers. Needs the state of
+ * past blocks, i.e. an archive node.
+ */
+export async function findDeploymentBlock(provider: providers.Provider, address: string): Promise<number> {
+    let low = 0;
+    let high = await provider.getBlockNumber();
+    if ((await provider.getCode(address, high)) === "0x") throw new Error(`No code at ${address}`);
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        if ((await provider.getCode(address, middle)) === "0x") low = middle + 1;
+        else high = middle;
+    }
+    return low;
+}
@@ -0,0 +1,362 @@
+import { utils } from "ethers";
+import type { providers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { create2Salt, deployCreate2, findDeploymentBlock, predictCreate2Address } from "./create2";
+import type { Create2Options } from "./create2";
+import { REGISTRY_FILE, currentGitCommit, getLatest, readRegistry, recordDeployment, writeRegistry } from "./registry";
+import type { CompilerSettings, DeploymentEntry } from "./registry";
+import { isLegacy, validateDeploymentParams } from "./schema";
+import { resolveExplorer, verifyDeployment } from "./verification";
+
+/*
+ * Declarative deployments: every entry of `deploymentParams.<network>` in `config/*.json` names a contract and holds
+ * its constructor arguments by parameter name. Adapters and the other contracts are deployed first, then the
+ * migrators, whose `adapters` may name adapters of the same network instead of giving their addresses. An entry can
+ * deploy a contract of another name through its `contract` field, e.g. to keep several configurations of an adapter.
+ * Entries marked `legacy` record contracts deployed with constructors that are no longer in the repository, and are
+ * never deployed.
+ *
+ * The parameters are validated against `./schema` before anything is deployed. Deployments are appended to the
+ * registry (`./registry`) together with the hash of the creation bytecode and the constructor arguments, and are
+ * skipped when both still match the artifact and the config. With `verify`, the deployed contracts are verified on the
+ * block explorer (`./verification`) and the outcome is recorded with them.
+ *
+ * With `create2`, the contracts are deployed through a CREATE2 factory (`./create2`) at addresses predicted from the
+ * entry name, the salt version and the creation code, and a contract already at its predicted address is recorded
+ * instead of being deployed again. The creation code holds the constructor arguments, so the addresses only carry over
+ * to another network for the entries of `sharedCreate2Entries`.
+ */
+
+export type ContractParams = Record<string, unknown>;
+
+export type StepKind = "adapter" | "contract" | "migrator";
+
+export interface DeploymentStep {
+    name: string;
+    // The contract to deploy: the `contract` field of the entry, or its name.
+    contract: string;
+    kind: StepKind;
+    params: ContractParams;
+}
+
+export interface DeploymentResult {
+    name: string;
+    status: "deployed" | "skipped" | "planned";
+    address?: string;
+    args: unknown[];
+    // Why the contract is (re)deployed.
+    reason?: string;
+    // The CREATE2 address of the contract.
+    predictedAddress?: string;
+    // Recorded without bytecode hash and constructor arguments: live, but not comparable with the config.
+    unverifiable?: boolean;
+}
+
+export interface DeploymentOptions {
+    // The `deploymentParams` entry of the network.
+    params: Record<string, ContractParams>;
+    // The deployment registry, `REGISTRY_FILE` by default.
+    registryFile?: string;
+    // Names of the contracts to deploy. All of them when omitted.
+    only?: string[];
+    // Reports what would be deployed without sending transactions.
+    dryRun?: boolean;
+    verify?: boolean;
+    // Deploys through a CREATE2 factory instead of from the deployer.
+    create2?: Create2Options;
+    log?: (message: string) => void;
+}
+
+// `deploymentParams` keys of the Hardhat networks whose names differ.
+export const CONFIG_NETWORKS: Record<string, string> = {
+    mainnet: "ethereum",
+    arbitrumOne: "arbitrum",
+    optimisticEthereum: "optimism"
+};
+
+const DEVELOPMENT_NETWORKS = ["hardhat", "localhost"];
+
+export function stepKind(name: string): StepKind {
+    if (/MigratorV2$/.test(name)) return "migrator";
+    return /Adapter$/.test(name) ? "adapter" : "contract";
+}
+
+/**
+ * Orders the contracts of a network, leaving out the legacy entries: adapters and other contracts in the config order,
+ * then the migrators.
+ */
+export function planDeployment(params: Record<string, ContractParams>, only?: string[]): DeploymentStep[] {
+    const unknown = (only ?? []).filter((name) => !(name in params));
+    if (unknown.length > 0) throw new Error(`No deployment parameters for ${unknown.join(", ")}`);
+    const legacy = (only ?? []).filter((name) => isLegacy(params[name]));
+    if (legacy.length > 0) throw new Error(`Legacy deployments cannot be deployed again: ${legacy.join(", ")}`);
+
+    const steps = Object.entries(params)
+        .filter(([name, contractParams]) => !isLegacy(contractParams) && (!only || only.includes(name)))
+        .map(([name, contractParams]) => {
+            const contract = (contractParams.contract as string | undefined) ?? name;
+            return { name, contract, kind: stepKind(contract), params: contractParams };
+        });
+    return [...steps.filter(({ kind }) => kind !== "migrator"), ...steps.filter(({ kind }) => kind === "migrator")];
+}
+
+// Compares the values with their object keys sorted, as the config files may order them differently.
+function sameValue(value: unknown, other: unknown): boolean {
+    const sorted = (_key: string, item: unknown) =>
+        typeof item === "object" && item !== null && !Array.isArray(item)
+            ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+            : item;
+    return JSON.stringify(value, sorted) === JSON.stringify(other, sorted);
+}
+
+/**
+ * The entries that get the same CREATE2 address on two networks, given their resolved params: the same contract built
+ * with the same parameters, and for a migrator the same adapter addresses or adapters that match too. The salt and
+ * the factory are assumed to be the same on both.
+ */
+export function sharedCreate2Entries(
+    params: Record<string, ContractParams>,
+    otherParams: Record<string, ContractParams>
+): string[] {
+    const others = new Map(planDeployment(otherParams).map((step) => [step.name, step]));
+    const adapters = (entries: Record<string, ContractParams>, step: DeploymentStep): string[] =>
+        (step.params.adapters as string[] | undefined) ??
+        planDeployment(entries)
+            .filter(({ kind }) => kind === "adapter")
+            .map(({ name }) => name);
+
+    const shared: string[] = [];
+    for (const step of planDeployment(params)) {
+        const other = others.get(step.name);
+        if (!other || other.contract !== step.contract) continue;
+        if (!sameValue({ ...step.params, adapters: undefined }, { ...other.params, adapters: undefined })) continue;
+        if (step.kind === "migrator") {
+            const entries = adapters(params, step);
+            const otherEntries = adapters(otherParams, other);
+            const sameAdapters =
+                entries.length === otherEntries.length &&
+                entries.every(
+                    (entry, index) =>
+                        entry === otherEntries[index] && (utils.isAddress(entry) || shared.includes(entry))
+                );
+            if (!sameAdapters) continue;
+        }
+        shared.push(step.name);
+    }
+    return shared;
+}
+
+function toArgument(input: utils.ParamType, value: unknown, path: string): unknown {
+    if (value === undefined) throw new Error(`Missing constructor argument ${path}`);
+    if (input.baseType !== "tuple") return value;
+    // Only the struct fields, in their declaration order.
+    const struct = value as Record<string, unknown>;
+    return Object.fromEntries(
+        input.components.map((component) => [
+            component.name,
+            toArgument(component, struct[component.name], `${path}.${component.name}`)
+        ])
+    );
+}
+
+/**
+ * Maps the parameters of a config entry to the constructor arguments by name, ignoring a leading underscore. A
+ * constructor that takes a single struct receives the whole entry.
+ */
+export function constructorArgs(name: string, inputs: utils.ParamType[], params: ContractParams): unknown[] {
+    return inputs.map((input) => {
+        const key = input.name in params ? input.name : input.name.replace(/^_/, "");
+        const isWholeEntry = inputs.length === 1 && input.baseType === "tuple" && !(key in params);
+        return toArgument(input, isWholeEntry ? params : params[key], `${name}.${key}`);
+    });
+}
+
+function sameArgs(record: DeploymentEntry, args: unknown[]): boolean {
+    return JSON.stringify(record.args) === JSON.stringify(args);
+}
+
+async function compilerSettings(hre: HardhatRuntimeEnvironment, contract: string): Promise<CompilerSettings> {
+    const artifact = await hre.artifacts.readArtifact(contract);
+    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    const settings = buildInfo?.input.settings;
+    return {
+        version: buildInfo?.solcVersion ?? "unknown",
+        optimizer: settings && { enabled: settings.optimizer.enabled, runs: settings.optimizer.runs },
+        evmVersion: settings?.evmVersion,
+        viaIR: settings?.viaIR
+    };
+}
+
+/**
+ * Deploys the contracts of `options.params` on the network of `hre`, skipping the ones already recorded with the
+ * same bytecode and constructor arguments. The registry is written after every deployment.
+ */
+export async function runDeployment(
+    hre: HardhatRuntimeEnvironment,
+    options: DeploymentOptions
+): Promise<DeploymentResult[]> {
+    const { ethers, network } = hre;
+    const log = options.log ?? (() => undefined);
+    const steps = planDeployment(options.params, options.only);
+
+    const { errors, warnings } = await validateDeploymentParams(options.params, ethers.provider);
+    warnings.forEach((warning) => log(`Warning: ${warning}`));
+    if (errors.length > 0) {
+        throw new Error(`Invalid deployment parameters:\n${errors.map((error) => `  - ${error}`).join("\n")}`);
+    }
+
+    const registryFile = options.registryFile ?? REGISTRY_FILE;
+    const registry = readRegistry(registryFile);
+    const { chainId } = await ethers.provider.getNetwork();
+    const [deployer] = await ethers.getSigners();
+    const gitCommit = currentGitCommit();
+    // Resolved first so that a missing API key fails before anything is deployed.
+    const explorer =
+        options.verify && !DEVELOPMENT_NETWORKS.includes(network.name) ? resolveExplorer(hre, chainId) : undefined;
+
+    const addresses = new Map<string, string>();
+    for (const name of Object.keys(registry.networks[network.name] ?? {})) {
+        addresses.set(name, (getLatest(registry, network.name, name) as DeploymentEntry).address);
+    }
+
+    // Adapters of a migrator: the addresses as they are, the names resolved from this deployment or the records.
+    const resolveAdapters = (params: ContractParams): unknown[] => {
+        const entries =
+            (params.adapters as string[] | undefined) ??
+            planDeployment(options.params)
+                .filter(({ kind }) => kind === "adapter")
+                .map(({ name }) => name);
+        return entries.map((entry) => {
+            if (utils.isAddress(entry)) return entry;
+            const address = addresses.get(entry);
+            if (address) return address;
+            throw new Error(`Adapter ${entry} is not deployed: deploy it first or give its address`);
+        });
+    };
+
+    const results: DeploymentResult[] = [];
+    for (const step of steps) {
+        if (!(await hre.artifacts.artifactExists(step.contract))) {
+            throw new Error(`${step.name}: no artifact ${step.contract}, set \`contract\` to the contract to deploy`);
+        }
+        const artifact = await hre.artifacts.readArtifact(step.contract);
+        const factory = await ethers.getContractFactory(step.contract, deployer);
+        const params =
+            step.kind === "migrator" ? { ...step.params, adapters: resolveAdapters(step.params) } : step.params;
+        const args = constructorArgs(step.name, factory.interface.deploy.inputs, params);
+        const bytecodeHash = utils.keccak256(artifact.bytecode);
+
+        const record = getLatest(registry, network.name, step.name);
+        let reason = "not deployed yet";
+        if (record && (!record.bytecodeHash || !record.args)) {
+            // The records written before the engine: kept as long as the contract is live.
+            if ((await ethers.provider.getCode(record.address)) !== "0x") {
+                log(`${step.name}: at ${record.address}, recorded without bytecode and arguments to check`);
+                const unverifiable = { address: record.address, args, unverifiable: true };
+                results.push({ name: step.name, status: "skipped", ...unverifiable });
+                continue;
+            }
+            reason = "no code at the recorded address";
+        } else if (record && record.bytecodeHash !== bytecodeHash) {
+            reason = "bytecode changed";
+        } else if (record && !sameArgs(record, args)) {
+            reason = "constructor arguments changed";
+        } else if (record && (await ethers.provider.getCode(record.address)) === "0x") {
+            reason = "no code at the recorded address";
+        } else if (record) {
+            log(`${step.name}: up to date at ${record.address}`);
+            results.push({ name: step.name, status: "skipped", address: record.address, args });
+            continue;
+        }
+
+        // Only encoded for CREATE2: the adapters of a migrator are placeholders in a dry run without it.
+        const initCode = options.create2 && (factory.getDeployTransaction(...args).data as string);
+        const salt = options.create2 && create2Salt(step.name, options.create2.version);
+        const predictedAddress =
+            options.create2 && predictCreate2Address(options.create2.factory, salt as string, initCode as string);
+        const details = {
+            ...(step.contract !== step.name ? { contract: step.contract } : {}),
+            bytecodeHash,
+            args,
+            compiler: await compilerSettings(hre, step.contract),
+            gitCommit
+        };
+
+        if (predictedAddress && (await ethers.provider.getCode(predictedAddress)) !== "0x") {
+            log(`${step.name}: already deployed at the predicted address ${predictedAddress}`);
+            if (!options.dryRun && record?.address !== predictedAddress) {
+                recordDeployment(registry, network.name, step.name, {
+                    address: predictedAddress,
+                    deployedBlock: await findDeploymentBlock(ethers.provider, predictedAddress),
+                    chainId,
+                    ...details
+                });
+                writeRegistry(registry, registryFile);
+            }
+            addresses.set(step.name, predictedAddress);
+            const existing = { address: predictedAddress, predictedAddress, args, reason: "at the predicted address" };
+            results.push({ name: step.name, status: "skipped", ...existing });
+            continue;
+        }
+
+        if (options.dryRun) {
+            const at = predictedAddress ? ` at ${predictedAddress}` : "";
+            log(`${step.name}: would be deployed${at} (${reason})`);
+            results.push({
+                name: step.name,
+                status: "planned",
+                address: predictedAddress,
+                args,
+                reason,
+                predictedAddress
+            });
+            addresses.set(step.name, predictedAddress ?? `<${step.name}>`);
+            continue;
+        }
+
+        let address: string;
+        let receipt: providers.TransactionReceipt;
+        if (options.create2) {
+            log(
+                `${step.name}: deploying to ${predictedAddress as string} through ${
+                    options.create2.factory
+                } (${reason})`
+            );
+            ({ address, receipt } = await deployCreate2(
+                deployer,
+                options.create2.factory,
+                salt as string,
+                initCode as string
+            ));
+        } else {
+            log(`${step.name}: deploying (${reason})`);
+            const contract = await factory.deploy(...args);
+            receipt = await contract.deployTransaction.wait();
+            address = contract.address;
+        }
+        log(`${step.name}: deployed to ${address} in block ${receipt.blockNumber}`);
+
+        const block = await ethers.provider.getBlock(receipt.blockNumber);
+        const recorded = recordDeployment(registry, network.name, step.name, {
+            address,
+            deployedBlock: receipt.blockNumber,
+            chainId,
+            txHash: receipt.transactionHash,
+            deployer: deployer.address,
+            timestamp: block.timestamp,
+            ...details
+        });
+        writeRegistry(registry, registryFile);
+        addresses.set(step.name, address);
+        results.push({ name: step.name, status: "deployed", address, args, reason, predictedAddress });
+
+        if (explorer) {
+            recorded.verification = await verifyDeployment(hre, explorer, step.contract, recorded, args);
+            log(`${step.name}: verification ${recorded.verification.status} (${recorded.verification.message ?? ""})`);
+            writeRegistry(registry, registryFile);
+        }
+    }
+
+    return results;
+}
@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as path from "path";
+import { execSync } from "child_process";
+
+/*
+ * The deployment registry: an append-only history of the deployments of every contract entry, per Hardhat network.
+ * The last entry of a contract is the live one; the previous ones stay for audits and rollbacks, e.g. to point the
+ * tooling back at an earlier migrator with `getAt(block)`.
+ *
+ * {
+ *     "version": 1,
+ *     "networks": {
+ *         "mainnet": { "TestMigratorV2": [{ "address": "0x...", "deployedBlock": 21000000, ... }, ...] }
+ *     }
+ * }
+ */
+
+export const REGISTRY_FILE = path.join(__dirname, "../test/deployments.json");
+
+const REGISTRY_VERSION = 1;
+
+export interface CompilerSettings {
+    version: string;
+    optimizer?: { enabled?: boolean; runs?: number };
+    evmVersion?: string;
+    viaIR?: boolean;
+}
+
+// Source code verification on the block explorer, see `./verification`.
+export type VerificationStatus = "pending" | "verified" | "failed";
+
+export interface VerificationRecord {
+    status: VerificationStatus;
+    attempts: number;
+    // The submission id of the explorer.
+    guid?: string;
+    // The last answer of the explorer or the error.
+    message?: string;
+    // Unix time.
+    updatedAt: number;
+}
+
+export interface DeploymentEntry {
+    address: string;
+    deployedBlock: number;
+    chainId: number;
+    // The artifact deployed, when it differs from the entry name.
+    contract?: string;
+    txHash?: string;
+    deployer?: string;
+    // Unix time of the deployment block.
+    timestamp?: number;
+    bytecodeHash?: string;
+    args?: unknown[];
+    compiler?: CompilerSettings;
+    gitCommit?: string;
+    // The address of the deployment this one superseded.
+    replaces?: string;
+    verification?: VerificationRecord;
+}
+
+export interface DeploymentRegistry {
+    version: number;
+    networks: Record<string, Record<string, DeploymentEntry[]>>;
+}
+
+export interface DeploymentListing {
+    network: string;
+    name: string;
+    entry: DeploymentEntry;
+    // Index of the entry in the history of the contract.
+    revision: number;
+    isLatest: boolean;
+}
+
+export interface ListOptions {
+    network?: string;
+    name?: string;
+    // Every revision instead of the latest ones only.
+    history?: boolean;
+}
+
+export function readRegistry(file = REGISTRY_FILE): DeploymentRegistry {
+    if (!fs.existsSync(file)) return { version: REGISTRY_VERSION, networks: {} };
+    const registry = JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentRegistry;
+    if (registry.version !== REGISTRY_VERSION) {
+        throw new Error(`Unsupported deployment registry version ${registry.version} in ${file}`);
+    }
+    return registry;
+}
+
+export function writeRegistry(registry: DeploymentRegistry, file = REGISTRY_FILE): void {
+    fs.writeFileSync(file, JSON.stringify(registry, null, 4) + "\n");
+}
+
+export function history(registry: DeploymentRegistry, network: string, name: string): DeploymentEntry[] {
+    return registry.networks[network]?.[name] ?? [];
+}
+
+export function getLatest(registry: DeploymentRegistry, network: string, name: string): DeploymentEntry | undefined {
+    const entries = history(registry, network, name);
+    return entries[entries.length - 1];
+}
+
+/**
+ * The deployment of a contract that was live at `block`: the last one deployed at or before it.
+ */
+export function getAt(
+    registry: DeploymentRegistry,
+    network: string,
+    name: string,
+    block: number
+): DeploymentEntry | undefined {
+    const entries = history(registry, network, name).filter(({ deployedBlock }) => deployedBlock <= block);
+    return entries[entries.length - 1];
+}
+
+export function list(registry: DeploymentRegistry, options: ListOptions = {}): DeploymentListing[] {
+    const listings: DeploymentListing[] = [];
+    for (const [network, contracts] of Object.entries(registry.networks)) {
+        if (options.network && network !== options.network) continue;
+        for (const [name, entries] of Object.entries(contracts)) {
+            if (options.name && name !== options.name) continue;
+            entries.forEach((entry, revision) => {
+                const isLatest = revision === entries.length - 1;
+                if (isLatest || options.history) listings.push({ network, name, entry, revision, isLatest });
+            });
+        }
+    }
+    return listings;
+}
+
+// The latest deployment of every contract of a network, by entry name.
+export function latestDeployments(registry: DeploymentRegistry, network: string): Record<string, DeploymentEntry> {
+    return Object.fromEntries(
+        list(registry, { network }).map(({ name, entry }) => [name, entry] as [string, DeploymentEntry])
+    );
+}
+
+/**
+ * Appends a deployment to the history of a contract. `replaces` is set to the address of the previous deployment.
+ */
+export function recordDeployment(
+    registry: DeploymentRegistry,
+    network: string,
+    name: string,
+    entry: DeploymentEntry
+): DeploymentEntry {
+    const previous = getLatest(registry, network, name);
+    const recorded = previous && previous.address !== entry.address ? { ...entry, replaces: previous.address } : entry;
+    ((registry.networks[network] ??= {})[name] ??= []).push(recorded);
+    return recorded;
+}
+
+// The commit of the working tree, if it is a git repository.
+export function currentGitCommit(): string | undefined {
+    try {
+        return execSync("git rev-parse HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+            .toString()
+            .trim();
+    } catch {
+        return undefined;
+    }
+}
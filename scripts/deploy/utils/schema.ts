@@ -0,0 +1,298 @@
+import { Contract, constants, utils } from "ethers";
+import type { providers } from "ethers";
+
+import { COMET_ABI, read } from "../../../sdk/abis";
+import type { ContractParams } from "./engine";
+
+/*
+ * Types and runtime validation of `deploymentParams` in `config/*.json`. The checks mirror the constructors, so a
+ * config that passes them does not revert on deployment: `InvalidZeroAddress`, `ConverterConfigMismatch`,
+ * `IdenticalTokenAddresses`, `AddressPairMismatch`, `MismatchedArrayLengths`, `AdapterAlreadyAllowed`,
+ * `CometAlreadyConfigured` and `BaseTokenMismatch`.
+ */
+
+export interface FlashDataParams {
+    liquidityPool: string;
+    baseToken: string;
+    isToken0: boolean;
+}
+
+export interface MigratorV2Params {
+    multisig: string;
+    // Addresses, or names of adapters of the same network. All the adapters of the network when omitted.
+    adapters?: string[];
+    comets: string[];
+    flashData: FlashDataParams[];
+    dai: string;
+    usds: string;
+}
+
+interface AdapterParams {
+    uniswapRouter: string;
+    daiUsdsConverter: string;
+    dai: string;
+    usds: string;
+    isFullMigration: boolean;
+    useSwapRouter02: boolean;
+}
+
+export interface AaveV3UsdsAdapterParams extends AdapterParams {
+    aaveLendingPool: string;
+    aaveDataProvider: string;
+}
+
+export interface SparkUsdsAdapterParams extends AdapterParams {
+    sparkLendingPool: string;
+    sparkDataProvider: string;
+}
+
+export interface MorphoUsdsAdapterParams extends AdapterParams {
+    morphoLendingPool: string;
+}
+
+export interface UniswapV3PathFinderParams {
+    factory: string;
+    quoterV2: string;
+    dai: string;
+    usds: string;
+}
+
+// `address` must be non-zero, `optionalAddress` may be zero.
+export type FieldType = "address" | "optionalAddress" | "bool" | "addresses" | "adapters" | "flashData";
+
+type Schema<T> = { [K in keyof T]-?: FieldType };
+
+const ADAPTER_SCHEMA: Schema<AdapterParams> = {
+    uniswapRouter: "address",
+    daiUsdsConverter: "optionalAddress",
+    dai: "optionalAddress",
+    usds: "optionalAddress",
+    isFullMigration: "bool",
+    useSwapRouter02: "bool"
+};
+
+const MIGRATOR_V2_SCHEMA: Schema<MigratorV2Params> = {
+    multisig: "address",
+    adapters: "adapters",
+    comets: "addresses",
+    flashData: "flashData",
+    dai: "optionalAddress",
+    usds: "optionalAddress"
+};
+
+export const SCHEMAS: Record<string, Record<string, FieldType>> = {
+    MigratorV2: MIGRATOR_V2_SCHEMA,
+    AaveV3UsdsAdapter: {
+        ...ADAPTER_SCHEMA,
+        aaveLendingPool: "address",
+        aaveDataProvider: "address"
+    } satisfies Schema<AaveV3UsdsAdapterParams>,
+    SparkUsdsAdapter: {
+        ...ADAPTER_SCHEMA,
+        sparkLendingPool: "address",
+        sparkDataProvider: "address"
+    } satisfies Schema<SparkUsdsAdapterParams>,
+    MorphoUsdsAdapter: { ...ADAPTER_SCHEMA, morphoLendingPool: "address" } satisfies Schema<MorphoUsdsAdapterParams>,
+    UniswapV3PathFinder: {
+        factory: "address",
+        quoterV2: "address",
+        dai: "optionalAddress",
+        usds: "optionalAddress"
+    } satisfies Schema<UniswapV3PathFinderParams>
+};
+
+// Fields that may be left out.
+const OPTIONAL_FIELDS = ["adapters"];
+// Fields read by the deployment engine itself.
+const ENGINE_FIELDS = ["contract", "legacy"];
+
+export interface ValidationResult {
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Whether an entry records a contract deployed with a constructor that is no longer in the repository. Such an entry
+ * is kept for the record: it is not validated, deployed again, or used to rebuild constructor arguments.
+ */
+export function isLegacy(params: ContractParams | undefined): boolean {
+    return params?.legacy === true;
+}
+
+// The schema of a contract, or of the contract it extends for the `Test*` deployments.
+export function schemaFor(contract: string): Record<string, FieldType> | undefined {
+    return SCHEMAS[contract] ?? SCHEMAS[contract.replace(/^Test/, "")];
+}
+
+function isChecksummed(value: unknown): value is string {
+    if (typeof value !== "string" || !utils.isAddress(value)) return false;
+    return value === utils.getAddress(value);
+}
+
+function checkAddress(errors: string[], path: string, value: unknown, required: boolean): void {
+    if (!isChecksummed(value)) {
+        errors.push(`${path} must be a checksummed address, got ${JSON.stringify(value)}`);
+    } else if (required && value === constants.AddressZero) {
+        errors.push(`${path} must not be the zero address`);
+    }
+}
+
+function checkList(errors: string[], path: string, value: unknown): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    errors.push(`${path} must be an array`);
+    return false;
+}
+
+function checkDuplicates(errors: string[], path: string, values: unknown[]): void {
+    const seen = new Set<string>();
+    for (const value of values) {
+        const key = String(value).toLowerCase();
+        if (seen.has(key)) errors.push(`${path} lists ${String(value)} more than once`);
+        seen.add(key);
+    }
+}
+
+function checkField(
+    errors: string[],
+    path: string,
+    type: FieldType,
+    value: unknown,
+    networkParams: Record<string, ContractParams>
+): void {
+    switch (type) {
+        case "address":
+        case "optionalAddress":
+            return checkAddress(errors, path, value, type === "address");
+        case "bool":
+            if (typeof value !== "boolean") errors.push(`${path} must be true or false`);
+            return;
+        case "addresses":
+            if (!checkList(errors, path, value)) return;
+            value.forEach((entry, i) => checkAddress(errors, `${path}[${i}]`, entry, true));
+            return checkDuplicates(errors, path, value);
+        case "adapters":
+            if (!checkList(errors, path, value)) return;
+            value.forEach((entry, i) => {
+                const isName = typeof entry === "string" && !entry.startsWith("0x");
+                if (isName && !(entry in networkParams)) errors.push(`${path}[${i}] names an unknown adapter ${entry}`);
+                if (!isName) checkAddress(errors, `${path}[${i}]`, entry, true);
+            });
+            return checkDuplicates(errors, path, value);
+        case "flashData":
+            if (!checkList(errors, path, value)) return;
+            value.forEach((entry, i) => {
+                const { liquidityPool, baseToken, isToken0 } = (entry ?? {}) as Partial<FlashDataParams>;
+                checkAddress(errors, `${path}[${i}].liquidityPool`, liquidityPool, true);
+                checkAddress(errors, `${path}[${i}].baseToken`, baseToken, true);
+                if (typeof isToken0 !== "boolean") errors.push(`${path}[${i}].isToken0 must be true or false`);
+            });
+    }
+}
+
+// `AddressPairMismatch`: DAI and USDS are both zero, or both non-zero and different.
+function checkDaiUsds(errors: string[], name: string, params: ContractParams): void {
+    const { dai, usds } = params;
+    if (!isChecksummed(dai) || !isChecksummed(usds)) return;
+    if (
+        (dai === constants.AddressZero) !== (usds === constants.AddressZero) ||
+        (dai !== constants.AddressZero && dai === usds)
+    ) {
+        errors.push(`${name}: dai and usds must both be zero, or both be set to different addresses`);
+    }
+}
+
+// `ConverterConfigMismatch`: the converter, DAI and USDS are all zero or all set.
+function checkConverter(errors: string[], name: string, params: ContractParams): void {
+    const { daiUsdsConverter } = params;
+    if (!isChecksummed(daiUsdsConverter)) return;
+    const isSet = [daiUsdsConverter, params.dai, params.usds].map((value) => value !== constants.AddressZero);
+    if (isSet.some((set) => set !== isSet[0])) {
+        errors.push(`${name}: daiUsdsConverter, dai and usds must all be set or all be zero`);
+    }
+}
+
+/**
+ * Checks the parameters of one network without network access.
+ */
+export function validateParams(networkParams: Record<string, ContractParams>): ValidationResult {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const [name, params] of Object.entries(networkParams)) {
+        if (isLegacy(params)) continue;
+        const contract = (params.contract as string | undefined) ?? name;
+        const schema = schemaFor(contract);
+        // Without a schema there is no contract to deploy either.
+        if (!schema) {
+            errors.push(`${name}: unknown contract ${contract}, expected one of ${Object.keys(SCHEMAS).join(", ")}`);
+            continue;
+        }
+
+        for (const [key, type] of Object.entries(schema)) {
+            if (params[key] === undefined) {
+                if (!OPTIONAL_FIELDS.includes(key)) errors.push(`${name}.${key} is missing`);
+                continue;
+            }
+            checkField(errors, `${name}.${key}`, type, params[key], networkParams);
+        }
+        for (const key of Object.keys(params)) {
+            if (!(key in schema) && !ENGINE_FIELDS.includes(key)) warnings.push(`${name}.${key} is not used`);
+        }
+
+        if (schema === SCHEMAS.MigratorV2) {
+            checkDaiUsds(errors, name, params);
+            const { comets, flashData } = params as Partial<MigratorV2Params>;
+            if (Array.isArray(comets) && Array.isArray(flashData) && comets.length !== flashData.length) {
+                errors.push(`${name}: ${comets.length} comets but ${flashData.length} flashData entries`);
+            }
+        } else if ("daiUsdsConverter" in schema) {
+            checkConverter(errors, name, params);
+            if (params.daiUsdsConverter !== constants.AddressZero) checkDaiUsds(errors, name, params);
+        } else {
+            checkDaiUsds(errors, name, params);
+        }
+    }
+
+    return { errors, warnings };
+}
+
+/**
+ * Runs `validateParams` and checks the flash data of the migrators against the Comet markets of the network: the
+ * flash loan token must be the base token of the market, or DAI for a USDS market.
+ */
+export async function validateDeploymentParams(
+    networkParams: Record<string, ContractParams>,
+    provider: providers.Provider
+): Promise<ValidationResult> {
+    const result = validateParams(networkParams);
+    if (result.errors.length > 0) return result;
+
+    for (const [name, params] of Object.entries(networkParams)) {
+        if (isLegacy(params) || schemaFor((params.contract as string | undefined) ?? name) !== SCHEMAS.MigratorV2) {
+            continue;
+        }
+        const { comets, flashData, dai, usds } = params as unknown as MigratorV2Params;
+
+        await Promise.all(
+            comets.map(async (comet, i) => {
+                if ((await provider.getCode(comet)) === "0x") {
+                    result.errors.push(`${name}.comets[${i}]: no contract at ${comet}`);
+                    return;
+                }
+                const baseToken = utils.getAddress(
+                    await read<string>(new Contract(comet, COMET_ABI, provider), "baseToken")
+                );
+                const flashToken = flashData[i].baseToken;
+                const isDaiForUsds = usds !== constants.AddressZero && baseToken === usds && flashToken === dai;
+                if (flashToken !== baseToken && !isDaiForUsds) {
+                    result.errors.push(
+                        `${name}.flashData[${i}].baseToken is ${flashToken}, but the base token of ${comet} is ` +
+                            `${baseToken}${baseToken === usds ? " (or DAI)" : ""}`
+                    );
+                }
+            })
+        );
+    }
+
+    return result;
+}
@@ -0,0 +1,284 @@
+import { utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { chainConfig } from "@nomiclabs/hardhat-etherscan/dist/src/ChainConfig";
+
+import { constructorArgs } from "./engine";
+import type { ContractParams } from "./engine";
+import { getLatest } from "./registry";
+import type { DeploymentEntry, DeploymentRegistry, VerificationRecord, VerificationStatus } from "./registry";
+import { isLegacy } from "./schema";
+
+/*
+ * Source code verification through the Etherscan-compatible API of the block explorers:
+ *
+ * 1. wait for the code of the contract to be on-chain, with backoff;
+ * 2. submit the standard JSON input of the build info (`verifysourcecode`), retrying on rate limits and on explorers
+ *    that have not indexed the contract yet;
+ * 3. poll the submission (`checkverifystatus`) until it passes or fails.
+ *
+ * The constructor arguments are the recorded ones, or are rebuilt from `deploymentParams` for the records that have
+ * none, and are ABI-encoded with the constructor of the artifact so that struct parameters (e.g. the
+ * `DeploymentParams` of the adapters) are encoded as tuples. The outcome is stored in the `verification` field of the
+ * deployment in the registry.
+ */
+
+export interface Explorer {
+    apiUrl: string;
+    apiKey: string;
+    browserUrl?: string;
+}
+
+export interface BackoffOptions {
+    retries?: number;
+    // Delay before the first retry, doubled on every retry up to `maxDelay`.
+    delay?: number;
+    maxDelay?: number;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+export interface VerificationRequest {
+    address: string;
+    // Fully qualified, e.g. `contracts/MigratorV2.sol:MigratorV2`.
+    contractName: string;
+    // Long solc version, e.g. `0.8.28+commit.7893614a`.
+    compilerVersion: string;
+    // Standard JSON input.
+    sourceCode: string;
+    // ABI-encoded, without the `0x` prefix.
+    constructorArguments: string;
+}
+
+interface ExplorerResponse {
+    status: string;
+    message: string;
+    result: string;
+}
+
+// Explorer answers worth retrying: rate limits and contracts the explorer has not indexed yet.
+const RETRYABLE = [/rate limit/i, /unable to locate contractcode/i, /not found/i, /try again/i];
+const ALREADY_VERIFIED = /already verified/i;
+const PENDING = /pending in queue|in progress/i;
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// The outcome of one attempt: a value, or the reason to try again.
+export type Attempt<T> = { value: T } | { retry: string };
+
+/**
+ * Runs `action` until it returns a value, waiting with an exponential backoff between the attempts. Throws the last
+ * reason once the retries are exhausted.
+ */
+export async function withBackoff<T>(
+    action: (attempt: number) => Promise<Attempt<T>>,
+    options: BackoffOptions = {}
+): Promise<T> {
+    const { retries = 5, delay = 5000, maxDelay = 60000, sleep: wait = sleep } = options;
+    for (let attempt = 0; ; attempt++) {
+        const result = await action(attempt);
+        if ("value" in result) return result.value;
+        if (attempt >= retries) throw new Error(`${result.retry} (after ${attempt + 1} attempts)`);
+        await wait(Math.min(delay * 2 ** attempt, maxDelay));
+    }
+}
+
+async function callExplorer(
+    explorer: Explorer,
+    params: Record<string, string>,
+    post: boolean
+): Promise<Attempt<ExplorerResponse>> {
+    const query = new URLSearchParams({ ...params, apikey: explorer.apiKey });
+    let response: Response;
+    try {
+        response = post
+            ? await fetch(explorer.apiUrl, { method: "POST", body: query })
+            : await fetch(`${explorer.apiUrl}?${query.toString()}`);
+    } catch (error) {
+        return { retry: `${explorer.apiUrl} unreachable: ${(error as Error).message}` };
+    }
+    if (response.status === 429 || response.status >= 500) {
+        return { retry: `${explorer.apiUrl} answered HTTP ${response.status}` };
+    }
+    if (!response.ok) throw new Error(`${explorer.apiUrl} answered HTTP ${response.status}`);
+    return { value: (await response.json()) as ExplorerResponse };
+}
+
+function isRetryable({ result }: ExplorerResponse): boolean {
+    return RETRYABLE.some((pattern) => pattern.test(result));
+}
+
+/**
+ * Submits a contract to the explorer and waits for the result. Rejected submissions resolve to a `failed` record;
+ * errors of the explorer API that outlast the retries are thrown.
+ */
+export async function verifyContract(
+    explorer: Explorer,
+    request: VerificationRequest,
+    options: BackoffOptions = {}
+): Promise<VerificationRecord> {
+    let attempts = 0;
+    const record = (status: VerificationStatus, message: string, guid?: string): VerificationRecord => {
+        return { status, attempts, guid, message, updatedAt: Math.floor(Date.now() / 1000) };
+    };
+
+    const submission = await withBackoff(async () => {
+        attempts++;
+        const attempt = await callExplorer(
+            explorer,
+            {
+                module: "contract",
+                action: "verifysourcecode",
+                contractaddress: request.address,
+                sourceCode: request.sourceCode,
+                codeformat: "solidity-standard-json-input",
+                contractname: request.contractName,
+                compilerversion: `v${request.compilerVersion}`,
+                // The spelling of the Etherscan API.
+                constructorArguements: request.constructorArguments
+            },
+            true
+        );
+        const isRejected = "value" in attempt && attempt.value.status !== "1" && isRetryable(attempt.value);
+        return isRejected ? { retry: attempt.value.result } : attempt;
+    }, options);
+
+    if (ALREADY_VERIFIED.test(submission.result)) return record("verified", submission.result);
+    if (submission.status !== "1") return record("failed", submission.result);
+
+    const guid = submission.result;
+    const check = await withBackoff(
+        async () => {
+            const attempt = await callExplorer(
+                explorer,
+                { module: "contract", action: "checkverifystatus", guid },
+                false
+            );
+            const isPending = "value" in attempt && (PENDING.test(attempt.value.result) || isRetryable(attempt.value));
+            return isPending ? { retry: attempt.value.result } : attempt;
+        },
+        { ...options, retries: Math.max(options.retries ?? 5, 10) }
+    );
+
+    const isVerified = check.status === "1" || ALREADY_VERIFIED.test(check.result);
+    return record(isVerified ? "verified" : "failed", check.result, guid);
+}
+
+/**
+ * The explorer of a chain from the `etherscan` section of the Hardhat config: `customChains` first, then the chains
+ * known to `hardhat-etherscan`. The API key is the one of the matching network name.
+ */
+export function resolveExplorer(hre: HardhatRuntimeEnvironment, chainId: number): Explorer {
+    const { apiKey, customChains } = hre.config.etherscan;
+    const chains = [
+        ...customChains,
+        ...Object.entries(chainConfig).map(([network, config]) => ({ network, ...config }))
+    ];
+    const chain = chains.find((candidate) => candidate.chainId === chainId);
+    if (!chain) throw new Error(`No block explorer configured for chain ${chainId}: add it to etherscan.customChains`);
+
+    const key = typeof apiKey === "string" ? apiKey : apiKey?.[chain.network];
+    if (!key) throw new Error(`No explorer API key for ${chain.network}: set etherscan.apiKey.${chain.network}`);
+    return { apiUrl: chain.urls.apiURL, apiKey: key, browserUrl: chain.urls.browserURL };
+}
+
+/**
+ * The artifact of a deployment: the `contract` recorded with it, or the `contract` of its `deploymentParams` entry for
+ * the records that have none, or its name.
+ */
+export function deploymentContract(
+    name: string,
+    entry: DeploymentEntry,
+    params?: Record<string, ContractParams>
+): string {
+    return entry.contract ?? (params?.[name]?.contract as string | undefined) ?? name;
+}
+
+/**
+ * The constructor arguments of a deployment: the recorded ones, or the ones rebuilt from its `deploymentParams` entry
+ * with the adapters of a migrator resolved from the registry.
+ */
+export async function resolveConstructorArgs(
+    hre: HardhatRuntimeEnvironment,
+    registry: DeploymentRegistry,
+    network: string,
+    name: string,
+    entry: DeploymentEntry,
+    params?: Record<string, ContractParams>
+): Promise<unknown[]> {
+    if (entry.args) return entry.args;
+    const contractParams = params?.[name];
+    if (!contractParams)
+        throw new Error(`${name}: no recorded arguments and no deploymentParams entry to rebuild them`);
+    if (isLegacy(contractParams)) throw new Error(`${name}: no recorded arguments, and legacy entries are not rebuilt`);
+
+    const contract = deploymentContract(name, entry, params);
+    const adapters = (contractParams.adapters as string[] | undefined)?.map((adapter) => {
+        if (utils.isAddress(adapter)) return adapter;
+        const record = getLatest(registry, network, adapter);
+        if (!record) throw new Error(`${name}: adapter ${adapter} is not in the registry`);
+        return record.address;
+    });
+    const { interface: contractInterface } = await hre.ethers.getContractFactory(contract);
+    const withAdapters = adapters ? { ...contractParams, adapters } : contractParams;
+    return constructorArgs(name, contractInterface.deploy.inputs, withAdapters);
+}
+
+/**
+ * Builds the verification request of a deployment from the build info of its artifact, see `deploymentContract`.
+ */
+export async function buildVerificationRequest(
+    hre: HardhatRuntimeEnvironment,
+    contract: string,
+    entry: DeploymentEntry,
+    args: unknown[]
+): Promise<VerificationRequest> {
+    const artifact = await hre.artifacts.readArtifact(contract);
+    const contractName = `${artifact.sourceName}:${artifact.contractName}`;
+    const buildInfo = await hre.artifacts.getBuildInfo(contractName);
+    if (!buildInfo) throw new Error(`Build info for ${contract} not found: compile the contracts first`);
+
+    const contractInterface = new utils.Interface(artifact.abi);
+    return {
+        address: entry.address,
+        contractName,
+        compilerVersion: buildInfo.solcLongVersion,
+        sourceCode: JSON.stringify(buildInfo.input),
+        constructorArguments: contractInterface.encodeDeploy(args).slice(2)
+    };
+}
+
+/**
+ * Verifies a deployment of the registry and returns its verification record. The code of the contract is awaited
+ * first, as explorers reject contracts they have not indexed.
+ */
+export async function verifyDeployment(
+    hre: HardhatRuntimeEnvironment,
+    explorer: Explorer,
+    contract: string,
+    entry: DeploymentEntry,
+    args: unknown[],
+    options: BackoffOptions = {}
+): Promise<VerificationRecord> {
+    const attempts = entry.verification?.attempts ?? 0;
+    try {
+        await withBackoff(async () => {
+            const code = await hre.ethers.provider.getCode(entry.address);
+            return code === "0x" ? { retry: `No code at ${entry.address}` } : { value: code };
+        }, options);
+
+        const request = await buildVerificationRequest(hre, contract, entry, args);
+        const record = await verifyContract(explorer, request, options);
+        return { ...record, attempts: attempts + record.attempts };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { status: "failed", attempts: attempts + 1, message, updatedAt: Math.floor(Date.now() / 1000) };
+    }
+}
+
+// The latest deployments of a network that are not verified yet.
+export function pendingVerifications(registry: DeploymentRegistry, network: string): [string, DeploymentEntry][] {
+    return Object.keys(registry.networks[network] ?? {})
+        .map((name) => [name, getLatest(registry, network, name) as DeploymentEntry] as [string, DeploymentEntry])
+        .filter(([, entry]) => entry.verification?.status !== "verified");
+}
@@ -0,0 +1,137 @@
+import * as fs from "fs";
+
+/*
+ * The combined report of the fork tests of several networks: one suite per network and test file, with the state,
+ * duration and gas of every test. It is written as JSON and as JUnit XML for CI test dashboards, where the suites are
+ * named `<network>/<suite>` and the gas is a property of the test case.
+ */
+
+export type ForkTestState = "passed" | "failed" | "pending";
+
+export interface ForkTestResult {
+    // The full title, i.e. with the titles of the enclosing `describe` blocks.
+    title: string;
+    state: ForkTestState;
+    durationMs?: number;
+    // The gas of the transactions mined during the test, see `meterGas`.
+    gasUsed?: number;
+    error?: string;
+}
+
+export interface ForkTestJob {
+    network: string;
+    // `AaveV3`, `Spark`, `Morpho` or `Scenarios`.
+    suite: string;
+    file: string;
+}
+
+export interface ForkSuiteReport extends ForkTestJob {
+    // `null` when the process was killed.
+    exitCode: number | null;
+    durationMs: number;
+    tests: ForkTestResult[];
+}
+
+export interface ForkTestSummary {
+    tests: number;
+    passed: number;
+    failed: number;
+    pending: number;
+    gasUsed: number;
+}
+
+export interface ForkTestReport {
+    version: number;
+    gitCommit?: string;
+    createdAt: string;
+    durationMs: number;
+    summary: ForkTestSummary;
+    suites: ForkSuiteReport[];
+}
+
+export const FORK_TEST_REPORT_VERSION = 1;
+
+export function summarizeForkTests(tests: ForkTestResult[]): ForkTestSummary {
+    const count = (state: ForkTestState) => tests.filter((test) => test.state === state).length;
+    return {
+        tests: tests.length,
+        passed: count("passed"),
+        failed: count("failed"),
+        pending: count("pending"),
+        gasUsed: tests.reduce((total, { gasUsed }) => total + (gasUsed ?? 0), 0)
+    };
+}
+
+/**
+ * The report of a suite from the results its process wrote. A process that failed without a failed test (e.g. it
+ * crashed before the tests or could not fork) gets one, so the failure shows in the report.
+ */
+export function forkSuiteReport(
+    job: ForkTestJob,
+    exitCode: number | null,
+    durationMs: number,
+    tests: ForkTestResult[]
+): ForkSuiteReport {
+    const crashed = exitCode !== 0 && !tests.some(({ state }) => state === "failed");
+    return {
+        ...job,
+        exitCode,
+        durationMs,
+        tests: crashed
+            ? [
+                  ...tests,
+                  { title: job.file, state: "failed", error: `The process exited with code ${String(exitCode)}` }
+              ]
+            : tests
+    };
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+const seconds = (durationMs = 0) => (durationMs / 1000).toFixed(3);
+
+export function formatJUnitReport(report: ForkTestReport): string {
+    const { summary } = report;
+    const lines = [
+        "<?xml version='1.0' encoding='UTF-8'?>",
+        `<testsuites name="fork tests" tests="${summary.tests}" failures="${summary.failed}" ` +
+            `skipped="${summary.pending}" time="${seconds(report.durationMs)}">`
+    ];
+    for (const suite of report.suites) {
+        const name = `${suite.network}/${suite.suite}`;
+        const counts = summarizeForkTests(suite.tests);
+        lines.push(
+            `    <testsuite name="${escapeXml(name)}" file="${escapeXml(suite.file)}" tests="${counts.tests}" ` +
+                `failures="${counts.failed}" skipped="${counts.pending}" time="${seconds(suite.durationMs)}">`
+        );
+        for (const test of suite.tests) {
+            const attributes = `classname="${escapeXml(name)}" name="${escapeXml(test.title)}"`;
+            lines.push(`        <testcase ${attributes} time="${seconds(test.durationMs)}">`);
+            if (test.gasUsed !== undefined) {
+                lines.push(`            <properties><property name="gasUsed" value="${test.gasUsed}"/></properties>`);
+            }
+            if (test.state === "failed") {
+                const error = escapeXml(test.error ?? "failed");
+                lines.push(`            <failure message="${error.split("\n")[0]}">${error}</failure>`);
+            }
+            if (test.state === "pending") lines.push("            <skipped/>");
+            lines.push("        </testcase>");
+        }
+        lines.push("    </testsuite>");
+    }
+    lines.push("</testsuites>");
+    return lines.join("\n") + "\n";
+}
+
+// Writes `<out>.json` and `<out>.xml`.
+export function writeForkTestReport(out: string, report: ForkTestReport): void {
+    fs.writeFileSync(`${out}.json`, JSON.stringify(report, null, 4) + "\n");
+    fs.writeFileSync(`${out}.xml`, formatJUnitReport(report));
+}
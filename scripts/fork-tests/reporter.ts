@@ -0,0 +1,79 @@
+import * as fs from "fs";
+import Mocha from "mocha";
+import type { EIP1193Provider, RequestArguments } from "hardhat/types";
+
+import type { ForkTestResult } from "./report";
+
+/*
+ * The side of a fork test process of `fork:test`: a Mocha reporter that prints the usual `spec` output and writes the
+ * results of the tests to a JSON file, and a provider extension that adds up the gas of the mined transactions.
+ */
+
+const SEND_METHODS = ["eth_sendTransaction", "eth_sendRawTransaction"];
+
+// The gas of the transactions sent through the Hardhat provider since the process started.
+let meteredGas = 0;
+
+/**
+ * A provider extension (`extendProvider`) that adds the gas of every transaction to the meter. The receipt is read
+ * right after the transaction, as it is mined at once (automine) and can be gone after a snapshot revert.
+ */
+export function meterGas(provider: EIP1193Provider): Promise<EIP1193Provider> {
+    const request = provider.request.bind(provider);
+    provider.request = async (args: RequestArguments) => {
+        const result = await request(args);
+        if (SEND_METHODS.includes(args.method)) {
+            const receipt = (await request({ method: "eth_getTransactionReceipt", params: [result] })) as {
+                gasUsed: string;
+            } | null;
+            if (receipt) meteredGas += Number(receipt.gasUsed);
+        }
+        return result;
+    };
+    return Promise.resolve(provider);
+}
+
+/**
+ * A Mocha reporter writing the results to `output` when the run ends. The gas of a test is the one metered between its
+ * start and its end, so the first test of a fixture also pays for the deployment of the fixture.
+ */
+export function forkTestReporter(output: string): Mocha.ReporterConstructor {
+    const { EVENT_RUN_END, EVENT_TEST_BEGIN, EVENT_TEST_FAIL, EVENT_TEST_PASS, EVENT_TEST_PENDING } =
+        Mocha.Runner.constants;
+
+    // Mocha creates the reporter with `new`; the returned `spec` reporter is the instance it gets.
+    return function (runner: Mocha.Runner, options: Mocha.MochaOptions) {
+        const spec = new Mocha.reporters.Spec(runner, options);
+        const results: ForkTestResult[] = [];
+        let gasAtStart = 0;
+
+        runner.on(EVENT_TEST_BEGIN, () => {
+            gasAtStart = meteredGas;
+        });
+        runner.on(EVENT_TEST_PASS, (test) => {
+            results.push({
+                title: test.fullTitle(),
+                state: "passed",
+                durationMs: test.duration,
+                gasUsed: meteredGas - gasAtStart
+            });
+        });
+        // Also the failed hooks, whose titles name the hook and the test.
+        runner.on(EVENT_TEST_FAIL, (test, error: Error) => {
+            results.push({
+                title: test.fullTitle(),
+                state: "failed",
+                durationMs: test.duration,
+                gasUsed: meteredGas - gasAtStart,
+                error: error.stack ?? error.message
+            });
+        });
+        runner.on(EVENT_TEST_PENDING, (test) => {
+            results.push({ title: test.fullTitle(), state: "pending" });
+        });
+        runner.once(EVENT_RUN_END, () => {
+            fs.writeFileSync(output, JSON.stringify(results, null, 4) + "\n");
+        });
+        return spec;
+    } as unknown as Mocha.ReporterConstructor;
+}
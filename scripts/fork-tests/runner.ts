@@ -0,0 +1,100 @@
+import { spawn } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+
+import { forkSuiteReport } from "./report";
+import type { ForkSuiteReport, ForkTestJob, ForkTestResult } from "./report";
+
+/*
+ * Fork tests of several networks at once. The network of a fork is resolved once per Hardhat process (see
+ * `FORK_NETWORK` in `hardhat.config.ts`), so every network and suite runs in a Hardhat process of its own, forking
+ * with the URL and block of its network. The output of the processes is streamed line by line, prefixed with
+ * `[<network>/<suite>]`.
+ */
+
+export const FORK_NETWORKS = ["ethereum", "base", "arbitrum", "polygon", "optimism"];
+export const FORK_SUITES = ["AaveV3", "Spark", "Morpho", "Scenarios"];
+
+export interface ForkRunOptions {
+    // The number of processes at a time.
+    parallel: number;
+    grep?: string;
+    // The first port of the RPC caches (`FORK_MODE`), one per process.
+    cachePort: number;
+    log: (line: string) => void;
+}
+
+function suiteFile(network: string, suite: string): string {
+    return suite === "Scenarios"
+        ? path.join("test", "fork", "scenarios", "Scenarios.test.ts")
+        : path.join("test", "fork", "networks", network, `MigratorV2With${suite}.test.ts`);
+}
+
+/**
+ * The suites to run: every network and suite that has a test file under `root`, e.g. no Spark suite for Base.
+ */
+export function forkTestJobs(root: string, networks: string[], suites: string[]): ForkTestJob[] {
+    for (const suite of suites) {
+        if (!FORK_SUITES.includes(suite))
+            throw new Error(`Unknown suite "${suite}", expected one of ${FORK_SUITES.join(", ")}`);
+    }
+    return networks.flatMap((network) =>
+        suites
+            .map((suite) => ({ network, suite, file: suiteFile(network, suite) }))
+            .filter(({ file }) => fs.existsSync(path.join(root, file)))
+    );
+}
+
+async function runJob(root: string, job: ForkTestJob, port: number, options: ForkRunOptions): Promise<ForkSuiteReport> {
+    const label = `[${job.network}/${job.suite}]`;
+    const results = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "fork-tests-")), "results.json");
+    const startedAt = Date.now();
+
+    // The contracts are compiled once, before the processes start.
+    const args = ["hardhat", "test", job.file, "--no-compile", ...(options.grep ? ["--grep", options.grep] : [])];
+    const child = spawn("npx", args, {
+        cwd: root,
+        env: {
+            ...process.env,
+            FORKING: "true",
+            npm_config_fork_network: job.network,
+            FORK_CACHE_PORT: String(port),
+            FORK_TEST_REPORT: results
+        }
+    });
+    for (const stream of [child.stdout, child.stderr]) {
+        readline.createInterface({ input: stream }).on("line", (line) => options.log(`${label} ${line}`));
+    }
+    const exitCode = await new Promise<number | null>((resolve) => {
+        child.on("error", (error) => {
+            options.log(`${label} ${error.message}`);
+            resolve(null);
+        });
+        child.on("close", resolve);
+    });
+
+    const tests = fs.existsSync(results) ? (JSON.parse(fs.readFileSync(results, "utf8")) as ForkTestResult[]) : [];
+    return forkSuiteReport(job, exitCode, Date.now() - startedAt, tests);
+}
+
+/**
+ * Runs the suites, `parallel` processes at a time, and returns their reports in the order of the jobs.
+ */
+export async function runForkTestJobs(
+    root: string,
+    jobs: ForkTestJob[],
+    options: ForkRunOptions
+): Promise<ForkSuiteReport[]> {
+    const reports: ForkSuiteReport[] = new Array<ForkSuiteReport>(jobs.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < jobs.length) {
+            const index = next++;
+            reports[index] = await runJob(root, jobs[index], options.cachePort + index, options);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(options.parallel, jobs.length)) }, worker));
+    return reports;
+}
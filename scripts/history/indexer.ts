@@ -0,0 +1,108 @@
+import { utils } from "ethers";
+import type { BigNumber, providers } from "ethers";
+
+import { MIGRATOR_V2_ABI } from "../../sdk/abis";
+import type { HistoryStore, MigratorEventName } from "./store";
+
+export interface IndexOptions {
+    // Defaults to the latest block minus `confirmations`.
+    toBlock?: number;
+    // Blocks per `eth_getLogs` request.
+    batchSize?: number;
+    confirmations?: number;
+    // Called after every page, e.g. to persist the store.
+    onPage?: (store: HistoryStore, fromBlock: number, toBlock: number) => void;
+}
+
+export interface IndexResult {
+    fromBlock: number;
+    toBlock: number;
+    pages: number;
+    migrations: number;
+    events: number;
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+const migratorInterface = new utils.Interface(MIGRATOR_V2_ABI);
+
+const INDEXED_EVENTS: ("MigrationExecuted" | MigratorEventName)[] = [
+    "MigrationExecuted",
+    "AdapterAllowed",
+    "AdapterRemoved",
+    "FlashDataConfigured",
+    "FlashDataRemoved",
+    "Paused",
+    "Unpaused"
+];
+
+const TOPICS = INDEXED_EVENTS.map((name) => migratorInterface.getEventTopic(name));
+
+/**
+ * Appends the migrator events from the block after `store.lastIndexedBlock` to `toBlock`, page by page.
+ *
+ * RPC providers reject large ranges with different errors, so a failing page is halved until it goes through. The
+ * error of a single block page is thrown; the store then holds the pages indexed before it.
+ */
+export async function indexMigratorHistory(
+    provider: providers.Provider,
+    store: HistoryStore,
+    options: IndexOptions = {}
+): Promise<IndexResult> {
+    const toBlock = options.toBlock ?? (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+    const result = { fromBlock: store.lastIndexedBlock + 1, toBlock, pages: 0, migrations: 0, events: 0 };
+    const timestamps = new Map<number, number>();
+    const timestampOf = async (blockNumber: number) => {
+        if (!timestamps.has(blockNumber)) timestamps.set(blockNumber, (await provider.getBlock(blockNumber)).timestamp);
+        return timestamps.get(blockNumber) as number;
+    };
+
+    let batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    let from = result.fromBlock;
+    while (from <= toBlock) {
+        const to = Math.min(from + batchSize - 1, toBlock);
+        let logs: providers.Log[];
+        try {
+            logs = await provider.getLogs({ address: store.migrator, fromBlock: from, toBlock: to, topics: [TOPICS] });
+        } catch (error) {
+            if (batchSize === 1) throw error;
+            batchSize = Math.ceil(batchSize / 2);
+            continue;
+        }
+
+        for (const log of logs) {
+            const event = migratorInterface.parseLog(log);
+            const location = {
+                blockNumber: log.blockNumber,
+                transactionHash: log.transactionHash,
+                logIndex: log.logIndex,
+                timestamp: await timestampOf(log.blockNumber)
+            };
+            if (event.name === "MigrationExecuted") {
+                store.migrations.push({
+                    ...location,
+                    adapter: event.args.adapter as string,
+                    user: event.args.user as string,
+                    comet: event.args.comet as string,
+                    flashAmount: (event.args.flashAmount as BigNumber).toString(),
+                    flashFee: (event.args.flashFee as BigNumber).toString()
+                });
+                result.migrations++;
+            } else {
+                const args = event.eventFragment.inputs.map(({ name }, i) => [name, String(event.args[i])] as const);
+                store.events.push({
+                    ...location,
+                    name: event.name as MigratorEventName,
+                    args: Object.fromEntries(args)
+                });
+                result.events++;
+            }
+        }
+
+        store.lastIndexedBlock = to;
+        result.pages++;
+        options.onPage?.(store, from, to);
+        from = to + 1;
+    }
+    return result;
+}
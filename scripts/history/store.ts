@@ -0,0 +1,164 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BigNumber, utils } from "ethers";
+
+/*
+ * The local store of the migrator events, one JSON file per migrator and network:
+ *
+ * {
+ *     "version": 1,
+ *     "chainId": 1,
+ *     "migrator": "0x...",
+ *     "fromBlock": 21000000,
+ *     "lastIndexedBlock": 21500000,
+ *     "migrations": [{ "blockNumber": 21000042, "user": "0x...", "flashFee": "315000", ... }],
+ *     "events": [{ "blockNumber": 21000001, "name": "AdapterAllowed", "args": { "adapter": "0x..." }, ... }]
+ * }
+ *
+ * Events are appended in chain order as the indexer pages through the blocks, so a store can be resumed from
+ * `lastIndexedBlock` at any time.
+ */
+
+export const HISTORY_DIR = path.join(__dirname, "../../history");
+
+const STORE_VERSION = 1;
+
+export type MigratorEventName =
+    | "AdapterAllowed"
+    | "AdapterRemoved"
+    | "FlashDataConfigured"
+    | "FlashDataRemoved"
+    | "Paused"
+    | "Unpaused";
+
+interface LogLocation {
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+    // Unix time of the block.
+    timestamp: number;
+}
+
+export interface MigrationRecord extends LogLocation {
+    adapter: string;
+    user: string;
+    comet: string;
+    // Amounts in the smallest units of the Comet base token.
+    flashAmount: string;
+    flashFee: string;
+}
+
+// The configuration events of the owner.
+export interface MigratorEventRecord extends LogLocation {
+    name: MigratorEventName;
+    args: Record<string, string>;
+}
+
+export interface HistoryStore {
+    version: number;
+    chainId: number;
+    migrator: string;
+    fromBlock: number;
+    // -1 until the first page is indexed.
+    lastIndexedBlock: number;
+    migrations: MigrationRecord[];
+    events: MigratorEventRecord[];
+}
+
+export interface MigrationFilter {
+    user?: string;
+    comet?: string;
+    adapter?: string;
+    fromBlock?: number;
+    toBlock?: number;
+}
+
+export interface FlashFeeSummary {
+    comet: string;
+    adapter: string;
+    migrations: number;
+    // Migrations that took a flash loan.
+    flashLoans: number;
+    flashAmount: string;
+    flashFee: string;
+}
+
+export function historyFile(network: string, migrator: string): string {
+    return path.join(HISTORY_DIR, network, `${utils.getAddress(migrator)}.json`);
+}
+
+/**
+ * Reads the store of a migrator, or starts an empty one from `fromBlock` when the file does not exist.
+ */
+export function readHistoryStore(file: string, chainId: number, migrator: string, fromBlock: number): HistoryStore {
+    if (!fs.existsSync(file)) {
+        return {
+            version: STORE_VERSION,
+            chainId,
+            migrator: utils.getAddress(migrator),
+            fromBlock,
+            lastIndexedBlock: fromBlock - 1,
+            migrations: [],
+            events: []
+        };
+    }
+
+    const store = JSON.parse(fs.readFileSync(file, "utf8")) as HistoryStore;
+    if (store.version !== STORE_VERSION) {
+        throw new Error(`Unsupported history store version ${store.version} in ${file}`);
+    }
+    if (store.chainId !== chainId || utils.getAddress(store.migrator) !== utils.getAddress(migrator)) {
+        throw new Error(`${file} holds the history of ${store.migrator} on chain ${store.chainId}`);
+    }
+    return store;
+}
+
+export function writeHistoryStore(file: string, store: HistoryStore): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(store, null, 4) + "\n");
+}
+
+/**
+ * The migrations matching every field of the filter, in chain order.
+ */
+export function queryMigrations(store: HistoryStore, filter: MigrationFilter = {}): MigrationRecord[] {
+    const same = (a: string, b?: string) => b === undefined || utils.getAddress(a) === utils.getAddress(b);
+    return store.migrations.filter(
+        (migration) =>
+            same(migration.user, filter.user) &&
+            same(migration.comet, filter.comet) &&
+            same(migration.adapter, filter.adapter) &&
+            migration.blockNumber >= (filter.fromBlock ?? 0) &&
+            migration.blockNumber <= (filter.toBlock ?? Infinity)
+    );
+}
+
+/**
+ * Migration counts and flash loan totals per Comet and adapter. Amounts are only added up per Comet, as they are in
+ * its base token.
+ */
+export function summarizeFlashFees(migrations: MigrationRecord[]): FlashFeeSummary[] {
+    const summaries = new Map<string, FlashFeeSummary>();
+    for (const { comet, adapter, flashAmount, flashFee } of migrations) {
+        const key = `${comet}/${adapter}`;
+        const summary = summaries.get(key) ?? {
+            comet,
+            adapter,
+            migrations: 0,
+            flashLoans: 0,
+            flashAmount: "0",
+            flashFee: "0"
+        };
+        summary.migrations++;
+        if (!BigNumber.from(flashAmount).isZero()) summary.flashLoans++;
+        summary.flashAmount = BigNumber.from(summary.flashAmount).add(flashAmount).toString();
+        summary.flashFee = BigNumber.from(summary.flashFee).add(flashFee).toString();
+        summaries.set(key, summary);
+    }
+    return [...summaries.values()];
+}
+
+// A page of a list, numbered from 1.
+export function paginate<T>(items: T[], page: number, pageSize: number): T[] {
+    return items.slice((page - 1) * pageSize, page * pageSize);
+}
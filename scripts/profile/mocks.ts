@@ -0,0 +1,242 @@
+import { constants, utils } from "ethers";
+import type { Contract } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { AdapterType } from "../../sdk/encoding";
+import type { MigrationPlan, PlanBorrow, PlanCollateral, PlanSwap } from "../../sdk/plan";
+import type { Scenario } from "./scenarios";
+import { selectorNames } from "./trace";
+
+/*
+ * The unit test mocks, deployed to profile scenarios of any shape. Every token has a reserve in the Aave and Spark
+ * mocks, Morpho markets are created per position, and the router, the converter, the flash pools, the lending pools
+ * and the Comets hold enough of every token. Swaps and conversions are 1:1.
+ *
+ * `swap` scenarios move distinct collateral tokens into the USDT market and repay distinct debt tokens with USDT.
+ * `none` scenarios move the same collateral tokens without swapping them and repay USDT debts, `convert` scenarios
+ * move DAI into the USDS market and repay DAI debts. Positions of a scenario may share a token, so the adapters are
+ * deployed with `isFullMigration: false`.
+ */
+
+export interface ProfileEnvironment {
+    migrator: string;
+    // Names of the deployed contracts and tokens by address.
+    labels: Record<string, string>;
+    selectors: Map<string, string>;
+    // Opens the positions of a scenario for the user and returns its plan. Call it in a snapshot.
+    preparePlan: (scenario: Scenario) => Promise<MigrationPlan>;
+}
+
+const COLLATERAL_AMOUNT = utils.parseEther("100");
+const BORROW_AMOUNT = utils.parseEther("10");
+const FUNDING = utils.parseEther("1000000");
+// The flash loan of scenarios without borrows.
+const MIN_FLASH_AMOUNT = utils.parseEther("1");
+const FEE = 100;
+
+/**
+ * Deploys the mocks, the adapters and `MigratorV2` for scenarios of up to `maxCollaterals` collaterals and
+ * `maxBorrows` borrows. The second signer is the user of the plans.
+ */
+export async function deployProfileMocks(
+    hre: HardhatRuntimeEnvironment,
+    maxBorrows: number,
+    maxCollaterals: number
+): Promise<ProfileEnvironment> {
+    const { ethers } = hre;
+    const [deployer, user] = await ethers.getSigners();
+    const labels: Record<string, string> = {};
+    const contracts: Contract[] = [];
+    const deploy = async (label: string, name: string, ...args: unknown[]) => {
+        const contract = await (await ethers.getContractFactory(name)).deploy(...args);
+        labels[contract.address] = label;
+        contracts.push(contract);
+        return contract;
+    };
+
+    const deployToken = (symbol: string) => deploy(symbol, "MockERC20", symbol, symbol, 0, deployer.address);
+    const [DAI, USDS, USDT] = [await deployToken("DAI"), await deployToken("USDS"), await deployToken("USDT")];
+    const collateralTokens: Contract[] = [];
+    for (let i = 0; i < maxCollaterals; i++) collateralTokens.push(await deployToken(`COL${i}`));
+    const debtTokens: Contract[] = [];
+    for (let i = 0; i < maxBorrows; i++) debtTokens.push(await deployToken(`DEBT${i}`));
+    const tokens = [DAI, USDS, USDT, ...collateralTokens, ...debtTokens];
+
+    // Aave and Spark reserves of every token but USDS, which is never a source position.
+    const aTokens: Record<string, { aave: [Contract, Contract]; spark: [Contract, Contract] }> = {};
+    for (const token of [DAI, USDT, ...collateralTokens, ...debtTokens]) {
+        const symbol = labels[token.address];
+        aTokens[token.address] = {
+            aave: [
+                await deploy(`a${symbol}`, "MockAToken", `a${symbol}`, `a${symbol}`, token.address),
+                await deploy(`variableDebt${symbol}`, "MockADebtToken", `vd${symbol}`, `vd${symbol}`, token.address)
+            ],
+            spark: [
+                await deploy(`sp${symbol}`, "MockSpToken", `sp${symbol}`, `sp${symbol}`, token.address),
+                await deploy(`spDebt${symbol}`, "MockSpDebtToken", `spd${symbol}`, `spd${symbol}`, token.address)
+            ]
+        };
+    }
+    const reserves = Object.entries(aTokens);
+    const pool = async (label: string, name: string, key: "aave" | "spark") => {
+        const [first, ...others] = reserves.map(([token, pair]) => [pair[key][0].address, token, pair[key][1].address]);
+        const contract = await deploy(label, name, first[0], first[1], first[2], first[1]);
+        for (const [aToken, token, debtToken] of others)
+            await contract.functions.setPoll(aToken, token, debtToken, token);
+        return contract;
+    };
+    const aavePool = await pool("AavePool", "MockAavePool", "aave");
+    const sparkPool = await pool("SparkPool", "MockSparkPool", "spark");
+    const morpho = await deploy("Morpho", "MockMorpho");
+
+    const router = await deploy("SwapRouter", "MockSwapRouter");
+    const converter = await deploy("DaiUsds", "MockDaiUsds", DAI.address, USDS.address);
+    const cometUsdt = await deploy("cUSDTv3", "MockComet", USDT.address, DAI.address);
+    const cometUsds = await deploy("cUSDSv3", "MockComet", USDS.address, DAI.address);
+    const flashPoolUsdt = await deploy("UniswapV3Pool USDT/DAI", "MockUniswapV3Pool", USDT.address, DAI.address);
+    const flashPoolUsds = await deploy("UniswapV3Pool USDS/DAI", "MockUniswapV3Pool", USDS.address, DAI.address);
+
+    const common = {
+        uniswapRouter: router.address,
+        daiUsdsConverter: converter.address,
+        dai: DAI.address,
+        usds: USDS.address,
+        isFullMigration: false,
+        useSwapRouter02: false
+    };
+    const adapters: Record<AdapterType, Contract> = {
+        AaveV3: await deploy("AaveV3UsdsAdapter", "AaveV3UsdsAdapter", {
+            ...common,
+            aaveLendingPool: aavePool.address,
+            aaveDataProvider: aavePool.address
+        }),
+        Spark: await deploy("SparkUsdsAdapter", "SparkUsdsAdapter", {
+            ...common,
+            sparkLendingPool: sparkPool.address,
+            sparkDataProvider: sparkPool.address
+        }),
+        Morpho: await deploy("MorphoUsdsAdapter", "MorphoUsdsAdapter", { ...common, morphoLendingPool: morpho.address })
+    };
+    const migrator = await deploy(
+        "MigratorV2",
+        "MigratorV2",
+        deployer.address,
+        Object.values(adapters).map(({ address }) => address),
+        [cometUsdt.address, cometUsds.address],
+        [
+            { liquidityPool: flashPoolUsdt.address, baseToken: USDT.address, isToken0: true },
+            { liquidityPool: flashPoolUsds.address, baseToken: USDS.address, isToken0: true }
+        ],
+        DAI.address,
+        USDS.address
+    );
+
+    const holders = [
+        router,
+        converter,
+        cometUsdt,
+        cometUsds,
+        flashPoolUsdt,
+        flashPoolUsds,
+        aavePool,
+        sparkPool,
+        morpho
+    ];
+    for (const token of tokens) {
+        for (const holder of [...holders.map(({ address }) => address), user.address]) {
+            await token.functions.mintFor(holder, FUNDING);
+        }
+    }
+
+    const preparePlan = async ({ adapter, borrows, collaterals, conversion, flash }: Scenario) => {
+        if (borrows > maxBorrows || collaterals > maxCollaterals) {
+            throw new Error(`The mocks are deployed for up to ${maxBorrows} borrows and ${maxCollaterals} collaterals`);
+        }
+        const [comet, base] = conversion === "convert" ? [cometUsds, USDS] : [cometUsdt, USDT];
+        const collateralOf = (i: number) => (conversion === "convert" ? DAI : collateralTokens[i]);
+        const debtOf = (i: number) => (conversion === "convert" ? DAI : conversion === "none" ? USDT : debtTokens[i]);
+
+        const collateralSwap = (token: Contract): PlanSwap | undefined => {
+            if (conversion === "convert") return { convert: "DAI_TO_USDS" };
+            if (conversion === "swap") {
+                return { hops: [{ token: token.address, fee: FEE }, { token: base.address }], amountOutMinimum: "1" };
+            }
+            return undefined;
+        };
+        const borrowSwap = (token: Contract): PlanSwap | undefined => {
+            if (conversion === "convert") return { convert: "USDS_TO_DAI" };
+            if (conversion === "swap") {
+                return {
+                    hops: [{ token: base.address, fee: FEE }, { token: token.address }],
+                    amountInMaximum: BORROW_AMOUNT.toString()
+                };
+            }
+            return undefined;
+        };
+
+        const asUser = (contract: Contract) => contract.connect(user);
+        const planCollaterals: PlanCollateral[] = [];
+        const planBorrows: PlanBorrow[] = [];
+        for (let i = 0; i < collaterals + borrows; i++) {
+            const isCollateral = i < collaterals;
+            const token = isCollateral ? collateralOf(i) : debtOf(i - collaterals);
+            const amount = (isCollateral ? COLLATERAL_AMOUNT : BORROW_AMOUNT).toString();
+            const swap = isCollateral ? collateralSwap(token) : borrowSwap(token);
+
+            if (adapter === "Morpho") {
+                // A market per position: the LLTV only makes the market ids distinct.
+                const params = {
+                    loanToken: isCollateral ? base.address : token.address,
+                    collateralToken: isCollateral ? token.address : base.address,
+                    oracle: constants.AddressZero,
+                    irm: constants.AddressZero,
+                    lltv: i + 1
+                };
+                await morpho.functions.setMarketParams(params);
+                const [marketId] = (await morpho.functions.getMarketId(params)) as [string];
+                if (isCollateral) {
+                    await asUser(token).functions.approve(morpho.address, amount);
+                    await asUser(morpho).functions.supplyCollateral(params, amount, user.address, "0x");
+                    planCollaterals.push({ marketId, amount, swap });
+                } else {
+                    await asUser(morpho).functions.borrow(params, amount, 0, user.address, user.address);
+                    planBorrows.push({ marketId, amount, swap });
+                }
+                continue;
+            }
+
+            const lendingPool = adapter === "AaveV3" ? aavePool : sparkPool;
+            const [aToken, debtToken] = aTokens[token.address][adapter === "AaveV3" ? "aave" : "spark"];
+            if (isCollateral) {
+                await asUser(token).functions.approve(lendingPool.address, amount);
+                await asUser(lendingPool).functions.deposit(token.address, amount);
+                await asUser(aToken).functions.approve(migrator.address, constants.MaxUint256);
+                const key = adapter === "AaveV3" ? "aToken" : "spToken";
+                planCollaterals.push({ [key]: aToken.address, amount, swap });
+            } else {
+                await asUser(lendingPool).functions.borrow(token.address, amount);
+                planBorrows.push({ debtToken: debtToken.address, amount, swap });
+            }
+        }
+
+        const flashAmount = borrows > 0 ? BORROW_AMOUNT.mul(borrows) : flash ? MIN_FLASH_AMOUNT : constants.Zero;
+        const plan: MigrationPlan = {
+            adapterType: adapter,
+            adapter: adapters[adapter].address,
+            comet: comet.address,
+            migrator: migrator.address,
+            user: user.address,
+            flashAmount: flashAmount.toString(),
+            borrows: planBorrows,
+            collaterals: planCollaterals
+        };
+        return plan;
+    };
+
+    return {
+        migrator: migrator.address,
+        labels,
+        selectors: selectorNames(contracts.map(({ interface: contractInterface }) => contractInterface)),
+        preparePlan
+    };
+}
@@ -0,0 +1,97 @@
+import type { providers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { MigrationPlan } from "../../sdk/plan";
+import { simulateMigration } from "../../sdk/simulation";
+import { deployProfileMocks } from "./mocks";
+import type { ProfileEntry } from "./report";
+import { planScenario, scenarioId } from "./scenarios";
+import type { Scenario } from "./scenarios";
+import { calldataCost, traceCallGas } from "./trace";
+
+export interface ProfileTarget {
+    migrator: string;
+    labels: Record<string, string>;
+    selectors: Map<string, string>;
+    // Passed to the simulation. Read from Comet when omitted.
+    cometAssets?: string[];
+}
+
+function failedEntry(scenario: Scenario, error: string, calldata = "0x"): ProfileEntry {
+    const { bytes, gas } = calldataCost(calldata);
+    return {
+        id: scenarioId(scenario),
+        scenario,
+        status: "failed",
+        calldataBytes: bytes,
+        calldataGas: gas,
+        calls: [],
+        error
+    };
+}
+
+/**
+ * Executes a plan on the node, traces it and reverts the node. A migration that reverts gives a failed entry.
+ */
+export async function profilePlan(
+    provider: providers.JsonRpcProvider,
+    plan: MigrationPlan,
+    target: ProfileTarget,
+    scenario: Scenario = planScenario(plan)
+): Promise<ProfileEntry> {
+    const snapshotId = (await provider.send("evm_snapshot", [])) as string;
+    try {
+        const result = await simulateMigration(provider, plan, {
+            migrator: target.migrator,
+            cometAssets: target.cometAssets,
+            keepState: true
+        });
+        if (!result.success || !result.transactionHash) {
+            return failedEntry(scenario, result.error?.message ?? "reverted", result.calldata);
+        }
+
+        const { bytes, gas } = calldataCost(result.calldata);
+        return {
+            id: scenarioId(scenario),
+            scenario,
+            status: "ok",
+            gasUsed: result.gasUsed?.toNumber(),
+            calldataBytes: bytes,
+            calldataGas: gas,
+            calls: await traceCallGas(provider, result.transactionHash, target.labels, target.selectors)
+        };
+    } finally {
+        await provider.send("evm_revert", [snapshotId]);
+    }
+}
+
+/**
+ * Profiles scenarios against the unit test mocks, deployed once for the largest scenario.
+ */
+export async function profileMockScenarios(
+    hre: HardhatRuntimeEnvironment,
+    scenarios: Scenario[],
+    onEntry?: (entry: ProfileEntry) => void
+): Promise<ProfileEntry[]> {
+    const provider = hre.ethers.provider;
+    const maxBorrows = Math.max(0, ...scenarios.map(({ borrows }) => borrows));
+    const maxCollaterals = Math.max(0, ...scenarios.map(({ collaterals }) => collaterals));
+    const environment = await deployProfileMocks(hre, maxBorrows, maxCollaterals);
+    const target = { ...environment, cometAssets: [] };
+
+    const entries: ProfileEntry[] = [];
+    for (const scenario of scenarios) {
+        const snapshotId = (await provider.send("evm_snapshot", [])) as string;
+        let entry: ProfileEntry;
+        try {
+            entry = await profilePlan(provider, await environment.preparePlan(scenario), target, scenario);
+        } catch (error) {
+            entry = failedEntry(scenario, error instanceof Error ? error.message : String(error));
+        } finally {
+            await provider.send("evm_revert", [snapshotId]);
+        }
+        entries.push(entry);
+        onEntry?.(entry);
+    }
+    return entries;
+}
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+
+import type { Scenario } from "./scenarios";
+import type { CallGas } from "./trace";
+
+/*
+ * Gas profile reports: one entry per scenario, written as JSON (the baseline format) and Markdown. Two reports are
+ * compared by scenario id; a scenario whose gas or calldata grows by more than the tolerance is a regression.
+ */
+
+export interface ProfileEntry {
+    id: string;
+    scenario: Scenario;
+    status: "ok" | "failed";
+    gasUsed?: number;
+    calldataBytes: number;
+    calldataGas: number;
+    calls: CallGas[];
+    error?: string;
+}
+
+export interface ProfileReport {
+    version: number;
+    // `mocks` or the forked network.
+    target: string;
+    blockNumber?: number;
+    gitCommit?: string;
+    createdAt: string;
+    entries: ProfileEntry[];
+}
+
+export type ProfileMetric = "gasUsed" | "calldataBytes";
+
+export interface ProfileChange {
+    id: string;
+    metric: ProfileMetric;
+    baseline: number;
+    current: number;
+    // Relative change in percent.
+    change: number;
+}
+
+export interface ProfileComparison {
+    regressions: ProfileChange[];
+    improvements: ProfileChange[];
+    // Scenarios in only one of the reports, or failing in the current one.
+    added: string[];
+    removed: string[];
+    failed: string[];
+}
+
+export const PROFILE_VERSION = 1;
+
+const METRICS: ProfileMetric[] = ["gasUsed", "calldataBytes"];
+
+export function readProfileReport(file: string): ProfileReport {
+    const report = JSON.parse(fs.readFileSync(file, "utf8")) as ProfileReport;
+    if (report.version !== PROFILE_VERSION) throw new Error(`Unsupported profile version ${report.version} in ${file}`);
+    return report;
+}
+
+export function writeProfileReport(file: string, report: ProfileReport): void {
+    fs.writeFileSync(file, JSON.stringify(report, null, 4) + "\n");
+}
+
+/**
+ * Compares a report with a baseline. Changes within `tolerance` percent are ignored.
+ */
+export function compareProfiles(baseline: ProfileReport, current: ProfileReport, tolerance = 0): ProfileComparison {
+    const previous = new Map(baseline.entries.map((entry) => [entry.id, entry]));
+    const comparison: ProfileComparison = { regressions: [], improvements: [], added: [], removed: [], failed: [] };
+
+    for (const entry of current.entries) {
+        const before = previous.get(entry.id);
+        previous.delete(entry.id);
+        if (entry.status === "failed") {
+            comparison.failed.push(entry.id);
+            continue;
+        }
+        if (!before || before.status === "failed") {
+            comparison.added.push(entry.id);
+            continue;
+        }
+
+        for (const metric of METRICS) {
+            const [baselineValue, currentValue] = [before[metric] ?? 0, entry[metric] ?? 0];
+            if (baselineValue === 0 || baselineValue === currentValue) continue;
+            const change = ((currentValue - baselineValue) / baselineValue) * 100;
+            if (Math.abs(change) <= tolerance) continue;
+            const profileChange = { id: entry.id, metric, baseline: baselineValue, current: currentValue, change };
+            (change > 0 ? comparison.regressions : comparison.improvements).push(profileChange);
+        }
+    }
+    comparison.removed = [...previous.keys()];
+    return comparison;
+}
+
+function formatChange({ id, metric, baseline, current, change }: ProfileChange): string {
+    const sign = change > 0 ? "+" : "";
+    return `| ${id} | ${metric} | ${baseline} | ${current} | ${sign}${change.toFixed(2)}% |`;
+}
+
+/**
+ * The Markdown version of a report: a table of the scenarios, the most expensive calls of each one and, with a
+ * comparison, the changes against the baseline.
+ */
+export function formatProfileMarkdown(report: ProfileReport, comparison?: ProfileComparison, topCalls = 5): string {
+    const block = report.blockNumber !== undefined ? ` at block ${report.blockNumber}` : "";
+    const lines = [
+        "# Migration gas profile",
+        "",
+        `Target: ${report.target}${block}, ${report.createdAt}${
+            report.gitCommit ? `, commit ${report.gitCommit}` : ""
+        }`,
+        "",
+        "| Scenario | Status | Gas used | Calldata (bytes) | Calldata gas |",
+        "| --- | --- | ---: | ---: | ---: |",
+        ...report.entries.map(({ id, status, gasUsed, calldataBytes, calldataGas, error }) => {
+            const gas = status === "ok" ? String(gasUsed) : `- (${error ?? "failed"})`;
+            return `| ${id} | ${status} | ${gas} | ${calldataBytes} | ${calldataGas} |`;
+        })
+    ];
+
+    if (comparison) {
+        lines.push("", "## Changes against the baseline", "");
+        const changes = [...comparison.regressions, ...comparison.improvements];
+        if (changes.length > 0) {
+            lines.push("| Scenario | Metric | Baseline | Current | Change |", "| --- | --- | ---: | ---: | ---: |");
+            lines.push(...changes.map(formatChange));
+        } else {
+            lines.push("No change beyond the tolerance.");
+        }
+        const lists: [string, string[]][] = [
+            ["New scenarios", comparison.added],
+            ["Removed scenarios", comparison.removed],
+            ["Failed scenarios", comparison.failed]
+        ];
+        for (const [title, ids] of lists.filter(([, ids]) => ids.length > 0)) {
+            lines.push("", `${title}: ${ids.join(", ")}`);
+        }
+    }
+
+    lines.push("", "## Most expensive calls", "");
+    for (const entry of report.entries.filter(({ status }) => status === "ok")) {
+        lines.push(`### ${entry.id}`, "", "| Call | Count | Gas (inclusive) |", "| --- | ---: | ---: |");
+        lines.push(
+            ...entry.calls
+                .slice(0, topCalls)
+                .map(({ kind, target, method, calls, gas }) => `| ${kind} ${target}.${method} | ${calls} | ${gas} |`),
+            ""
+        );
+    }
+    return lines.join("\n");
+}
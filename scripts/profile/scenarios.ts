@@ -0,0 +1,78 @@
+import type { AdapterType } from "../../sdk/encoding";
+import { toAmount } from "../../sdk/plan";
+import type { MigrationPlan } from "../../sdk/plan";
+
+/*
+ * The axes of the gas profiling matrix. A scenario is one combination of them:
+ *
+ * - `adapter`: the source protocol;
+ * - `borrows` and `collaterals`: the number of positions migrated;
+ * - `conversion`: how the positions reach the Comet base token. `swap` goes through the Uniswap router, `convert`
+ *   through the DAI ⇄ USDS converter (into a USDS market), `none` moves the collaterals as they are and repays the
+ *   borrows with the base token;
+ * - `flash`: whether the migration takes a flash loan. Borrows cannot be repaid without one, so the matrix skips the
+ *   scenarios with borrows and without flash loan.
+ */
+
+export type Conversion = "none" | "swap" | "convert";
+
+export interface Scenario {
+    adapter: AdapterType;
+    borrows: number;
+    collaterals: number;
+    conversion: Conversion;
+    flash: boolean;
+}
+
+export interface ScenarioAxes {
+    adapters: AdapterType[];
+    borrows: number[];
+    collaterals: number[];
+    conversions: Conversion[];
+    flash: boolean[];
+}
+
+export const DEFAULT_AXES: ScenarioAxes = {
+    adapters: ["AaveV3", "Spark", "Morpho"],
+    borrows: [0, 1, 2],
+    collaterals: [1, 2],
+    conversions: ["none", "swap", "convert"],
+    flash: [true, false]
+};
+
+// e.g. `AaveV3/2b-1c/swap/flash`.
+export function scenarioId({ adapter, borrows, collaterals, conversion, flash }: Scenario): string {
+    return `${adapter}/${borrows}b-${collaterals}c/${conversion}/${flash ? "flash" : "no-flash"}`;
+}
+
+export function scenarioMatrix(axes: ScenarioAxes = DEFAULT_AXES): Scenario[] {
+    const scenarios: Scenario[] = [];
+    for (const adapter of axes.adapters) {
+        for (const borrows of axes.borrows) {
+            for (const collaterals of axes.collaterals) {
+                for (const conversion of axes.conversions) {
+                    for (const flash of axes.flash) {
+                        if (borrows > 0 && !flash) continue;
+                        scenarios.push({ adapter, borrows, collaterals, conversion, flash });
+                    }
+                }
+            }
+        }
+    }
+    return scenarios;
+}
+
+/**
+ * The scenario of an existing plan, e.g. one profiled on a fork. A plan mixing swaps and conversions counts as a swap.
+ */
+export function planScenario(plan: MigrationPlan): Scenario {
+    const swaps = [...plan.borrows, ...plan.collaterals].map(({ swap }) => swap).filter((swap) => swap);
+    const conversion = swaps.some((swap) => !swap?.convert) ? "swap" : swaps.length > 0 ? "convert" : "none";
+    return {
+        adapter: plan.adapterType,
+        borrows: plan.borrows.length,
+        collaterals: plan.collaterals.length,
+        conversion,
+        flash: !toAmount(plan.flashAmount).isZero()
+    };
+}
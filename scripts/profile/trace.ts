@@ -0,0 +1,102 @@
+import { utils } from "ethers";
+import type { providers } from "ethers";
+import type { StructLog } from "hardhat-tracer";
+import { findNextStructLogInDepth, parseAddress, parseMemory, parseNumber } from "hardhat-tracer/dist/src/utils";
+
+/*
+ * Gas of the internal calls of a transaction, from the struct logs of `debug_traceTransaction` parsed with the
+ * helpers of `hardhat-tracer`. The gas of a call is inclusive: it covers the call opcode and everything executed
+ * below it, so nested calls are counted in their parent as well.
+ */
+
+export interface CallGas {
+    // The label of the callee, or its address.
+    target: string;
+    // The function name, or the selector when no known ABI declares it.
+    method: string;
+    kind: "CALL" | "STATICCALL" | "DELEGATECALL";
+    calls: number;
+    gas: number;
+}
+
+const CALL_OPS = ["CALL", "STATICCALL", "DELEGATECALL"];
+
+// The stack positions (from the top) of `address`, `argsOffset` and `argsSize`: `CALL` has a `value` argument.
+const ARGUMENTS: Record<string, [number, number, number]> = {
+    CALL: [1, 3, 4],
+    STATICCALL: [1, 2, 3],
+    DELEGATECALL: [1, 2, 3]
+};
+
+/**
+ * Function names by selector, from ABIs.
+ */
+export function selectorNames(abis: ReadonlyArray<utils.Interface | string[]>): Map<string, string> {
+    const names = new Map<string, string>();
+    for (const abi of abis) {
+        const contractInterface = abi instanceof utils.Interface ? abi : new utils.Interface(abi);
+        for (const fragment of Object.values(contractInterface.functions)) {
+            names.set(contractInterface.getSighash(fragment), fragment.name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Traces a mined transaction and sums the gas of its calls by callee and function, the most expensive first.
+ */
+export async function traceCallGas(
+    provider: providers.JsonRpcProvider,
+    transactionHash: string,
+    labels: Record<string, string>,
+    selectors: Map<string, string>
+): Promise<CallGas[]> {
+    const trace = (await provider.send("debug_traceTransaction", [
+        transactionHash,
+        { disableStorage: true, disableMemory: false, disableStack: false }
+    ])) as { structLogs: StructLog[] };
+    const structLogs = trace.structLogs;
+    const labelOf = (address: string) => labels[utils.getAddress(address)] ?? utils.getAddress(address);
+
+    const totals = new Map<string, CallGas>();
+    structLogs.forEach((structLog, index) => {
+        if (!CALL_OPS.includes(structLog.op)) return;
+        const [addressIndex, offsetIndex, sizeIndex] = ARGUMENTS[structLog.op];
+        const stack = structLog.stack;
+        const top = (position: number) => stack[stack.length - 1 - position];
+
+        let next: StructLog;
+        try {
+            [next] = findNextStructLogInDepth(structLogs, structLog.depth, index + 1);
+        } catch {
+            // The transaction ended inside the call.
+            return;
+        }
+
+        const offset = parseNumber(top(offsetIndex));
+        const size = parseNumber(top(sizeIndex));
+        const input = size >= 4 ? utils.hexlify(parseMemory(structLog.memory).slice(offset, offset + 4)) : "0x";
+        const call = {
+            target: labelOf(parseAddress(top(addressIndex))),
+            method: selectors.get(input) ?? (input === "0x" ? "fallback" : input),
+            kind: structLog.op as CallGas["kind"]
+        };
+
+        const key = `${call.kind} ${call.target}.${call.method}`;
+        const total = totals.get(key) ?? { ...call, calls: 0, gas: 0 };
+        total.calls++;
+        total.gas += structLog.gas - next.gas;
+        totals.set(key, total);
+    });
+
+    return [...totals.values()].sort((a, b) => b.gas - a.gas);
+}
+
+/**
+ * The size of the calldata and its intrinsic gas: 4 per zero byte and 16 per non-zero byte.
+ */
+export function calldataCost(data: string): { bytes: number; gas: number } {
+    const bytes = utils.arrayify(data);
+    const zeros = bytes.filter((byte) => byte === 0).length;
+    return { bytes: bytes.length, gas: zeros * 4 + (bytes.length - zeros) * 16 };
+}
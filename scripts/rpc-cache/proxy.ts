@@ -0,0 +1,195 @@
+import * as http from "http";
+
+import { RPC_CACHE_DIR, readRpcCacheStore, requestKey, rpcCacheFile, writeRpcCacheStore } from "./store";
+import type { RpcCacheStore } from "./store";
+
+/*
+ * A local JSON-RPC proxy between the Hardhat fork and the RPC provider, so fork tests can run without network access:
+ *
+ * - `record`: requests are served from the store, and the other ones are forwarded to the provider and their results
+ *   added to the store, which is written when the process exits;
+ * - `replay`: requests are only served from the store; a request that is not in it fails with an error naming it.
+ *
+ * The server listens on the loopback interface and does not keep the process alive. When its port is taken by the proxy
+ * of the same store, e.g. the one of the parent process of `hardhat run`, that proxy is used instead; `ready` rejects
+ * when it is taken by anything else.
+ */
+
+export type ForkMode = "record" | "replay";
+
+export const DEFAULT_RPC_CACHE_PORT = 8549;
+
+// `JSON-RPC` server error codes.
+const CACHE_MISS = -32000;
+const UPSTREAM_ERROR = -32603;
+const PARSE_ERROR = -32700;
+
+// Answered by the proxy itself, to tell whether a port is taken by the proxy of the same store.
+const INFO_METHOD = "rpcCache_info";
+
+export interface RpcCacheOptions {
+    mode: string;
+    // The RPC provider. Only needed to record.
+    upstream?: string;
+    chainId: number;
+    // The fork block. The cache needs a pinned block, as the responses of `latest` change.
+    blockNumber?: number;
+    dir?: string;
+    port?: number;
+}
+
+export interface RpcCache {
+    mode: ForkMode;
+    url: string;
+    file: string;
+    store: RpcCacheStore;
+    // Resolves once `url` serves the store, rejects when the port is taken by another process or proxy.
+    ready: Promise<void>;
+    // Writes the recorded responses.
+    flush(): void;
+    close(): Promise<void>;
+}
+
+interface JsonRpcRequest {
+    id?: number | string | null;
+    method: string;
+    params?: unknown[];
+}
+
+interface JsonRpcResponse {
+    jsonrpc: "2.0";
+    id: number | string | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+export function parseForkMode(mode: string): ForkMode {
+    if (mode !== "record" && mode !== "replay") throw new Error(`FORK_MODE must be record or replay, not "${mode}"`);
+    return mode;
+}
+
+async function forward(upstream: string, request: JsonRpcRequest): Promise<JsonRpcResponse> {
+    const response = await fetch(upstream, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: request.method, params: request.params ?? [] })
+    });
+    if (!response.ok) throw new Error(`${upstream} answered ${response.status} ${response.statusText}`);
+    const body = (await response.json()) as JsonRpcResponse;
+    return { ...body, id: request.id ?? null };
+}
+
+/**
+ * Starts the proxy of a fork and returns its URL at once, so it can be put into the Hardhat config before the fork
+ * connects.
+ */
+export function startRpcCache(options: RpcCacheOptions): RpcCache {
+    const mode = parseForkMode(options.mode);
+    const { upstream, chainId, blockNumber } = options;
+    if (blockNumber === undefined) {
+        throw new Error("FORK_MODE needs a pinned fork block, e.g. FORKING_ETHEREUM_BLOCK or FORKING_BLOCK_NUMBER");
+    }
+    if (mode === "record" && !upstream) throw new Error("FORK_MODE=record needs the RPC URL of the forked network");
+
+    const file = rpcCacheFile(options.dir ?? RPC_CACHE_DIR, chainId, blockNumber);
+    const store = readRpcCacheStore(file, chainId, blockNumber);
+    let recorded = 0;
+
+    const serve = async (request: JsonRpcRequest): Promise<JsonRpcResponse> => {
+        const id = request.id ?? null;
+        if (request.method === INFO_METHOD) return { jsonrpc: "2.0", id, result: { mode, file } };
+        const key = requestKey(request.method, request.params);
+        const entry = store.responses[key];
+        if (entry) return { jsonrpc: "2.0", id, result: entry.result };
+
+        if (mode === "replay") {
+            const message =
+                `RPC cache miss: ${request.method} ${JSON.stringify(request.params ?? [])} is not in ${file}. ` +
+                "Record it with FORK_MODE=record.";
+            return { jsonrpc: "2.0", id, error: { code: CACHE_MISS, message } };
+        }
+
+        try {
+            const response = await forward(upstream as string, request);
+            // Errors are not recorded: they can be transient, e.g. rate limits.
+            if (response.result !== undefined) {
+                store.responses[key] = {
+                    method: request.method,
+                    params: request.params ?? [],
+                    result: response.result
+                };
+                recorded++;
+            }
+            return response;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return { jsonrpc: "2.0", id, error: { code: UPSTREAM_ERROR, message } };
+        }
+    };
+
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+            let body: JsonRpcRequest | JsonRpcRequest[];
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString("utf8")) as JsonRpcRequest | JsonRpcRequest[];
+            } catch {
+                res.writeHead(400, { "Content-Type": "application/json" });
+                res.end(
+                    JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } })
+                );
+                return;
+            }
+            const response = Array.isArray(body) ? Promise.all(body.map(serve)) : serve(body);
+            void response.then((result) => {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(result));
+            });
+        });
+    });
+    const port = options.port ?? DEFAULT_RPC_CACHE_PORT;
+    const url = `http://127.0.0.1:${port}`;
+    const ready = new Promise<void>((resolve, reject) => {
+        server.once("listening", () => resolve());
+        server.on("error", (error: NodeJS.ErrnoException) => {
+            if (error.code !== "EADDRINUSE") return reject(error);
+            void forward(url, { method: INFO_METHOD })
+                .catch(() => ({ result: undefined }))
+                .then(({ result }) => {
+                    const info = result as { mode?: string; file?: string } | undefined;
+                    if (info?.mode === mode && info.file === file) return resolve();
+                    reject(new Error(`Port ${port} of the RPC cache is in use, set FORK_CACHE_PORT to another one`));
+                });
+        });
+    });
+    // Only the callers that await `ready` fail, the process is not brought down by an unhandled rejection.
+    ready.catch(() => undefined);
+    server.on("connection", (socket) => socket.unref());
+    server.listen(port, "127.0.0.1");
+    server.unref();
+
+    const flush = () => {
+        if (!recorded) return;
+        writeRpcCacheStore(file, store);
+        recorded = 0;
+    };
+    if (mode === "record") process.on("exit", flush);
+
+    return {
+        mode,
+        url,
+        file,
+        store,
+        ready,
+        flush,
+        close: () =>
+            new Promise<void>((resolve, reject) => {
+                process.off("exit", flush);
+                flush();
+                if (!server.listening) return resolve();
+                server.close((error) => (error ? reject(error) : resolve()));
+                server.closeAllConnections();
+            })
+    };
+}
@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import { utils } from "ethers";
+
+/*
+ * The recorded JSON-RPC responses of a fork, one JSON file per chain and fork block:
+ *
+ * {
+ *     "version": 1,
+ *     "chainId": 1,
+ *     "blockNumber": 21831087,
+ *     "responses": {
+ *         "0x5c1f...": { "method": "eth_getStorageAt", "params": ["0x...", "0x0", "0x14d1f2f"], "result": "0x..." }
+ *     }
+ * }
+ *
+ * Responses are keyed by the hash of the method and the parameters. The fork block is pinned, so a request always has
+ * the same response; the keys are sorted to keep the diffs of re-recorded files small.
+ */
+
+export const RPC_CACHE_DIR = path.join(__dirname, "../../test/fork/rpc-cache");
+
+const STORE_VERSION = 1;
+
+export interface RpcCacheEntry {
+    method: string;
+    params: unknown[];
+    result: unknown;
+}
+
+export interface RpcCacheStore {
+    version: number;
+    chainId: number;
+    blockNumber: number;
+    responses: Record<string, RpcCacheEntry>;
+}
+
+export function rpcCacheFile(dir: string, chainId: number, blockNumber: number): string {
+    return path.join(dir, String(chainId), `${blockNumber}.json`);
+}
+
+export function requestKey(method: string, params: unknown[] = []): string {
+    return utils.id(JSON.stringify([method, params]));
+}
+
+/**
+ * Reads the responses of a fork, or starts an empty store when the file does not exist.
+ */
+export function readRpcCacheStore(file: string, chainId: number, blockNumber: number): RpcCacheStore {
+    if (!fs.existsSync(file)) return { version: STORE_VERSION, chainId, blockNumber, responses: {} };
+
+    const store = JSON.parse(fs.readFileSync(file, "utf8")) as RpcCacheStore;
+    if (store.version !== STORE_VERSION) {
+        throw new Error(`Unsupported RPC cache version ${store.version} in ${file}`);
+    }
+    if (store.chainId !== chainId || store.blockNumber !== blockNumber) {
+        throw new Error(`${file} holds the responses of chain ${store.chainId} at block ${store.blockNumber}`);
+    }
+    return store;
+}
+
+export function writeRpcCacheStore(file: string, store: RpcCacheStore): void {
+    const responses = Object.fromEntries(
+        Object.keys(store.responses)
+            .sort()
+            .map((key) => [key, store.responses[key]])
+    );
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ ...store, responses }, null, 4) + "\n");
+}
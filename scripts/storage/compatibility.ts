@@ -0,0 +1,141 @@
+import * as fs from "fs";
+import { BigNumber } from "ethers";
+
+import type { StorageEntry, StorageLayout } from "./layout";
+
+/*
+ * Storage layout safety checks:
+ *
+ * - a new version of a contract must keep the variables of the snapshot at their slot, offset and type. Variables
+ *   may only be appended;
+ * - the adapters run through `delegatecall` in the storage of `MigratorV2`, so a variable of an adapter must not
+ *   share bytes with a variable of the migrator.
+ *
+ * Types are compared by their structure (label, size, encoding, members, keys, values and bases), as the type ids of
+ * the compiler embed AST ids that change between builds.
+ */
+
+export type LayoutIssueKind = "removed" | "moved" | "retyped" | "renamed" | "overlap";
+
+export interface LayoutIssue {
+    kind: LayoutIssueKind;
+    variable: string;
+    message: string;
+}
+
+export interface LayoutComparison {
+    errors: LayoutIssue[];
+    warnings: LayoutIssue[];
+}
+
+// Storage layouts by contract name, as saved next to `deployments.json`.
+export type LayoutSnapshot = Record<string, StorageLayout>;
+
+const WORD_SIZE = 32;
+
+/**
+ * The canonical description of a type, without the AST ids, e.g.
+ * `mapping(address => struct MigratorV2.FlashData{liquidityPool: address@0:0, ...})`.
+ */
+export function describeType(layout: StorageLayout, type: string): string {
+    const storageType = layout.types?.[type];
+    if (!storageType) return type;
+
+    const { label, numberOfBytes, encoding } = storageType;
+    if (encoding === "mapping") {
+        const key = describeType(layout, storageType.key as string);
+        return `mapping(${key} => ${describeType(layout, storageType.value as string)})`;
+    }
+    if (storageType.base) return `${label}<${describeType(layout, storageType.base)}>[${numberOfBytes}]`;
+    if (storageType.members) {
+        const members = storageType.members.map((member) => {
+            return `${member.label}: ${describeType(layout, member.type)}@${member.slot}:${member.offset}`;
+        });
+        return `${label}{${members.join(", ")}}`;
+    }
+    return `${label}[${numberOfBytes}]`;
+}
+
+function position({ slot, offset }: StorageEntry): string {
+    return `slot ${slot} offset ${offset}`;
+}
+
+/**
+ * Compares the layout of a new version of a contract with the previous one.
+ */
+export function compareStorageLayouts(previous: StorageLayout, current: StorageLayout): LayoutComparison {
+    const errors: LayoutIssue[] = [];
+    const warnings: LayoutIssue[] = [];
+
+    for (const entry of previous.storage) {
+        const atPosition = current.storage.find(({ slot, offset }) => slot === entry.slot && offset === entry.offset);
+        const byLabel = current.storage.find(({ label }) => label === entry.label);
+        const previousType = describeType(previous, entry.type);
+
+        if (atPosition && describeType(current, atPosition.type) !== previousType) {
+            errors.push({
+                kind: "retyped",
+                variable: entry.label,
+                message:
+                    `${entry.label} at ${position(entry)} was ${previous.types?.[entry.type]?.label ?? entry.type}, ` +
+                    `now ${atPosition.label}: ${current.types?.[atPosition.type]?.label ?? atPosition.type}`
+            });
+        } else if (atPosition && atPosition.label !== entry.label) {
+            warnings.push({
+                kind: "renamed",
+                variable: entry.label,
+                message: `${entry.label} at ${position(entry)} is renamed to ${atPosition.label}`
+            });
+        } else if (!atPosition && byLabel) {
+            errors.push({
+                kind: "moved",
+                variable: entry.label,
+                message: `${entry.label} moved from ${position(entry)} to ${position(byLabel)}`
+            });
+        } else if (!atPosition) {
+            errors.push({
+                kind: "removed",
+                variable: entry.label,
+                message: `${entry.label} at ${position(entry)} is removed`
+            });
+        }
+    }
+
+    return { errors, warnings };
+}
+
+// The bytes of the storage taken by a variable, from the start of slot 0.
+function byteRange(layout: StorageLayout, entry: StorageEntry): [BigNumber, BigNumber] {
+    const size = Number(layout.types?.[entry.type]?.numberOfBytes ?? WORD_SIZE);
+    const start = BigNumber.from(entry.slot).mul(WORD_SIZE).add(entry.offset);
+    return [start, start.add(size)];
+}
+
+/**
+ * Lists the variables of a contract executed through `delegatecall` that share storage with the host contract.
+ */
+export function findStorageOverlaps(host: StorageLayout, delegate: StorageLayout): LayoutIssue[] {
+    const issues: LayoutIssue[] = [];
+    for (const entry of delegate.storage) {
+        const [start, end] = byteRange(delegate, entry);
+        for (const hostEntry of host.storage) {
+            const [hostStart, hostEnd] = byteRange(host, hostEntry);
+            if (start.lt(hostEnd) && hostStart.lt(end)) {
+                issues.push({
+                    kind: "overlap",
+                    variable: entry.label,
+                    message: `${entry.label} at ${position(entry)} overlaps ${hostEntry.label} (${position(hostEntry)})`
+                });
+            }
+        }
+    }
+    return issues;
+}
+
+export function readLayoutSnapshot(file: string): LayoutSnapshot {
+    return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, "utf8")) as LayoutSnapshot) : {};
+}
+
+export function writeLayoutSnapshot(file: string, snapshot: LayoutSnapshot): void {
+    fs.writeFileSync(file, JSON.stringify(snapshot, null, 4) + "\n");
+}
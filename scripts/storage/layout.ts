@@ -0,0 +1,300 @@
+import { BigNumber, utils } from "ethers";
+import type { providers } from "ethers";
+import type { Artifacts } from "hardhat/types";
+
+/*
+ * Reads state variables of deployed contracts through the `storageLayout` of the build info (enabled in
+ * `outputSelection` of `hardhat.config.ts`). Variables are addressed by Solidity-like paths:
+ *
+ *   _storedCallbackHash
+ *   _flashData[0x...]            mapping values (nested mappings take one `[key]` each)
+ *   _flashData[0x...].isToken0   struct members, packed or not
+ *   _adapters                    `EnumerableSet` sets are decoded as the list of their values
+ *   _adapters._inner._values[0]  array elements and the internals of the set
+ *
+ * Slots follow the Solidity storage layout rules: `keccak256(key . slot)` for mappings, `keccak256(slot)` for the
+ * data of dynamic arrays and long `bytes`/`string`, and values smaller than 32 bytes packed from the right.
+ */
+
+export interface StorageEntry {
+    label: string;
+    // Decimal, relative to the enclosing struct for members.
+    slot: string;
+    // Bytes from the right of the slot.
+    offset: number;
+    // Key of `StorageLayout.types`.
+    type: string;
+    contract?: string;
+}
+
+export interface StorageType {
+    encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+    label: string;
+    numberOfBytes: string;
+    // Mappings.
+    key?: string;
+    value?: string;
+    // Arrays.
+    base?: string;
+    // Structs.
+    members?: StorageEntry[];
+}
+
+export interface StorageLayout {
+    storage: StorageEntry[];
+    types: Record<string, StorageType> | null;
+}
+
+export interface StorageLocation {
+    path: string;
+    slot: BigNumber;
+    offset: number;
+    type: string;
+}
+
+export type StorageValue = string | boolean | StorageValue[] | { [member: string]: StorageValue };
+
+const WORD_SIZE = 32;
+
+// The `EnumerableSet` sets whose `_inner._values` hold values of another type.
+const ENUMERABLE_SETS: Record<string, string> = {
+    "struct EnumerableSet.AddressSet": "address",
+    "struct EnumerableSet.UintSet": "uint256",
+    "struct EnumerableSet.Bytes32Set": "bytes32"
+};
+
+/**
+ * The storage layout of a compiled contract, by name or fully qualified name.
+ */
+export async function readStorageLayout(artifacts: Artifacts, contract: string): Promise<StorageLayout> {
+    const artifact = await artifacts.readArtifact(contract);
+    const buildInfo = await artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    if (!buildInfo) throw new Error(`Build info for ${contract} not found: compile the contracts first`);
+
+    const output = buildInfo.output.contracts[artifact.sourceName][artifact.contractName] as {
+        storageLayout?: StorageLayout;
+    };
+    if (!output.storageLayout) throw new Error(`No storage layout for ${contract}: enable it in outputSelection`);
+    return output.storageLayout;
+}
+
+function typeOf(layout: StorageLayout, type: string): StorageType {
+    const storageType = layout.types?.[type];
+    if (!storageType) throw new Error(`Unknown storage type ${type}`);
+    return storageType;
+}
+
+function elementSize(storageType: StorageType): number {
+    return Number(storageType.numberOfBytes);
+}
+
+// `a.b[1][0x..].c` -> ["a", ".b", "[1]", "[0x..]", ".c"].
+function parsePath(path: string): string[] {
+    const parts = path.match(/^[A-Za-z_$][\w$]*|\.[A-Za-z_$][\w$]*|\[[^\]]*\]/g) ?? [];
+    if (parts.join("") !== path) throw new Error(`Invalid storage path "${path}"`);
+    return parts;
+}
+
+function hashSlot(slot: BigNumber): BigNumber {
+    return BigNumber.from(utils.keccak256(utils.hexZeroPad(slot.toHexString(), WORD_SIZE)));
+}
+
+// The ABI type used to encode a mapping key or to decode a value, from the type label.
+function abiType(label: string): string {
+    if (label.startsWith("contract ") || label.startsWith("address")) return "address";
+    if (label.startsWith("enum ")) return "uint8";
+    return label;
+}
+
+function mappingSlot(keyType: StorageType, key: string, slot: BigNumber): BigNumber {
+    const slotWord = utils.hexZeroPad(slot.toHexString(), WORD_SIZE);
+    if (keyType.encoding === "bytes") {
+        const data = keyType.label === "string" ? utils.toUtf8Bytes(key) : utils.arrayify(key);
+        return BigNumber.from(utils.keccak256(utils.concat([data, slotWord])));
+    }
+    const type = abiType(keyType.label);
+    const value = type === "bool" ? key === "true" : key;
+    return BigNumber.from(utils.keccak256(utils.concat([utils.defaultAbiCoder.encode([type], [value]), slotWord])));
+}
+
+// The location of the element `index` of an array whose data starts at `start`.
+function elementLocation(baseType: StorageType, start: BigNumber, index: number) {
+    const size = elementSize(baseType);
+    if (size >= WORD_SIZE) {
+        return { slot: start.add(Math.ceil(size / WORD_SIZE) * index), offset: 0 };
+    }
+    const perSlot = Math.floor(WORD_SIZE / size);
+    return { slot: start.add(Math.floor(index / perSlot)), offset: (index % perSlot) * size };
+}
+
+/**
+ * Resolves a path to its slot, offset and type. Dynamic array indexes are not checked against the length.
+ */
+export function resolveStorageLocation(layout: StorageLayout, path: string): StorageLocation {
+    const [name, ...accessors] = parsePath(path);
+    const entry = layout.storage.find(({ label }) => label === name);
+    if (!entry) throw new Error(`No state variable ${name}`);
+
+    let location = { path: name, slot: BigNumber.from(entry.slot), offset: entry.offset, type: entry.type };
+    for (const accessor of accessors) {
+        const storageType = typeOf(layout, location.type);
+        const next = `${location.path}${accessor}`;
+
+        if (accessor.startsWith(".")) {
+            const member = storageType.members?.find(({ label }) => label === accessor.slice(1));
+            if (!member) throw new Error(`${location.path} (${storageType.label}) has no member ${accessor.slice(1)}`);
+            location = {
+                path: next,
+                slot: location.slot.add(member.slot),
+                offset: member.offset,
+                type: member.type
+            };
+            continue;
+        }
+
+        const key = accessor.slice(1, -1).trim();
+        if (storageType.encoding === "mapping") {
+            const keyType = typeOf(layout, storageType.key as string);
+            location = {
+                path: next,
+                slot: mappingSlot(keyType, key, location.slot),
+                offset: 0,
+                type: storageType.value as string
+            };
+        } else if (storageType.base) {
+            const index = Number(key);
+            if (!Number.isInteger(index) || index < 0) throw new Error(`Invalid index ${key} in ${next}`);
+            const isDynamic = storageType.encoding === "dynamic_array";
+            const length = isDynamic ? undefined : Number(/\[(\d+)\]$/.exec(storageType.label)?.[1]);
+            if (length !== undefined && index >= length) throw new Error(`Index ${index} out of bounds in ${next}`);
+
+            const start = isDynamic ? hashSlot(location.slot) : location.slot;
+            const base = typeOf(layout, storageType.base);
+            location = { path: next, ...elementLocation(base, start, index), type: storageType.base };
+        } else {
+            throw new Error(`${location.path} (${storageType.label}) cannot be indexed`);
+        }
+    }
+    return location;
+}
+
+// A value of `size` bytes at `offset` bytes from the right of a word.
+function sliceWord(word: string, offset: number, size: number): string {
+    const end = WORD_SIZE - offset;
+    return utils.hexDataSlice(word, end - size, end);
+}
+
+function decodeElementary(label: string, data: string): StorageValue {
+    const type = abiType(label);
+    if (type === "bool") return !BigNumber.from(data).isZero();
+    if (type === "address") return utils.getAddress(utils.hexZeroPad(data, 20));
+    if (/^bytes\d+$/.test(type)) return data;
+
+    const size = utils.hexDataLength(data);
+    const value = BigNumber.from(data);
+    return (type.startsWith("int") ? value.fromTwos(size * 8) : value).toString();
+}
+
+type StorageReader = (slot: BigNumber) => Promise<string>;
+
+async function decodeBytes(storageType: StorageType, slot: BigNumber, readSlot: StorageReader) {
+    const word = await readSlot(slot);
+    const value = BigNumber.from(word);
+    let data: string;
+    if (value.and(1).isZero()) {
+        // Up to 31 bytes, stored with `length * 2` in the lowest byte.
+        data = utils.hexDataSlice(word, 0, value.and(0xff).toNumber() / 2);
+    } else {
+        const length = value.sub(1).div(2).toNumber();
+        const start = hashSlot(slot);
+        const words = await Promise.all(
+            Array.from({ length: Math.ceil(length / WORD_SIZE) }, (_, i) => readSlot(start.add(i)))
+        );
+        data = utils.hexDataSlice(utils.hexConcat(words.length > 0 ? words : ["0x"]), 0, length);
+    }
+    return storageType.label === "string" ? utils.toUtf8String(data) : data;
+}
+
+async function decodeValue(
+    layout: StorageLayout,
+    type: string,
+    slot: BigNumber,
+    offset: number,
+    readSlot: StorageReader
+): Promise<StorageValue> {
+    const storageType = typeOf(layout, type);
+
+    if (storageType.encoding === "mapping") {
+        throw new Error(`${storageType.label} cannot be read as a whole: give a key, e.g. [0x...]`);
+    }
+    if (storageType.encoding === "bytes") return decodeBytes(storageType, slot, readSlot);
+
+    if (storageType.members) {
+        const setType = ENUMERABLE_SETS[storageType.label];
+        if (setType) {
+            // `_inner._values`, stored as `bytes32`.
+            const inner = (await decodeValue(layout, storageType.members[0].type, slot, 0, readSlot)) as {
+                _values: string[];
+            };
+            return inner._values.map((value) => {
+                return decodeElementary(setType, setType === "address" ? utils.hexDataSlice(value, 12) : value);
+            });
+        }
+
+        const members: Record<string, StorageValue> = {};
+        for (const member of storageType.members) {
+            const memberType = typeOf(layout, member.type);
+            if (memberType.encoding === "mapping") continue;
+            members[member.label] = await decodeValue(
+                layout,
+                member.type,
+                slot.add(member.slot),
+                member.offset,
+                readSlot
+            );
+        }
+        return members;
+    }
+
+    if (storageType.base) return decodeArray(layout, storageType, slot, readSlot);
+
+    const word = await readSlot(slot);
+    return decodeElementary(storageType.label, sliceWord(word, offset, elementSize(storageType)));
+}
+
+async function decodeArray(
+    layout: StorageLayout,
+    storageType: StorageType,
+    slot: BigNumber,
+    readSlot: StorageReader
+): Promise<StorageValue> {
+    const isDynamic = storageType.encoding === "dynamic_array";
+    const length = isDynamic
+        ? BigNumber.from(await readSlot(slot)).toNumber()
+        : Number(/\[(\d+)\]$/.exec(storageType.label)?.[1]);
+    const start = isDynamic ? hashSlot(slot) : slot;
+    const base = typeOf(layout, storageType.base as string);
+
+    const values: StorageValue[] = [];
+    for (let i = 0; i < length; i++) {
+        const element = elementLocation(base, start, i);
+        values.push(await decodeValue(layout, storageType.base as string, element.slot, element.offset, readSlot));
+    }
+    return values;
+}
+
+/**
+ * Reads and decodes the variable of a path, e.g. `_flashData[0x...]`, from a deployed contract.
+ */
+export async function readStorageValue(
+    provider: providers.Provider,
+    address: string,
+    layout: StorageLayout,
+    path: string,
+    blockTag?: providers.BlockTag
+): Promise<{ location: StorageLocation; value: StorageValue }> {
+    const location = resolveStorageLocation(layout, path);
+    const readSlot: StorageReader = (slot) => provider.getStorageAt(address, slot, blockTag);
+    const value = await decodeValue(layout, location.type, location.slot, location.offset, readSlot);
+    return { location, value };
+}
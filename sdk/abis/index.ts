@@ -0,0 +1,137 @@
+import type { Contract } from "ethers";
+
+/*
+ * Minimal human-readable ABIs of the external contracts the SDK talks to. They are kept small on purpose so the SDK
+ * does not depend on the Hardhat artifacts or on the generated TypeChain types.
+ */
+
+export const ERC20_ABI = [
+    "function decimals() view returns (uint8)",
+    "function symbol() view returns (string)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function allowance(address owner, address spender) view returns (uint256)"
+];
+
+export const COMET_ABI = [
+    "function baseToken() view returns (address)",
+    "function isAllowed(address owner, address manager) view returns (bool)",
+    "function balanceOf(address account) view returns (uint256)",
+    "function borrowBalanceOf(address account) view returns (uint256)",
+    "function collateralBalanceOf(address account, address asset) view returns (uint128)",
+    "function numAssets() view returns (uint8)",
+    "function getAssetInfo(uint8 i) view returns " +
+        "(tuple(uint8 offset, address asset, address priceFeed, uint64 scale, uint64 borrowCollateralFactor, " +
+        "uint64 liquidateCollateralFactor, uint64 liquidationFactor, uint128 supplyCap))",
+    "function baseTokenPriceFeed() view returns (address)",
+    "function baseScale() view returns (uint256)",
+    "function getPrice(address priceFeed) view returns (uint256)",
+    "function isBorrowCollateralized(address account) view returns (bool)"
+];
+
+// `AaveProtocolDataProvider`. Spark uses the same data provider.
+export const POOL_DATA_PROVIDER_ABI = [
+    "function getAllReservesTokens() view returns (tuple(string symbol, address tokenAddress)[])",
+    "function getReserveTokensAddresses(address asset) view returns " +
+        "(address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)",
+    "function getUserReserveData(address asset, address user) view returns " +
+        "(uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, " +
+        "uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, " +
+        "uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)"
+];
+
+export const MORPHO_ABI = [
+    "function isAuthorized(address authorizer, address authorized) view returns (bool)",
+    "function idToMarketParams(bytes32 id) view returns " +
+        "(tuple(address loanToken, address collateralToken, address oracle, address irm, uint256 lltv))",
+    "function position(bytes32 id, address user) view returns " +
+        "(tuple(uint256 supplyShares, uint128 borrowShares, uint128 collateral))",
+    "function market(bytes32 id) view returns " +
+        "(tuple(uint128 totalSupplyAssets, uint128 totalSupplyShares, uint128 totalBorrowAssets, " +
+        "uint128 totalBorrowShares, uint128 lastUpdate, uint128 fee))"
+];
+
+// The public surface of the protocol adapters shared by the Aave, Spark and Morpho implementations.
+export const PROTOCOL_ADAPTER_ABI = [
+    "function LENDING_POOL() view returns (address)",
+    // Aave and Spark only.
+    "function DATA_PROVIDER() view returns (address)",
+    "function DAI() view returns (address)",
+    "function USDS() view returns (address)"
+];
+
+export const UNISWAP_V3_FACTORY_ABI = [
+    "function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)"
+];
+
+export const UNISWAP_V3_POOL_ABI = [
+    "function token0() view returns (address)",
+    "function token1() view returns (address)",
+    "function fee() view returns (uint24)"
+];
+
+// The quoter functions are not `view`: they must be called with `callStatic` (see `simulate`).
+const QUOTE_RESULT = "uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate";
+export const QUOTER_V2_ABI = [
+    `function quoteExactInput(bytes path, uint256 amountIn) returns (uint256 amountOut, ${QUOTE_RESULT})`,
+    `function quoteExactOutput(bytes path, uint256 amountOut) returns (uint256 amountIn, ${QUOTE_RESULT})`
+];
+
+// `UniswapV3PathFinder`. Its functions call the quoter and must be called with `callStatic` as well.
+export const UNISWAP_V3_PATH_FINDER_ABI = [
+    "function getBestSingleSwapPath(tuple(address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut, " +
+        "address excludedPool, uint256 maxGasEstimate) params) " +
+        "returns (bytes path, uint256 estimatedAmount, uint256 gasEstimate)",
+    "function getBestMultiSwapPath(tuple(address tokenIn, address tokenOut, address[] connectors, uint256 amountIn, " +
+        "uint256 amountOut, address excludedPool, uint256 maxGasEstimate) params) " +
+        "returns (bytes path, uint256 estimatedAmount, uint256 gasEstimate)"
+];
+
+export const MIGRATOR_V2_ABI = [
+    "function migrate(address adapter, address comet, bytes migrationData, uint256 flashAmount)",
+    "function getAdapters() view returns (address[])",
+    "function getFlashData(address comet) view returns " +
+        "(tuple(address liquidityPool, address baseToken, bool isToken0))",
+    "function paused() view returns (bool)",
+    "function owner() view returns (address)",
+    "function DAI() view returns (address)",
+    "function USDS() view returns (address)",
+    "function setAdapter(address adapter)",
+    "function removeAdapter(address adapter)",
+    "function setFlashData(address comet, tuple(address liquidityPool, address baseToken, bool isToken0) flashData)",
+    "function removeFlashData(address comet)",
+    "function pause()",
+    "function unpause()",
+    "event MigrationExecuted(address indexed adapter, address indexed user, address indexed comet, " +
+        "uint256 flashAmount, uint256 flashFee)",
+    "event AdapterAllowed(address indexed adapter)",
+    "event AdapterRemoved(address indexed adapter)",
+    "event FlashDataConfigured(address indexed comet, address indexed liquidityPool, address indexed baseToken)",
+    "event FlashDataRemoved(address indexed comet)",
+    "event Paused(address account)",
+    "event Unpaused(address account)",
+    "error InvalidMigrationData()",
+    "error InvalidAdapter()",
+    "error SenderNotUniswapPool(address sender)",
+    "error CometIsNotSupported(address comet)",
+    "error MismatchedArrayLengths()",
+    "error AdapterAlreadyAllowed(address adapter)",
+    "error CometAlreadyConfigured(address comet)",
+    "error InvalidCallbackHash()",
+    "error DelegatecallFailed()",
+    "error BaseTokenMismatch(address expected, address actual)",
+    "error AddressPairMismatch(address dai, address usds)"
+];
+
+/**
+ * Calls a view function of a contract built from the ABIs above with a typed result.
+ */
+export function read<T>(contract: Contract, method: string, ...args: unknown[]): Promise<T> {
+    return (contract[method] as (...params: unknown[]) => Promise<T>)(...args);
+}
+
+/**
+ * Calls a state-changing function without sending a transaction (`callStatic`), e.g. a Uniswap quoter.
+ */
+export function simulate<T>(contract: Contract, method: string, ...args: unknown[]): Promise<T> {
+    return (contract.callStatic[method] as (...params: unknown[]) => Promise<T>)(...args);
+}
@@ -0,0 +1,461 @@
+import { Contract, utils } from "ethers";
+import type { providers } from "ethers";
+import { COMET_ABI, ERC20_ABI, read } from "../abis";
+
+/*
+ * The address book: the external contracts of every supported network, keyed by chain ID. It is shared by the fork
+ * tests, the `@` references of `deploymentParams` and the tasks, so an address is only written down once.
+ *
+ * Tokens are keyed by symbol; the aTokens, debt tokens and Comet base tokens refer to these symbols. Entries can be
+ * checked against the chain with `checkAddressBook`.
+ */
+
+export interface TokenInfo {
+    address: string;
+    decimals: number;
+}
+
+// An Aave V3 deployment or a fork of it (Spark).
+export interface LendingAddresses {
+    pool: string;
+    protocolDataProvider: string;
+    wrappedTokenGateway: string;
+    // The aTokens (spTokens for Spark) and variable debt tokens per symbol of the underlying token.
+    aTokens: Record<string, string>;
+    variableDebtTokens: Record<string, string>;
+}
+
+export interface UniswapAddresses {
+    // `SwapRouter`, or `SwapRouter02` where the former is not deployed.
+    router: string;
+    // Set when `router` is `SwapRouter02`, for the `useSwapRouter02` parameter of the adapters.
+    swapRouter02?: boolean;
+    factory: string;
+    quoterV2: string;
+    quoter?: string;
+    // Pools per token pair, e.g. `USDC_USDT`.
+    pools: Record<string, string>;
+}
+
+export interface CometMarket {
+    address: string;
+    // The symbol of the base token in `tokens`.
+    baseToken: string;
+}
+
+export interface NetworkAddresses {
+    // The name of the network in `deploymentParams` and in the fork tests.
+    network: string;
+    chainId: number;
+    tokens: Record<string, TokenInfo>;
+    aave?: LendingAddresses;
+    spark?: LendingAddresses;
+    morpho?: string;
+    uniswap: UniswapAddresses;
+    // `DaiUsds`, the DAI <> USDS converter.
+    daiUsds?: string;
+    comets: Record<string, CometMarket>;
+}
+
+export interface AddressBookIssue {
+    // The path of the entry, e.g. `tokens.USDC` or `comets.cUSDCv3`.
+    entry: string;
+    message: string;
+}
+
+const UNISWAP_V3 = {
+    router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
+    factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+    quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e"
+};
+
+const MORPHO = "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb";
+
+export const ADDRESS_BOOK: Record<number, NetworkAddresses> = {
+    1: {
+        network: "ethereum",
+        chainId: 1,
+        tokens: {
+            WBTC: { address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", decimals: 8 },
+            DAI: { address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", decimals: 18 },
+            USDC: { address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6 },
+            USDT: { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", decimals: 6 },
+            USDS: { address: "0xdC035D45d973E3EC169d2276DDab16f1e407384F", decimals: 18 },
+            WETH: { address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", decimals: 18 },
+            LINK: { address: "0x514910771AF9Ca656af840dff83E8264EcF986CA", decimals: 18 },
+            wstETH: { address: "0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0", decimals: 18 },
+            cbBTC: { address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf", decimals: 8 },
+            sDAI: { address: "0x83F20F44975D03b1b09e64809B757c47f942BEeA", decimals: 18 },
+            USDe: { address: "0x4c9EDD5852cd905f086C759E8383e09bff1E68B3", decimals: 18 },
+            GNO: { address: "0x6810e776880C02933D47DB1b9fc05908e5386b96", decimals: 18 }
+        },
+        aave: {
+            pool: "0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2",
+            protocolDataProvider: "0x41393e5e337606dc3821075Af65AeE84D7688CBD",
+            wrappedTokenGateway: "0xA434D495249abE33E031Fe71a969B81f3c07950D",
+            aTokens: {
+                WBTC: "0x5Ee5bf7ae06D1Be5997A1A72006FE6C607eC6DE8",
+                DAI: "0x018008bfb33d285247A21d44E50697654f754e63",
+                USDC: "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c",
+                USDT: "0x23878914EFE38d27C4D67Ab83ed1b93A74D4086a",
+                USDS: "0x32a6268f9Ba3642Dda7892aDd74f1D34469A4259",
+                WETH: "0x4d5F47FA6A74757f35C14fD3a6Ef8E3C9BC514E8",
+                LINK: "0x5E8C8A7243651DB1384C0dDfDbE39761E8e7E51a"
+            },
+            variableDebtTokens: {
+                WBTC: "0x40aAbEf1aa8f0eEc637E0E7d92fbfFB2F26A8b7B",
+                DAI: "0xcF8d0c70c850859266f5C338b38F9D663181C314",
+                USDC: "0x72E95b8931767C79bA4EeE721354d6E99a61D004",
+                USDT: "0x6df1C1E379bC5a00a7b4C6e67A203333772f45A8",
+                USDS: "0x490E0E6255bF65b43E2e02F7acB783c5e04572Ff",
+                WETH: "0xeA51d7853EEFb32b6ee06b1C12E6dcCA88Be0fFE",
+                LINK: "0x4228F8895C7dDA20227F6a5c6751b8Ebf19a6ba8"
+            }
+        },
+        spark: {
+            pool: "0xC13e21B648A5Ee794902342038FF3aDAB66BE987",
+            protocolDataProvider: "0xFc21d6d146E6086B8359705C8b28512a983db0cb",
+            wrappedTokenGateway: "0xBD7D6a9ad7865463DE44B05F04559f65e3B11704",
+            aTokens: {
+                WBTC: "0x4197ba364AE6698015AE5c1468f54087602715b2",
+                DAI: "0x4DEDf26112B3Ec8eC46e7E31EA5e123490B05B8B",
+                USDC: "0x377C3bd93f2a2984E1E7bE6A5C22c525eD4A4815",
+                USDT: "0xe7dF13b8e3d6740fe17CBE928C7334243d86c92f",
+                USDS: "0xC02aB1A5eaA8d1B114EF786D9bde108cD4364359",
+                WETH: "0x59cD1C87501baa753d0B5B5Ab5D8416A45cD71DB",
+                GNO: "0x7b481aCC9fDADDc9af2cBEA1Ff2342CB1733E50F",
+                wstETH: "0x12B54025C112Aa61fAce2CDB7118740875A566E9",
+                cbBTC: "0xb3973D459df38ae57797811F2A1fd061DA1BC123",
+                sDAI: "0x78f897F0fE2d3B5690EbAe7f19862DEacedF10a7"
+            },
+            variableDebtTokens: {
+                WBTC: "0xf6fEe3A8aC8040C3d6d81d9A4a168516Ec9B51D2",
+                DAI: "0xf705d2B7e92B3F38e6ae7afaDAA2fEE110fE5914",
+                USDC: "0x7B70D04099CB9cfb1Db7B6820baDAfB4C5C70A67",
+                USDT: "0x529b6158d1D2992E3129F7C69E81a7c677dc3B12",
+                USDS: "0x8c147debea24Fb98ade8dDa4bf142992928b449e",
+                WETH: "0x2e7576042566f8D6990e07A1B61Ad1efd86Ae70d",
+                GNO: "0x57a2957651DA467fCD4104D749f2F3684784c25a",
+                wstETH: "0xd5c3E3B566a42A6110513Ac7670C1a86D76E13E6",
+                cbBTC: "0x661fE667D2103eb52d3632a3eB2cAbd123F27938",
+                sDAI: "0xaBc57081C04D921388240393ec4088Aa47c6832B"
+            }
+        },
+        morpho: MORPHO,
+        uniswap: {
+            ...UNISWAP_V3,
+            quoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6",
+            pools: {
+                USDC_USDT: "0x3416cF6C708Da44DB2624D63ea0AAef7113527C6",
+                DAI_USDS: "0xe9F1E2EF814f5686C30ce6fb7103d0F780836C67"
+            }
+        },
+        daiUsds: "0x3225737a9Bbb6473CB4a45b7244ACa2BeFdB276A",
+        comets: {
+            cUSDCv3: { address: "0xc3d688B66703497DAA19211EEdff47f25384cdc3", baseToken: "USDC" },
+            cWETHv3: { address: "0xA17581A9E3356d9A858b789D68B4d866e593aE94", baseToken: "WETH" },
+            cUSDTv3: { address: "0x3Afdc9BCA9213A35503b077a6072F3D0d5AB0840", baseToken: "USDT" },
+            cwstETHv3: { address: "0x3D0bb1ccaB520A66e607822fC55BC921738fAFE3", baseToken: "wstETH" },
+            cUSDSv3: { address: "0x5D409e56D886231aDAf00c8775665AD0f9897b56", baseToken: "USDS" }
+        }
+    },
+    10: {
+        network: "optimism",
+        chainId: 10,
+        tokens: {
+            WBTC: { address: "0x68f180fcCe6836688e9084f035309E29Bf0A2095", decimals: 8 },
+            DAI: { address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", decimals: 18 },
+            USDC: { address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", decimals: 6 },
+            USDT: { address: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58", decimals: 6 },
+            WETH: { address: "0x4200000000000000000000000000000000000006", decimals: 18 },
+            LINK: { address: "0x350a791Bfc2C21F9Ed5d10980Dad2e2638ffa7f6", decimals: 18 }
+        },
+        aave: {
+            pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+            protocolDataProvider: "0x7F23D86Ee20D869112572136221e173428DD740B",
+            wrappedTokenGateway: "0x60eE8b61a13c67d0191c851BEC8F0bc850160710",
+            aTokens: {
+                WBTC: "0x078f358208685046a11C85e8ad32895DED33A249",
+                DAI: "0x82E64f49Ed5EC1bC6e43DAD4FC8Af9bb3A2312EE",
+                USDC: "0x38d693cE1dF5AaDF7bC62595A37D667aD57922e5",
+                USDT: "0x6ab707Aca953eDAeFBc4fD23bA73294241490620",
+                WETH: "0xe50fA9b3c56FfB159cB0FCA61F5c9D750e8128c8",
+                LINK: "0x191c10Aa4AF7C30e871E70C95dB0E4eb77237530"
+            },
+            variableDebtTokens: {
+                WBTC: "0x92b42c66840C7AD907b4BF74879FF3eF7c529473",
+                DAI: "0x8619d80FB0141ba7F184CbF22fd724116D9f7ffC",
+                USDC: "0x5D557B07776D12967914379C71a1310e917C7555",
+                USDT: "0x6ab707Aca953eDAeFBc4fD23bA73294241490620",
+                WETH: "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351",
+                LINK: "0x953A573793604aF8d41F306FEb8274190dB4aE0e"
+            }
+        },
+        uniswap: {
+            ...UNISWAP_V3,
+            pools: {
+                USDC_USDT: "0xA73C628eaf6e283E26A7b1f8001CF186aa4c0E8E"
+            }
+        },
+        comets: {
+            cUSDCv3: { address: "0x2e44e174f7D53F0212823acC11C01A11d58c5bCB", baseToken: "USDC" },
+            cUSDTv3: { address: "0x995E394b8B2437aC8Ce61Ee0bC610D617962B214", baseToken: "USDT" },
+            cWETHv3: { address: "0xE36A30D249f7761327fd973001A32010b521b6Fd", baseToken: "WETH" }
+        }
+    },
+    137: {
+        network: "polygon",
+        chainId: 137,
+        tokens: {
+            WBTC: { address: "0x1BFD67037B42Cf73acF2047067bd4F2C47D9BfD6", decimals: 8 },
+            DAI: { address: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063", decimals: 18 },
+            USDCe: { address: "0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174", decimals: 6 },
+            USDT: { address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", decimals: 6 },
+            WMATIC: { address: "0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270", decimals: 18 },
+            LINK: { address: "0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39", decimals: 18 }
+        },
+        aave: {
+            pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+            protocolDataProvider: "0x7F23D86Ee20D869112572136221e173428DD740B",
+            wrappedTokenGateway: "0xF5f61a1ab3488fCB6d86451846bcFa9cdc108eB0",
+            aTokens: {
+                WBTC: "0x078f358208685046a11C85e8ad32895DED33A249",
+                DAI: "0x82E64f49Ed5EC1bC6e43DAD4FC8Af9bb3A2312EE",
+                USDCe: "0x625E7708f30cA75bfd92586e17077590C60eb4cD",
+                USDT: "0x6ab707Aca953eDAeFBc4fD23bA73294241490620",
+                WMATIC: "0x6d80113e533a2C0fe82EaBD35f1875DcEA89Ea97",
+                LINK: "0x191c10Aa4AF7C30e871E70C95dB0E4eb77237530"
+            },
+            variableDebtTokens: {
+                WBTC: "0x92b42c66840C7AD907b4BF74879FF3eF7c529473",
+                DAI: "0x8619d80FB0141ba7F184CbF22fd724116D9f7ffC",
+                USDCe: "0xFCCf3cAbbe80101232d343252614b6A3eE81C989",
+                USDT: "0xfb00AC187a8Eb5AFAE4eACE434F493Eb62672df7",
+                WMATIC: "0x4a1c3aD6Ed28a636ee1751C69071f6be75DEb8B8",
+                LINK: "0x953A573793604aF8d41F306FEb8274190dB4aE0e"
+            }
+        },
+        uniswap: {
+            ...UNISWAP_V3,
+            pools: {
+                USDCe_USDC: "0xD36ec33c8bed5a9F7B6630855f1533455b98a418"
+            }
+        },
+        comets: {
+            cUSDCev3: { address: "0xF25212E676D1F7F89Cd72fFEe66158f541246445", baseToken: "USDCe" },
+            cUSDTv3: { address: "0xaeB318360f27748Acb200CE616E389A6C9409a07", baseToken: "USDT" }
+        }
+    },
+    8453: {
+        network: "base",
+        chainId: 8453,
+        tokens: {
+            cbBTC: { address: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf", decimals: 8 },
+            USDC: { address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6 },
+            cbETH: { address: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22", decimals: 18 },
+            WETH: { address: "0x4200000000000000000000000000000000000006", decimals: 18 },
+            USDbC: { address: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA", decimals: 6 },
+            wstETH: { address: "0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452", decimals: 18 },
+            EURC: { address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42", decimals: 6 },
+            AERO: { address: "0x940181a94A35A4569E4529A3CDfB74e38FD98631", decimals: 18 }
+        },
+        aave: {
+            pool: "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5",
+            protocolDataProvider: "0xd82a47fdebB5bf5329b09441C3DaB4b5df2153Ad",
+            wrappedTokenGateway: "0x729b3EA8C005AbC58c9150fb57Ec161296F06766",
+            aTokens: {
+                cbBTC: "0xBdb9300b7CDE636d9cD4AFF00f6F009fFBBc8EE6",
+                USDC: "0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB",
+                cbETH: "0xcf3D55c10DB69f28fD1A75Bd73f3D8A2d9c595ad",
+                WETH: "0xD4a0e0b9149BCee3C920d2E00b5dE09138fd8bb7",
+                USDbC: "0x0a1d576f3eFeF75b330424287a95A366e8281D54",
+                wstETH: "0x99CBC45ea5bb7eF3a5BC08FB1B7E56bB2442Ef0D"
+            },
+            variableDebtTokens: {
+                cbBTC: "0x05e08702028de6AaD395DC6478b554a56920b9AD",
+                USDC: "0x59dca05b6c26dbd64b5381374aAaC5CD05644C28",
+                cbETH: "0x1DabC36f19909425f654777249815c073E8Fd79F",
+                WETH: "0x24e6e0795b3c7c71D965fCc4f371803d1c1DcA1E",
+                USDbC: "0x7376b2F323dC56fCd4C191B34163ac8a84702DAB",
+                wstETH: "0x41A7C3f5904ad176dACbb1D99101F59ef0811DC1"
+            }
+        },
+        morpho: MORPHO,
+        uniswap: {
+            // `SwapRouter02`: `SwapRouter` is not deployed on Base.
+            router: "0x2626664c2603336E57B271c5C0b26F421741e481",
+            swapRouter02: true,
+            factory: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
+            quoterV2: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a",
+            pools: {
+                USDC_USDT: "0xD56da2B74bA826f19015E6B7Dd9Dae1903E85DA1"
+            }
+        },
+        comets: {
+            cUSDCv3: { address: "0xb125E6687d4313864e53df431d5425969c15Eb2F", baseToken: "USDC" },
+            cUSDbCv3: { address: "0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf", baseToken: "USDbC" },
+            cWETHv3: { address: "0x46e6b214b524310239732D51387075E0e70970bf", baseToken: "WETH" },
+            cAEROv3: { address: "0x784efeB622244d2348d4F2522f8860B96fbEcE89", baseToken: "AERO" }
+        }
+    },
+    42161: {
+        network: "arbitrum",
+        chainId: 42161,
+        tokens: {
+            WBTC: { address: "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f", decimals: 8 },
+            DAI: { address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", decimals: 18 },
+            USDC: { address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6 },
+            USDCe: { address: "0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8", decimals: 6 },
+            USDT: { address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", decimals: 6 },
+            WETH: { address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", decimals: 18 },
+            LINK: { address: "0xf97f4df75117a78c1A5a0DBb814Af92458539FB4", decimals: 18 }
+        },
+        aave: {
+            pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+            protocolDataProvider: "0x7F23D86Ee20D869112572136221e173428DD740B",
+            wrappedTokenGateway: "0x5760E34c4003752329bC77790B1De44C2799F8C3",
+            aTokens: {
+                WBTC: "0x078f358208685046a11C85e8ad32895DED33A249",
+                DAI: "0x82E64f49Ed5EC1bC6e43DAD4FC8Af9bb3A2312EE",
+                USDC: "0x724dc807b04555b71ed48a6896b6F41593b8C637",
+                USDT: "0x6ab707Aca953eDAeFBc4fD23bA73294241490620",
+                WETH: "0xe50fA9b3c56FfB159cB0FCA61F5c9D750e8128c8",
+                LINK: "0x191c10Aa4AF7C30e871E70C95dB0E4eb77237530"
+            },
+            variableDebtTokens: {
+                WBTC: "0x92b42c66840C7AD907b4BF74879FF3eF7c529473",
+                DAI: "0x8619d80FB0141ba7F184CbF22fd724116D9f7ffC",
+                USDC: "0xf611aEb5013fD2c0511c9CD55c7dc5C1140741A6",
+                USDT: "0xfb00AC187a8Eb5AFAE4eACE434F493Eb62672df7",
+                WETH: "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351",
+                LINK: "0x953A573793604aF8d41F306FEb8274190dB4aE0e"
+            }
+        },
+        uniswap: {
+            ...UNISWAP_V3,
+            pools: {
+                USDC_USDT: "0xbE3aD6a5669Dc0B8b12FeBC03608860C31E2eef6",
+                WETH_USDC: "0xC6962004f452bE9203591991D15f6b388e09E8D0"
+            }
+        },
+        comets: {
+            cUSDCev3: { address: "0xA5EDBDD9646f8dFF606d7448e414884C7d905dCA", baseToken: "USDCe" },
+            cUSDCv3: { address: "0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf", baseToken: "USDC" },
+            cWETHv3: { address: "0x6f7D514bbD4aFf3BcD1140B7344b32f063dEe486", baseToken: "WETH" },
+            cUSDTv3: { address: "0xd98Be00b5D27fc98112BdE293e487f8D4cA57d07", baseToken: "USDT" }
+        }
+    }
+};
+
+/**
+ * The address book of a network, by chain ID or by its name in `deploymentParams` (`ethereum`, `arbitrum`, ...).
+ */
+export function getAddressBook(network: number | string): NetworkAddresses {
+    const book =
+        typeof network === "number"
+            ? ADDRESS_BOOK[network]
+            : Object.values(ADDRESS_BOOK).find((entry) => entry.network === network);
+    if (!book) throw new Error(`No address book for network ${network}`);
+    return book;
+}
+
+// The token addresses per symbol.
+export function tokenAddresses(book: NetworkAddresses): Record<string, string> {
+    return Object.fromEntries(Object.entries(book.tokens).map(([symbol, { address }]) => [symbol, address]));
+}
+
+/**
+ * The address of an entry by its path, e.g. `tokens.WETH`, `aave.pool`, `uniswap.router` or `comets.cUSDCv3`. Tokens
+ * and Comet markets resolve to their address.
+ */
+export function resolveAddress(book: NetworkAddresses, entry: string): string {
+    let value: unknown = book;
+    for (const key of entry.split(".")) {
+        value = typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (typeof value === "object" && value !== null) value = (value as { address?: unknown }).address;
+    if (typeof value !== "string" || !utils.isAddress(value)) {
+        throw new Error(`No address at ${entry} in the address book of ${book.network}`);
+    }
+    return value;
+}
+
+const HARDHAT_CHAIN_ID = 31337;
+
+/**
+ * Compares the address book of a network with the chain of the provider: every entry must have code, tokens their
+ * `decimals()`, aTokens and debt tokens the decimals of their underlying token and Comet markets their `baseToken()`.
+ * A Hardhat network is taken for a fork of the network of the book.
+ */
+export async function checkAddressBook(
+    provider: providers.Provider,
+    book: NetworkAddresses
+): Promise<AddressBookIssue[]> {
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== book.chainId && chainId !== HARDHAT_CHAIN_ID) {
+        return [{ entry: "chainId", message: `the provider is on chain ${chainId}, not ${book.chainId}` }];
+    }
+
+    const issues: AddressBookIssue[] = [];
+    const hasCode = async (entry: string, address: string) => {
+        if ((await provider.getCode(address)) !== "0x") return true;
+        issues.push({ entry, message: `no contract at ${address}` });
+        return false;
+    };
+    const checkDecimals = async (entry: string, address: string, expected: number) => {
+        if (!(await hasCode(entry, address))) return;
+        const decimals = await read<number>(new Contract(address, ERC20_ABI, provider), "decimals");
+        if (decimals !== expected) issues.push({ entry, message: `decimals() is ${decimals}, expected ${expected}` });
+    };
+
+    for (const [symbol, token] of Object.entries(book.tokens)) {
+        await checkDecimals(`tokens.${symbol}`, token.address, token.decimals);
+    }
+
+    for (const protocol of ["aave", "spark"] as const) {
+        const lending = book[protocol];
+        if (!lending) continue;
+        for (const key of ["pool", "protocolDataProvider", "wrappedTokenGateway"] as const) {
+            await hasCode(`${protocol}.${key}`, lending[key]);
+        }
+        for (const kind of ["aTokens", "variableDebtTokens"] as const) {
+            for (const [symbol, address] of Object.entries(lending[kind])) {
+                const entry = `${protocol}.${kind}.${symbol}`;
+                const token = book.tokens[symbol];
+                if (!token) issues.push({ entry, message: `unknown token ${symbol}` });
+                else await checkDecimals(entry, address, token.decimals);
+            }
+        }
+    }
+
+    const contracts: [string, string | undefined][] = [
+        ["morpho", book.morpho],
+        ["daiUsds", book.daiUsds],
+        ["uniswap.router", book.uniswap.router],
+        ["uniswap.factory", book.uniswap.factory],
+        ["uniswap.quoterV2", book.uniswap.quoterV2],
+        ["uniswap.quoter", book.uniswap.quoter],
+        ...Object.entries(book.uniswap.pools).map(([pair, pool]): [string, string] => [`uniswap.pools.${pair}`, pool])
+    ];
+    for (const [entry, address] of contracts) {
+        if (address) await hasCode(entry, address);
+    }
+
+    for (const [name, market] of Object.entries(book.comets)) {
+        const entry = `comets.${name}`;
+        const baseToken = book.tokens[market.baseToken];
+        if (!baseToken) {
+            issues.push({ entry, message: `unknown base token ${market.baseToken}` });
+            continue;
+        }
+        if (!(await hasCode(entry, market.address))) continue;
+        const actual = await read<string>(new Contract(market.address, COMET_ABI, provider), "baseToken");
+        if (utils.getAddress(actual) !== utils.getAddress(baseToken.address)) {
+            issues.push({
+                entry,
+                message: `baseToken() is ${actual}, expected ${market.baseToken} ${baseToken.address}`
+            });
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,201 @@
+import { Contract, constants, utils } from "ethers";
+import type { providers } from "ethers";
+import { COMET_ABI, MIGRATOR_V2_ABI, UNISWAP_V3_POOL_ABI, read } from "../abis";
+
+/*
+ * Owner calls of `MigratorV2`: precondition checks mirroring the contract, and the Safe Transaction Builder batches
+ * used when the owner is a multisig.
+ */
+
+export interface FlashData {
+    liquidityPool: string;
+    baseToken: string;
+    isToken0: boolean;
+}
+
+export type AdminCall =
+    | { method: "setAdapter"; args: [adapter: string] }
+    | { method: "removeAdapter"; args: [adapter: string] }
+    | { method: "setFlashData"; args: [comet: string, flashData: FlashData] }
+    | { method: "removeFlashData"; args: [comet: string] }
+    | { method: "pause"; args: [] }
+    | { method: "unpause"; args: [] };
+
+export interface AdminCheckResult {
+    // Conditions that make one of the calls revert.
+    errors: string[];
+    warnings: string[];
+}
+
+// A transaction of the Safe Transaction Builder, with raw calldata.
+export interface SafeTransaction {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+}
+
+// The batch file imported by the Safe Transaction Builder app.
+export interface SafeTransactionBatch {
+    version: string;
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: SafeTransaction[];
+}
+
+const SAFE_BATCH_VERSION = "1.0";
+const TX_BUILDER_VERSION = "1.16.5";
+
+const migratorInterface = new utils.Interface(MIGRATOR_V2_ABI);
+
+export function encodeAdminCall(call: AdminCall): string {
+    return migratorInterface.encodeFunctionData(call.method, call.args);
+}
+
+// `setAdapter(0x...)`, for logs and batch descriptions.
+export function describeAdminCall(call: AdminCall): string {
+    const args = call.args.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg)));
+    return `${call.method}(${args.join(", ")})`;
+}
+
+/**
+ * Checks a sequence of owner calls against the current state of the migrator, as if they were executed in order
+ * (e.g. `pause`, `removeAdapter`, `unpause`). The checks follow the modifiers and errors of `MigratorV2`.
+ */
+export async function checkAdminCalls(
+    provider: providers.Provider,
+    migratorAddress: string,
+    calls: AdminCall[]
+): Promise<AdminCheckResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const migrator = new Contract(migratorAddress, MIGRATOR_V2_ABI, provider);
+    const [initiallyPaused, adapterList, dai, usds] = await Promise.all([
+        read<boolean>(migrator, "paused"),
+        read<string[]>(migrator, "getAdapters"),
+        read<string>(migrator, "DAI"),
+        read<string>(migrator, "USDS")
+    ]);
+    let paused = initiallyPaused;
+    const adapters = new Set(adapterList.map((adapter) => utils.getAddress(adapter)));
+    const configured = new Map<string, boolean>();
+    const isConfigured = async (comet: string): Promise<boolean> => {
+        if (!configured.has(comet)) {
+            const flashData = await read<FlashData>(migrator, "getFlashData", comet);
+            configured.set(comet, flashData.liquidityPool !== constants.AddressZero);
+        }
+        return configured.get(comet) as boolean;
+    };
+
+    for (const call of calls) {
+        const label = describeAdminCall(call);
+        switch (call.method) {
+            case "setAdapter": {
+                const adapter = utils.getAddress(call.args[0]);
+                if (adapter === constants.AddressZero) {
+                    errors.push(`${label}: the adapter is zero (InvalidZeroAddress)`);
+                } else if (adapters.has(adapter)) {
+                    errors.push(`${label}: already allowed (AdapterAlreadyAllowed)`);
+                } else if ((await provider.getCode(adapter)) === "0x") {
+                    errors.push(`${label}: no contract at ${adapter}`);
+                }
+                adapters.add(adapter);
+                break;
+            }
+            case "removeAdapter": {
+                const adapter = utils.getAddress(call.args[0]);
+                if (!paused) errors.push(`${label}: the migrator must be paused first (ExpectedPause)`);
+                if (!adapters.has(adapter)) errors.push(`${label}: not an allowed adapter (InvalidAdapter)`);
+                adapters.delete(adapter);
+                break;
+            }
+            case "setFlashData": {
+                const comet = utils.getAddress(call.args[0]);
+                const { liquidityPool, baseToken, isToken0 } = call.args[1];
+                if (liquidityPool === constants.AddressZero || baseToken === constants.AddressZero) {
+                    errors.push(`${label}: the pool and the base token must be set (InvalidZeroAddress)`);
+                    break;
+                }
+                if (await isConfigured(comet)) {
+                    errors.push(`${label}: the comet already has flash data (CometAlreadyConfigured)`);
+                }
+
+                const cometBase = utils.getAddress(
+                    await read<string>(new Contract(comet, COMET_ABI, provider), "baseToken")
+                );
+                const token = utils.getAddress(baseToken);
+                const isDaiForUsds = cometBase === utils.getAddress(usds) && token === utils.getAddress(dai);
+                if (token !== cometBase && !isDaiForUsds) {
+                    errors.push(`${label}: the base token of the comet is ${cometBase} (BaseTokenMismatch)`);
+                }
+
+                const pool = new Contract(liquidityPool, UNISWAP_V3_POOL_ABI, provider);
+                const poolToken = await read<string>(pool, isToken0 ? "token0" : "token1");
+                if (utils.getAddress(poolToken) !== token) {
+                    errors.push(
+                        `${label}: ${isToken0 ? "token0" : "token1"} of the pool is ${poolToken}, not ${token}`
+                    );
+                }
+                configured.set(comet, true);
+                break;
+            }
+            case "removeFlashData": {
+                const comet = utils.getAddress(call.args[0]);
+                if (!(await isConfigured(comet))) errors.push(`${label}: no flash data (CometIsNotSupported)`);
+                configured.set(comet, false);
+                break;
+            }
+            case "pause":
+                if (paused) errors.push(`${label}: already paused (EnforcedPause)`);
+                paused = true;
+                break;
+            case "unpause":
+                if (!paused) errors.push(`${label}: not paused (ExpectedPause)`);
+                paused = false;
+                break;
+        }
+    }
+
+    if (paused && !initiallyPaused) warnings.push("The migrator stays paused: migrations are disabled");
+    return { errors, warnings };
+}
+
+/**
+ * Builds a Safe Transaction Builder batch that executes the calls on the migrator from the Safe.
+ */
+export function toSafeTransactionBatch(
+    chainId: number,
+    safe: string,
+    migrator: string,
+    calls: AdminCall[],
+    name = "MigratorV2 administration"
+): SafeTransactionBatch {
+    return {
+        version: SAFE_BATCH_VERSION,
+        chainId: chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+            name,
+            description: calls.map(describeAdminCall).join("; "),
+            txBuilderVersion: TX_BUILDER_VERSION,
+            createdFromSafeAddress: utils.getAddress(safe),
+            createdFromOwnerAddress: ""
+        },
+        transactions: calls.map((call) => ({
+            to: utils.getAddress(migrator),
+            value: "0",
+            data: encodeAdminCall(call),
+            contractMethod: null,
+            contractInputsValues: null
+        }))
+    };
+}
@@ -0,0 +1,180 @@
+import { constants, utils } from "ethers";
+import type { BigNumberish, BytesLike } from "ethers";
+import type {
+    AdapterType,
+    AaveV3Position,
+    SparkPosition,
+    MorphoPosition,
+    PositionByAdapter,
+    DecodedAaveV3Position,
+    DecodedSparkPosition,
+    DecodedMorphoPosition,
+    DecodedPositionByAdapter,
+    SwapInputLimitParams,
+    SwapOutputLimitParams
+} from "./types";
+
+export * from "./types";
+
+const { defaultAbiCoder, hexlify } = utils;
+
+// `SwapModule.SwapInputLimitParams` and `SwapModule.SwapOutputLimitParams`.
+const SWAP_INPUT_LIMIT_PARAMS = "tuple(bytes path, uint256 deadline, uint256 amountInMaximum) swapParams";
+const SWAP_OUTPUT_LIMIT_PARAMS = "tuple(bytes path, uint256 deadline, uint256 amountOutMinimum) swapParams";
+
+/*
+ * ABI types of the positions the adapters decode in `executeMigration`.
+ */
+export const AAVE_V3_POSITION_ABI =
+    "tuple(" +
+    `tuple(address debtToken, uint256 amount, ${SWAP_INPUT_LIMIT_PARAMS})[] borrows,` +
+    `tuple(address aToken, uint256 amount, ${SWAP_OUTPUT_LIMIT_PARAMS})[] collaterals` +
+    ")";
+
+export const SPARK_POSITION_ABI =
+    "tuple(" +
+    `tuple(address debtToken, uint256 amount, ${SWAP_INPUT_LIMIT_PARAMS})[] borrows,` +
+    `tuple(address spToken, uint256 amount, ${SWAP_OUTPUT_LIMIT_PARAMS})[] collateral` +
+    ")";
+
+export const MORPHO_POSITION_ABI =
+    "tuple(" +
+    `tuple(bytes32 marketId, uint256 assetsAmount, ${SWAP_INPUT_LIMIT_PARAMS})[] borrows,` +
+    `tuple(bytes32 marketId, uint256 assetsAmount, ${SWAP_OUTPUT_LIMIT_PARAMS})[] collateral` +
+    ")";
+
+export const POSITION_ABI: Record<AdapterType, string> = {
+    AaveV3: AAVE_V3_POSITION_ABI,
+    Spark: SPARK_POSITION_ABI,
+    Morpho: MORPHO_POSITION_ABI
+};
+
+// Swap parameters with an empty path. The adapters skip the swap (or apply the default DAI -> USDS conversion).
+export function noSwapInput(): SwapInputLimitParams {
+    return { path: "0x", deadline: 0, amountInMaximum: 0 };
+}
+
+export function noSwapOutput(): SwapOutputLimitParams {
+    return { path: "0x", deadline: 0, amountOutMinimum: 0 };
+}
+
+export function swapInput(
+    path: BytesLike,
+    deadline: BigNumberish,
+    amountInMaximum: BigNumberish
+): SwapInputLimitParams {
+    return { path: hexlify(path), deadline, amountInMaximum };
+}
+
+export function swapOutput(
+    path: BytesLike,
+    deadline: BigNumberish,
+    amountOutMinimum: BigNumberish
+): SwapOutputLimitParams {
+    return { path: hexlify(path), deadline, amountOutMinimum };
+}
+
+// `MaxUint256` makes the adapters migrate the whole balance of the position.
+export const MAX_AMOUNT = constants.MaxUint256;
+
+export function encodeAaveV3Position(position: AaveV3Position): string {
+    return defaultAbiCoder.encode([AAVE_V3_POSITION_ABI], [position]);
+}
+
+export function encodeSparkPosition(position: SparkPosition): string {
+    return defaultAbiCoder.encode([SPARK_POSITION_ABI], [position]);
+}
+
+export function encodeMorphoPosition(position: MorphoPosition): string {
+    return defaultAbiCoder.encode([MORPHO_POSITION_ABI], [position]);
+}
+
+/**
+ * Encodes `migrationData` for `MigratorV2.migrate` according to the adapter type.
+ */
+export function encodeMigrationData<T extends AdapterType>(adapterType: T, position: PositionByAdapter[T]): string {
+    return defaultAbiCoder.encode([POSITION_ABI[adapterType]], [position]);
+}
+
+/*
+ * Decoders. They return plain objects (not `ethers` `Result` arrays) so the output can be serialized, compared or
+ * passed back to the encoders.
+ */
+type DecodedSwapInput = DecodedAaveV3Position["borrows"][number]["swapParams"];
+type DecodedSwapOutput = DecodedAaveV3Position["collaterals"][number]["swapParams"];
+
+function decodeSwapInput({ path, deadline, amountInMaximum }: DecodedSwapInput): DecodedSwapInput {
+    return { path, deadline, amountInMaximum };
+}
+
+function decodeSwapOutput({ path, deadline, amountOutMinimum }: DecodedSwapOutput): DecodedSwapOutput {
+    return { path, deadline, amountOutMinimum };
+}
+
+function decodeFirst<T>(abi: string, data: BytesLike): T {
+    return defaultAbiCoder.decode([abi], data)[0] as T;
+}
+
+export function decodeAaveV3Position(data: BytesLike): DecodedAaveV3Position {
+    const position = decodeFirst<DecodedAaveV3Position>(AAVE_V3_POSITION_ABI, data);
+    return {
+        borrows: position.borrows.map(({ debtToken, amount, swapParams }) => ({
+            debtToken,
+            amount,
+            swapParams: decodeSwapInput(swapParams)
+        })),
+        collaterals: position.collaterals.map(({ aToken, amount, swapParams }) => ({
+            aToken,
+            amount,
+            swapParams: decodeSwapOutput(swapParams)
+        }))
+    };
+}
+
+export function decodeSparkPosition(data: BytesLike): DecodedSparkPosition {
+    const position = decodeFirst<DecodedSparkPosition>(SPARK_POSITION_ABI, data);
+    return {
+        borrows: position.borrows.map(({ debtToken, amount, swapParams }) => ({
+            debtToken,
+            amount,
+            swapParams: decodeSwapInput(swapParams)
+        })),
+        collateral: position.collateral.map(({ spToken, amount, swapParams }) => ({
+            spToken,
+            amount,
+            swapParams: decodeSwapOutput(swapParams)
+        }))
+    };
+}
+
+export function decodeMorphoPosition(data: BytesLike): DecodedMorphoPosition {
+    const position = decodeFirst<DecodedMorphoPosition>(MORPHO_POSITION_ABI, data);
+    return {
+        borrows: position.borrows.map(({ marketId, assetsAmount, swapParams }) => ({
+            marketId,
+            assetsAmount,
+            swapParams: decodeSwapInput(swapParams)
+        })),
+        collateral: position.collateral.map(({ marketId, assetsAmount, swapParams }) => ({
+            marketId,
+            assetsAmount,
+            swapParams: decodeSwapOutput(swapParams)
+        }))
+    };
+}
+
+const DECODERS: { [K in AdapterType]: (data: BytesLike) => DecodedPositionByAdapter[K] } = {
+    AaveV3: decodeAaveV3Position,
+    Spark: decodeSparkPosition,
+    Morpho: decodeMorphoPosition
+};
+
+/**
+ * Decodes `migrationData` back into the position structure of the given adapter type.
+ */
+export function decodeMigrationData<T extends AdapterType>(
+    adapterType: T,
+    data: BytesLike
+): DecodedPositionByAdapter[T] {
+    return DECODERS[adapterType](data);
+}
@@ -0,0 +1,116 @@
+import type { BigNumber, BigNumberish, BytesLike } from "ethers";
+
+/*
+ * TypeScript mirrors of the structs declared in `SwapModule` and in the protocol adapters
+ * (`AaveV3UsdsAdapter`, `SparkUsdsAdapter`, `MorphoUsdsAdapter`).
+ *
+ * NOTE. Field names and their order must match the Solidity declarations exactly, because the migration data is
+ * decoded on-chain with `abi.decode(migrationData, (<Position>))`.
+ */
+
+export type AdapterType = "AaveV3" | "Spark" | "Morpho";
+
+// `SwapModule.SwapInputLimitParams`. Used for borrow positions (exact output swaps).
+export interface SwapInputLimitParams {
+    path: BytesLike;
+    deadline: BigNumberish;
+    amountInMaximum: BigNumberish;
+}
+
+// `SwapModule.SwapOutputLimitParams`. Used for collateral positions (exact input swaps).
+export interface SwapOutputLimitParams {
+    path: BytesLike;
+    deadline: BigNumberish;
+    amountOutMinimum: BigNumberish;
+}
+
+// `AaveV3UsdsAdapter.AaveV3Borrow`.
+export interface AaveV3Borrow {
+    debtToken: string;
+    amount: BigNumberish;
+    swapParams: SwapInputLimitParams;
+}
+
+// `AaveV3UsdsAdapter.AaveV3Collateral`.
+export interface AaveV3Collateral {
+    aToken: string;
+    amount: BigNumberish;
+    swapParams: SwapOutputLimitParams;
+}
+
+// `AaveV3UsdsAdapter.AaveV3Position`.
+export interface AaveV3Position {
+    borrows: AaveV3Borrow[];
+    collaterals: AaveV3Collateral[];
+}
+
+// `SparkUsdsAdapter.SparkBorrow`.
+export interface SparkBorrow {
+    debtToken: string;
+    amount: BigNumberish;
+    swapParams: SwapInputLimitParams;
+}
+
+// `SparkUsdsAdapter.SparkCollateral`.
+export interface SparkCollateral {
+    spToken: string;
+    amount: BigNumberish;
+    swapParams: SwapOutputLimitParams;
+}
+
+// `SparkUsdsAdapter.SparkPosition`. NOTE. The collateral field is singular in the contract.
+export interface SparkPosition {
+    borrows: SparkBorrow[];
+    collateral: SparkCollateral[];
+}
+
+// `MorphoUsdsAdapter.MorphoBorrow`. `marketId` is the Morpho Blue market `Id` (`bytes32`).
+export interface MorphoBorrow {
+    marketId: BytesLike;
+    assetsAmount: BigNumberish;
+    swapParams: SwapInputLimitParams;
+}
+
+// `MorphoUsdsAdapter.MorphoCollateral`.
+export interface MorphoCollateral {
+    marketId: BytesLike;
+    assetsAmount: BigNumberish;
+    swapParams: SwapOutputLimitParams;
+}
+
+// `MorphoUsdsAdapter.MorphoPosition`. NOTE. The collateral field is singular in the contract.
+export interface MorphoPosition {
+    borrows: MorphoBorrow[];
+    collateral: MorphoCollateral[];
+}
+
+export interface PositionByAdapter {
+    AaveV3: AaveV3Position;
+    Spark: SparkPosition;
+    Morpho: MorphoPosition;
+}
+
+/*
+ * Normalized shapes returned by the decoders: numbers are `BigNumber` and bytes are lowercase hex strings.
+ */
+type Decoded<T> = {
+    [K in keyof T]: T[K] extends BytesLike
+        ? string
+        : T[K] extends BigNumberish
+        ? BigNumber
+        : T[K] extends (infer U)[]
+        ? Decoded<U>[]
+        : T[K] extends object
+        ? Decoded<T[K]>
+        : T[K];
+};
+
+export type DecodedAaveV3Position = Decoded<AaveV3Position>;
+export type DecodedSparkPosition = Decoded<SparkPosition>;
+export type DecodedMorphoPosition = Decoded<MorphoPosition>;
+
+export interface DecodedPositionByAdapter {
+    AaveV3: DecodedAaveV3Position;
+    Spark: DecodedSparkPosition;
+    Morpho: DecodedMorphoPosition;
+}
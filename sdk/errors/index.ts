@@ -0,0 +1,441 @@
+import { BigNumber, utils } from "ethers";
+
+/*
+ * Decoding of the revert data of a migration. `MigratorV2` re-throws the revert data of the adapter delegatecall as it
+ * is, so the custom errors of the adapters, their modules and the protocols they call reach the caller unchanged. The
+ * only error without a payload is `DelegatecallFailed`.
+ */
+
+export interface ErrorDescription {
+    // The Solidity signature with parameter names, e.g. `error CometIsNotSupported(address comet)`.
+    signature: string;
+    // The contracts that declare the error.
+    sources: string[];
+    explanation: string;
+    fix?: string;
+}
+
+export interface DecodedError {
+    data: string;
+    selector: string;
+    // Undefined for an unknown selector.
+    name?: string;
+    sources: string[];
+    args: Record<string, string>;
+    explanation: string;
+    fix?: string;
+    // The revert payload carried by this error, e.g. in the message of an `Error(string)`.
+    inner?: DecodedError;
+}
+
+const ADAPTERS = ["AaveV3UsdsAdapter", "SparkUsdsAdapter", "MorphoUsdsAdapter"];
+
+export const KNOWN_ERRORS: ErrorDescription[] = [
+    // MigratorV2
+    {
+        signature: "error InvalidMigrationData()",
+        sources: ["MigratorV2"],
+        explanation: "The migration data is empty.",
+        fix: "Encode the positions of the migration with `encodeMigrationPlan`."
+    },
+    {
+        signature: "error InvalidAdapter()",
+        sources: ["MigratorV2"],
+        explanation: "The adapter is not allowed by the migrator.",
+        fix: "Use an adapter listed by `getAdapters()`, or have the owner call `setAdapter`."
+    },
+    {
+        signature: "error SenderNotUniswapPool(address sender)",
+        sources: ["MigratorV2"],
+        explanation: "The flash loan callback was not called by the liquidity pool configured for the Comet market.",
+        fix: "The callback can only be triggered by `migrate`, it must not be called directly."
+    },
+    {
+        signature: "error CometIsNotSupported(address comet)",
+        sources: ["MigratorV2"],
+        explanation: "The migrator has no flash data for this Comet market.",
+        fix: "Use a Comet market listed in the flash data, or have the owner call `setFlashData`."
+    },
+    {
+        signature: "error MismatchedArrayLengths()",
+        sources: ["MigratorV2"],
+        explanation: "The Comet markets and their flash data have different lengths.",
+        fix: "Pass one `FlashData` per Comet market."
+    },
+    {
+        signature: "error AdapterAlreadyAllowed(address adapter)",
+        sources: ["MigratorV2"],
+        explanation: "The adapter is already allowed.",
+        fix: "Nothing to do, or remove the adapter first to replace it."
+    },
+    {
+        signature: "error CometAlreadyConfigured(address comet)",
+        sources: ["MigratorV2"],
+        explanation: "The Comet market already has flash data.",
+        fix: "Remove the flash data of the market first to replace it."
+    },
+    {
+        signature: "error InvalidCallbackHash()",
+        sources: ["MigratorV2"],
+        explanation: "The flash loan callback data does not match the data of the migration in progress.",
+        fix: "The callback can only be triggered by `migrate`, it must not be called directly."
+    },
+    {
+        signature: "error DelegatecallFailed()",
+        sources: ["MigratorV2"],
+        explanation: "The adapter reverted without revert data, e.g. out of gas or a call to a contract without code.",
+        fix: "Check that the adapter is deployed on this network and retry with a higher gas limit."
+    },
+    {
+        signature: "error BaseTokenMismatch(address expected, address actual)",
+        sources: ["MigratorV2"],
+        explanation: "The flash loan token does not match the base token of the Comet market (DAI for USDS markets).",
+        fix: "Set `FlashData.baseToken` to the expected token."
+    },
+    {
+        signature: "error AddressPairMismatch(address dai, address usds)",
+        sources: ["MigratorV2"],
+        explanation: "Only one of DAI and USDS is set, or both are set to the same address.",
+        fix: "Set both DAI and USDS on networks with the converter, or neither of them."
+    },
+    // CommonErrors
+    {
+        signature: "error InvalidZeroAddress()",
+        sources: ["CommonErrors"],
+        explanation: "A required address is zero.",
+        fix: "Check the addresses of the deployment parameters or of the call."
+    },
+    {
+        signature: "error IdenticalAddresses()",
+        sources: ["CommonErrors"],
+        explanation: "Two addresses that must differ are identical."
+    },
+    // SwapModule
+    {
+        signature: "error ZeroAmountIn()",
+        sources: ["SwapModule"],
+        explanation: "An exact input swap was requested for a zero amount.",
+        fix: "Remove the swap of the empty position from the plan."
+    },
+    {
+        signature: "error ZeroAmountOut()",
+        sources: ["SwapModule"],
+        explanation: "An exact output swap was requested for a zero amount.",
+        fix: "Remove the swap of the empty position from the plan."
+    },
+    {
+        signature: "error EmptySwapPath()",
+        sources: ["SwapModule"],
+        explanation: "A swap has no path.",
+        fix: "Set the `hops` or the `path` of the swap, or remove the swap."
+    },
+    {
+        signature: "error ZeroAmountInMaximum()",
+        sources: ["SwapModule"],
+        explanation: "The `amountInMaximum` of a borrow swap is zero.",
+        fix: "Quote the swap and set `amountInMaximum` to the quote plus the slippage tolerance."
+    },
+    {
+        signature: "error ZeroAmountOutMinimum()",
+        sources: ["SwapModule"],
+        explanation: "The `amountOutMinimum` of a collateral swap is zero.",
+        fix: "Quote the swap and set `amountOutMinimum` to the quote minus the slippage tolerance."
+    },
+    {
+        signature: "error InvalidSwapDeadline()",
+        sources: ["SwapModule"],
+        explanation: "The swap deadline is zero or has passed.",
+        fix: "Encode the migration data again with a later deadline."
+    },
+    // ConvertModule
+    {
+        signature: "error ConversionFailed(uint256 expectedAmount, uint256 actualAmount)",
+        sources: ["ConvertModule"],
+        explanation: "The DAI ⇄ USDS converter returned a different amount than requested.",
+        fix: "Check the `daiUsdsConverter` of the adapter."
+    },
+    {
+        signature: "error IdenticalTokenAddresses(address token)",
+        sources: ["ConvertModule"],
+        explanation: "DAI and USDS have the same address.",
+        fix: "Check the DAI and USDS deployment parameters."
+    },
+    {
+        signature: "error ConverterConfigMismatch(address converter, address dai, address usds)",
+        sources: ["ConvertModule"],
+        explanation: "The converter, DAI and USDS must be all set or all zero.",
+        fix: "Check the converter, DAI and USDS deployment parameters."
+    },
+    // Adapters
+    {
+        signature: "error DebtNotCleared(address token)",
+        sources: ADAPTERS,
+        explanation: "The adapter runs full migrations and a debt is still open after its repayment.",
+        fix: "Migrate the whole debt (`amount: max`) and size the flash loan to cover it and the accrued interest."
+    },
+    // Comet
+    {
+        signature: "error Unauthorized()",
+        sources: ["Comet"],
+        explanation: "Comet refused to act on behalf of the user.",
+        fix: "The user must call `comet.allow(migrator, true)`."
+    },
+    {
+        signature: "error NotCollateralized()",
+        sources: ["Comet"],
+        explanation: "The Comet account is not collateralized after the flash loan repayment.",
+        fix: "Migrate more collateral, or a smaller debt (see `estimateFlashAmount`)."
+    },
+    {
+        signature: "error BorrowTooSmall()",
+        sources: ["Comet"],
+        explanation: "The Comet debt after the migration is below `baseBorrowMin`.",
+        fix: "Migrate a larger debt, or repay the rest of it beforehand."
+    },
+    {
+        signature: "error SupplyCapExceeded()",
+        sources: ["Comet"],
+        explanation: "The supply cap of a collateral of the Comet market is reached.",
+        fix: "Swap the collateral to another asset of the market."
+    },
+    {
+        signature: "error BadAsset()",
+        sources: ["Comet"],
+        explanation: "The asset is not a collateral of the Comet market.",
+        fix: "Swap the collateral to the base token or to a collateral of the market."
+    },
+    {
+        signature: "error InsufficientReserves()",
+        sources: ["Comet"],
+        explanation: "The Comet market does not have the base token to withdraw.",
+        fix: "Retry later or migrate to another market."
+    },
+    {
+        signature: "error Paused()",
+        sources: ["Comet"],
+        explanation: "The operation is paused on the Comet market."
+    },
+    // OpenZeppelin
+    {
+        signature: "error EnforcedPause()",
+        sources: ["MigratorV2"],
+        explanation: "The migrator is paused.",
+        fix: "Wait for the owner to unpause the migrator."
+    },
+    {
+        signature: "error ExpectedPause()",
+        sources: ["MigratorV2"],
+        explanation: "The migrator is not paused."
+    },
+    {
+        signature: "error OwnableUnauthorizedAccount(address account)",
+        sources: ["MigratorV2"],
+        explanation: "The caller is not the owner of the migrator.",
+        fix: "Send the transaction from the owner (see `owner()`)."
+    },
+    {
+        signature: "error OwnableInvalidOwner(address owner)",
+        sources: ["MigratorV2"],
+        explanation: "The new owner is the zero address.",
+        fix: "Use `renounceOwnership` to leave the migrator without an owner."
+    },
+    {
+        signature: "error ReentrancyGuardReentrantCall()",
+        sources: ["MigratorV2"],
+        explanation: "`migrate` was re-entered during a migration."
+    },
+    {
+        signature: "error SafeERC20FailedOperation(address token)",
+        sources: ["MigratorV2", ...ADAPTERS],
+        explanation: "A token transfer or approval failed."
+    },
+    {
+        signature: "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+        sources: ["ERC20"],
+        explanation: "A token balance is too low for a transfer.",
+        fix: "Check the amounts of the plan against the current positions."
+    },
+    {
+        signature: "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+        sources: ["ERC20"],
+        explanation: "A token allowance is too low for a transfer.",
+        fix: "The user must approve the migrator for the aTokens/spTokens of the plan."
+    }
+];
+
+// `Error(string)` messages of Uniswap V3 and Morpho.
+const KNOWN_MESSAGES: Record<string, Pick<ErrorDescription, "explanation" | "fix">> = {
+    STF: {
+        explanation: "Uniswap could not transfer the input token of a swap.",
+        fix: "Check the swap paths: the input of a borrow swap must be the flash token."
+    },
+    "Too little received": {
+        explanation: "A collateral swap returned less than its `amountOutMinimum`.",
+        fix: "Quote the swap again or raise the slippage tolerance."
+    },
+    "Too much requested": {
+        explanation: "A borrow swap needed more than its `amountInMaximum`.",
+        fix: "Quote the swap again or raise the slippage tolerance."
+    },
+    "Transaction too old": {
+        explanation: "The swap deadline has passed.",
+        fix: "Encode the migration data again with a later deadline."
+    },
+    LOK: {
+        explanation: "A swap went through the pool of the flash loan, which is locked during the flash loan.",
+        fix: "Quote the swap without the pool of the flash loan."
+    },
+    unauthorized: {
+        explanation: "Morpho refused to act on behalf of the user.",
+        fix: "The user must call `morpho.setAuthorization(migrator, true)`."
+    },
+    "insufficient collateral": {
+        explanation: "The Morpho position would be undercollateralized after withdrawing the collateral.",
+        fix: "Migrate the whole debt of the market together with its collateral."
+    }
+};
+
+const PANIC_REASONS: Record<number, string> = {
+    0x01: "An assertion failed.",
+    0x11: "An arithmetic operation overflowed or underflowed.",
+    0x12: "A division or modulo by zero.",
+    0x21: "A conversion to an enum is out of range.",
+    0x22: "A storage byte array is incorrectly encoded.",
+    0x31: "`pop()` was called on an empty array.",
+    0x32: "An array index is out of bounds.",
+    0x41: "Too much memory was allocated.",
+    0x51: "A zero-initialized internal function was called."
+};
+
+const errorInterface = new utils.Interface(KNOWN_ERRORS.map(({ signature }) => signature));
+const descriptions = new Map(
+    KNOWN_ERRORS.map((description) => [errorInterface.getSighash(description.signature.slice(6)), description])
+);
+
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+// Revert payloads nest a few levels at most.
+const MAX_DEPTH = 5;
+
+/**
+ * Finds the revert data in the nested errors thrown by ethers and the Hardhat provider.
+ */
+export function getRevertData(error: unknown, depth = 0): string | undefined {
+    if (depth > MAX_DEPTH || typeof error !== "object" || error === null) return undefined;
+    const { data } = error as { data?: unknown };
+    if (typeof data === "string" && utils.isHexString(data)) return data;
+    if (typeof data === "object" && data !== null) {
+        const nested = getRevertData(data, depth + 1);
+        if (nested) return nested;
+    }
+    return getRevertData((error as { error?: unknown }).error, depth + 1);
+}
+
+// A revert payload is a 4-byte selector followed by ABI-encoded words.
+function isRevertPayload(value: string): boolean {
+    return utils.isHexString(value) && (value.length - 10) % 64 === 0 && value.length >= 10;
+}
+
+function decodeMessage(data: string, depth: number): DecodedError {
+    const [message] = utils.defaultAbiCoder.decode(["string"], utils.hexDataSlice(data, 4)) as [string];
+    const known = KNOWN_MESSAGES[message];
+    // Some contracts re-throw a nested payload as the hex string of a message.
+    const inner = isRevertPayload(message) ? decodeRevertData(message, depth + 1) : undefined;
+    return {
+        data,
+        selector: ERROR_SELECTOR,
+        name: "Error",
+        sources: [],
+        args: { message },
+        explanation: known?.explanation ?? `Reverted with "${message}".`,
+        fix: known?.fix,
+        inner
+    };
+}
+
+function decodePanic(data: string): DecodedError {
+    const [code] = utils.defaultAbiCoder.decode(["uint256"], utils.hexDataSlice(data, 4)) as [BigNumber];
+    return {
+        data,
+        selector: PANIC_SELECTOR,
+        name: "Panic",
+        sources: [],
+        args: { code: code.toHexString() },
+        explanation: PANIC_REASONS[code.toNumber()] ?? `Panic ${code.toHexString()}.`
+    };
+}
+
+/**
+ * Decodes a revert payload against the errors of `MigratorV2`, the adapters, their modules, Comet and OpenZeppelin,
+ * plus `Error(string)` and `Panic(uint256)`. Payloads nested in the arguments of an error are decoded into `inner`.
+ */
+export function decodeRevertData(data: string, depth = 0): DecodedError {
+    if (!utils.isHexString(data) || data.length < 10) {
+        return { data, selector: "0x", sources: [], args: {}, explanation: "Reverted without a reason." };
+    }
+    const selector = utils.hexDataSlice(data, 0, 4);
+    if (selector === ERROR_SELECTOR) return decodeMessage(data, depth);
+    if (selector === PANIC_SELECTOR) return decodePanic(data);
+
+    const description = descriptions.get(selector);
+    if (!description) {
+        return { data, selector, sources: [], args: {}, explanation: `Unknown custom error ${selector}.` };
+    }
+
+    const fragment = errorInterface.getError(selector);
+    const decoded: DecodedError = {
+        data,
+        selector,
+        name: fragment.name,
+        sources: description.sources,
+        args: {},
+        explanation: description.explanation,
+        fix: description.fix
+    };
+
+    let values: utils.Result;
+    try {
+        values = errorInterface.decodeErrorResult(fragment, data);
+    } catch {
+        // A truncated payload, e.g. as shown by a block explorer: the selector is enough to explain it.
+        return decoded;
+    }
+    decoded.args = Object.fromEntries(fragment.inputs.map((input, i) => [input.name, String(values[i])]));
+    const nested = fragment.inputs.findIndex(
+        (input, i) => input.type === "bytes" && isRevertPayload(values[i] as string)
+    );
+    if (nested >= 0 && depth < MAX_DEPTH) decoded.inner = decodeRevertData(values[nested] as string, depth + 1);
+    return decoded;
+}
+
+/**
+ * Decodes the revert of a failed call or transaction, as thrown by ethers or the Hardhat provider.
+ */
+export function decodeError(error: unknown): DecodedError | undefined {
+    const data = getRevertData(error);
+    return data === undefined ? undefined : decodeRevertData(data);
+}
+
+// The innermost error, i.e. the one that caused the revert.
+export function rootCause(decoded: DecodedError): DecodedError {
+    return decoded.inner ? rootCause(decoded.inner) : decoded;
+}
+
+// `Name(arg, ...)`, or the selector of an unknown error.
+export function formatErrorCall(decoded: DecodedError): string {
+    if (!decoded.name) return decoded.selector;
+    return `${decoded.name}(${Object.values(decoded.args).join(", ")})`;
+}
+
+/**
+ * Renders an error and the payloads it carries, one per line, with the explanation and the suggested fix.
+ */
+export function formatDecodedError(decoded: DecodedError): string {
+    const lines: string[] = [];
+    for (let error: DecodedError | undefined = decoded, indent = ""; error; error = error.inner, indent += "  ") {
+        const sources = error.sources.length > 0 ? ` [${error.sources.join(", ")}]` : "";
+        lines.push(`${indent}${formatErrorCall(error)}${sources}: ${error.explanation}`);
+        if (error.fix) lines.push(`${indent}  Fix: ${error.fix}`);
+    }
+    return lines.join("\n");
+}
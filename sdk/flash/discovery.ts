@@ -0,0 +1,154 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import type { BytesLike, providers } from "ethers";
+import { COMET_ABI, ERC20_ABI, UNISWAP_V3_FACTORY_ABI, UNISWAP_V3_POOL_ABI, read } from "../abis";
+import type { FlashData } from "../admin";
+import { FEE_TIERS, decodePath } from "../path";
+import type { FeeTier } from "../path";
+
+/*
+ * Discovery of the flash loan pool of a Comet market: the Uniswap V3 pools of the base token (or of DAI for a USDS
+ * market) with the collaterals of the market and the given tokens, in every fee tier.
+ */
+
+export interface FlashDataDiscoveryOptions {
+    // `UniswapV3Factory`.
+    factory: string;
+    // Tokens paired with the flash token, in addition to the collaterals of the comet.
+    pairTokens?: string[];
+    feeTiers?: readonly FeeTier[];
+    // The swap routes of the adapters: a flash pool used by a swap of the migration reverts with `LOK`.
+    swapPaths?: BytesLike[];
+    excludedPools?: string[];
+    // Set both for a USDS market to consider the DAI pools too.
+    dai?: string;
+    usds?: string;
+    // Pools holding less of the flash token are left out.
+    minLiquidity?: BigNumber;
+}
+
+export interface FlashPoolCandidate {
+    pool: string;
+    flashToken: string;
+    pairToken: string;
+    fee: FeeTier;
+    isToken0: boolean;
+    // The balance of the flash token held by the pool.
+    liquidity: BigNumber;
+    // Why the pool cannot be used.
+    excludedReason?: string;
+}
+
+export interface FlashDataDiscovery {
+    comet: string;
+    baseToken: string;
+    flashData: FlashData;
+    // The usable pools, best first.
+    candidates: FlashPoolCandidate[];
+    excluded: FlashPoolCandidate[];
+}
+
+// The most liquid pool first, then the cheapest one.
+export function compareFlashPools(a: FlashPoolCandidate, b: FlashPoolCandidate): number {
+    if (!a.liquidity.eq(b.liquidity)) return a.liquidity.gt(b.liquidity) ? -1 : 1;
+    return a.fee - b.fee;
+}
+
+async function collateralAssets(comet: Contract): Promise<string[]> {
+    try {
+        const numAssets = await read<number>(comet, "numAssets");
+        const infos = await Promise.all(
+            Array.from({ length: numAssets }, (_, i) => read<{ asset: string }>(comet, "getAssetInfo", i))
+        );
+        return infos.map(({ asset }) => asset);
+    } catch {
+        // Markets without the Comet asset list, e.g. mocks.
+        return [];
+    }
+}
+
+// The pools of a swap path, one per hop.
+async function pathPools(factory: Contract, path: BytesLike): Promise<string[]> {
+    const { tokens, fees } = decodePath(path);
+    return Promise.all(fees.map((fee, i) => read<string>(factory, "getPool", tokens[i], tokens[i + 1], fee)));
+}
+
+/**
+ * Finds the Uniswap V3 pools that can lend the base token of a comet and returns the `FlashData` of the best one. The
+ * pools of the adapters' swap routes and the explicitly excluded pools are reported but never chosen.
+ */
+export async function discoverFlashData(
+    provider: providers.Provider,
+    cometAddress: string,
+    options: FlashDataDiscoveryOptions
+): Promise<FlashDataDiscovery> {
+    const comet = new Contract(cometAddress, COMET_ABI, provider);
+    const factory = new Contract(options.factory, UNISWAP_V3_FACTORY_ABI, provider);
+    const baseToken = utils.getAddress(await read<string>(comet, "baseToken"));
+
+    const isUsdsMarket = !!options.usds && !!options.dai && utils.getAddress(options.usds) === baseToken;
+    const flashTokens = isUsdsMarket ? [baseToken, utils.getAddress(options.dai as string)] : [baseToken];
+    const pairTokens = [...new Set([...(await collateralAssets(comet)), ...(options.pairTokens ?? [])])].map((token) =>
+        utils.getAddress(token)
+    );
+
+    const excludedPools = new Map<string, string>();
+    for (const pool of options.excludedPools ?? []) excludedPools.set(utils.getAddress(pool), "excluded");
+    for (const path of options.swapPaths ?? []) {
+        for (const pool of await pathPools(factory, path)) {
+            if (pool !== constants.AddressZero) excludedPools.set(utils.getAddress(pool), "used by a swap route");
+        }
+    }
+
+    const candidates: FlashPoolCandidate[] = [];
+    const excluded: FlashPoolCandidate[] = [];
+    const seen = new Set<string>();
+    for (const flashToken of flashTokens) {
+        const token = new Contract(flashToken, ERC20_ABI, provider);
+        for (const pairToken of pairTokens.filter((pair) => !flashTokens.includes(pair))) {
+            for (const fee of options.feeTiers ?? FEE_TIERS) {
+                const address = await read<string>(factory, "getPool", flashToken, pairToken, fee);
+                if (address === constants.AddressZero || seen.has(utils.getAddress(address))) continue;
+                const pool = utils.getAddress(address);
+                seen.add(pool);
+
+                const [token0, liquidity] = await Promise.all([
+                    read<string>(new Contract(pool, UNISWAP_V3_POOL_ABI, provider), "token0"),
+                    read<BigNumber>(token, "balanceOf", pool)
+                ]);
+                const candidate = {
+                    pool,
+                    flashToken,
+                    pairToken,
+                    fee,
+                    isToken0: utils.getAddress(token0) === flashToken,
+                    liquidity
+                };
+
+                const excludedReason =
+                    excludedPools.get(pool) ??
+                    (liquidity.isZero() || liquidity.lt(options.minLiquidity ?? 0)
+                        ? "not enough liquidity"
+                        : undefined);
+                if (excludedReason) excluded.push({ ...candidate, excludedReason });
+                else candidates.push(candidate);
+            }
+        }
+    }
+
+    candidates.sort(compareFlashPools);
+    if (candidates.length === 0) {
+        throw new Error(
+            `No usable Uniswap V3 pool for the base token ${baseToken} of ${cometAddress} ` +
+                `(${excluded.length} excluded, ${pairTokens.length} pair tokens)`
+        );
+    }
+
+    const [best] = candidates;
+    return {
+        comet: utils.getAddress(cometAddress),
+        baseToken,
+        flashData: { liquidityPool: best.pool, baseToken: best.flashToken, isToken0: best.isToken0 },
+        candidates,
+        excluded
+    };
+}
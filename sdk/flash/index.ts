@@ -0,0 +1,243 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import type { providers } from "ethers";
+import { COMET_ABI, ERC20_ABI, MIGRATOR_V2_ABI, UNISWAP_V3_POOL_ABI, read } from "../abis";
+import type { MigrationPlan } from "../plan";
+import { BPS } from "../planner";
+import type { PlannedLeg, PlannedMigration } from "../planner";
+
+export * from "./discovery";
+
+/*
+ * Flash loan sizing. The flash loan pays for the borrow legs; whatever is not spent stays with the migrator and is
+ * netted against the repayment, which `MigratorV2` withdraws from the user's Comet account together with the pool fee.
+ */
+
+// Uniswap V3 fees are expressed in hundredths of a basis point.
+const FEE_DENOMINATOR = 1_000_000;
+// `borrowCollateralFactor` and the other Comet factors are scaled by 1e18.
+const FACTOR_SCALE = constants.WeiPerEther;
+
+export interface FlashEstimateOptions {
+    // Extra margin on top of the amount the borrow legs may spend, e.g. for the interest accrued until execution.
+    bufferBps?: number;
+    // The pool fee (e.g. `500`). Read from the pool when omitted.
+    poolFee?: number;
+    // Set to `false` to skip the collateralization check, e.g. for markets without price feeds.
+    checkCollateralization?: boolean;
+}
+
+export interface CollateralValue {
+    asset: string;
+    // The Comet collateral balance after the migration.
+    amount: BigNumber;
+    // `Comet.getPrice(priceFeed)`, 8 decimals.
+    price: BigNumber;
+    // `AssetInfo.scale`.
+    scale: BigNumber;
+    // `AssetInfo.borrowCollateralFactor`.
+    borrowCollateralFactor: BigNumber;
+}
+
+export interface Collateralization {
+    // Values in the Comet price unit (USD with 8 decimals).
+    borrowCapacity: BigNumber;
+    borrowValue: BigNumber;
+    isCollateralized: boolean;
+}
+
+export interface FlashEstimate {
+    // The plan with `flashAmount` set.
+    plan: MigrationPlan;
+    flashToken: string;
+    liquidityPool: string;
+    isToken0: boolean;
+    poolFee: number;
+    flashAmount: BigNumber;
+    flashFee: BigNumber;
+    // The balance of the flash token held by the pool.
+    availableLiquidity: BigNumber;
+    // The Comet debt expected after the migration, in the base token.
+    expectedDebt: BigNumber;
+    collateralization?: Collateralization;
+    // Conditions that make the migration revert.
+    errors: string[];
+    warnings: string[];
+}
+
+// The fee of a Uniswap V3 flash loan (`FullMath.mulDivRoundingUp(amount, fee, 1e6)`).
+export function flashFee(amount: BigNumber, poolFee: number): BigNumber {
+    return amount
+        .mul(poolFee)
+        .add(FEE_DENOMINATOR - 1)
+        .div(FEE_DENOMINATOR);
+}
+
+// The most a borrow leg may spend of the flash token: the swap limit, or the borrow itself for conversions.
+export function borrowLegCost(leg: PlannedLeg): BigNumber {
+    return leg.action === "swap" ? (leg.limit as BigNumber) : leg.amount;
+}
+
+/**
+ * The flash amount that covers every borrow leg of a planned migration.
+ */
+export function requiredFlashAmount(legs: PlannedLeg[], bufferBps = 0): BigNumber {
+    const total = legs
+        .filter((leg) => leg.kind === "borrow")
+        .reduce((sum, leg) => sum.add(borrowLegCost(leg)), constants.Zero);
+    return total
+        .mul(BPS + bufferBps)
+        .add(BPS - 1)
+        .div(BPS);
+}
+
+/**
+ * Mirrors `Comet.isBorrowCollateralized`: the debt must not exceed the sum of the collateral values weighted by
+ * their borrow collateral factors.
+ */
+export function assessCollateralization(
+    debt: BigNumber,
+    basePrice: BigNumber,
+    baseScale: BigNumber,
+    collaterals: CollateralValue[]
+): Collateralization {
+    const borrowValue = debt.gt(0) ? debt.mul(basePrice).div(baseScale) : constants.Zero;
+    const borrowCapacity = collaterals.reduce(
+        (sum, { amount, price, scale, borrowCollateralFactor }) =>
+            sum.add(amount.mul(price).div(scale).mul(borrowCollateralFactor).div(FACTOR_SCALE)),
+        constants.Zero
+    );
+    return { borrowCapacity, borrowValue, isCollateralized: borrowValue.lte(borrowCapacity) };
+}
+
+interface AssetInfo {
+    asset: string;
+    priceFeed: string;
+    scale: BigNumber;
+    borrowCollateralFactor: BigNumber;
+}
+
+async function estimateCollateralization(
+    provider: providers.Provider,
+    comet: string,
+    user: string,
+    expectedDebt: BigNumber,
+    incoming: Map<string, BigNumber>
+): Promise<Collateralization> {
+    const contract = new Contract(comet, COMET_ABI, provider);
+    const numAssets = await read<number>(contract, "numAssets");
+    const infos = await Promise.all(
+        Array.from({ length: numAssets }, (_, i) => read<AssetInfo>(contract, "getAssetInfo", i))
+    );
+    const [basePriceFeed, baseScale] = await Promise.all([
+        read<string>(contract, "baseTokenPriceFeed"),
+        read<BigNumber>(contract, "baseScale")
+    ]);
+
+    const collaterals = await Promise.all(
+        infos.map(async ({ asset, priceFeed, scale, borrowCollateralFactor }) => {
+            const balance = await read<BigNumber>(contract, "collateralBalanceOf", user, asset);
+            return {
+                asset,
+                amount: balance.add(incoming.get(utils.getAddress(asset)) ?? 0),
+                price: await read<BigNumber>(contract, "getPrice", priceFeed),
+                scale,
+                borrowCollateralFactor
+            };
+        })
+    );
+    const basePrice = await read<BigNumber>(contract, "getPrice", basePriceFeed);
+
+    return assessCollateralization(expectedDebt, basePrice, baseScale, collaterals);
+}
+
+/**
+ * Computes the flash amount of a planned migration and checks it against the flash loan pool: the `isToken0` side of
+ * `FlashData` and the liquidity of the flash token in the pool. Unless disabled, it also estimates whether the Comet
+ * account of the user would be collateralized after the migration, taking the swap limits as the worst case.
+ */
+export async function estimateFlashAmount(
+    provider: providers.Provider,
+    planned: PlannedMigration,
+    options: FlashEstimateOptions = {}
+): Promise<FlashEstimate> {
+    const { plan, legs } = planned;
+    if (!plan.migrator) throw new Error("The plan does not name the migrator");
+    if (!plan.user) throw new Error("The plan does not name the user");
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const migrator = new Contract(plan.migrator, MIGRATOR_V2_ABI, provider);
+    const comet = new Contract(plan.comet, COMET_ABI, provider);
+    const [flashData, usds, baseToken] = await Promise.all([
+        read<{ liquidityPool: string; baseToken: string; isToken0: boolean }>(migrator, "getFlashData", plan.comet),
+        read<string>(migrator, "USDS").then(utils.getAddress),
+        read<string>(comet, "baseToken").then(utils.getAddress)
+    ]);
+    const flashToken = utils.getAddress(flashData.baseToken);
+    const pool = new Contract(flashData.liquidityPool, UNISWAP_V3_POOL_ABI, provider);
+
+    const [token0, token1] = await Promise.all([read<string>(pool, "token0"), read<string>(pool, "token1")]);
+    const poolToken = utils.getAddress(flashData.isToken0 ? token0 : token1);
+    if (poolToken !== flashToken) {
+        errors.push(`FlashData.isToken0 is ${String(flashData.isToken0)}, but the flash token is not that pool token`);
+    }
+
+    const poolFee = options.poolFee ?? (await read<number>(pool, "fee"));
+    const flashAmount = requiredFlashAmount(legs, options.bufferBps);
+    const fee = flashFee(flashAmount, poolFee);
+
+    const token = new Contract(flashToken, ERC20_ABI, provider);
+    const availableLiquidity = await read<BigNumber>(token, "balanceOf", flashData.liquidityPool);
+    if (flashAmount.gt(availableLiquidity)) {
+        errors.push(
+            `The pool holds ${availableLiquidity.toString()} of the flash token, ${flashAmount.toString()} requested`
+        );
+    }
+
+    // Collaterals that end up in the base token repay the new debt, the other ones are supplied as collateral.
+    const isBase = (tokenOut: string) => tokenOut === baseToken || (baseToken === usds && tokenOut === flashToken);
+    const incoming = new Map<string, BigNumber>();
+    let baseIn = constants.Zero;
+    for (const leg of legs.filter(({ kind }) => kind === "collateral")) {
+        const amount = leg.action === "swap" ? (leg.limit as BigNumber) : leg.amount;
+        if (isBase(leg.tokenOut)) baseIn = baseIn.add(amount);
+        else incoming.set(leg.tokenOut, (incoming.get(leg.tokenOut) ?? constants.Zero).add(amount));
+    }
+
+    const [borrowBalance, supplyBalance] = await Promise.all([
+        read<BigNumber>(comet, "borrowBalanceOf", plan.user),
+        read<BigNumber>(comet, "balanceOf", plan.user)
+    ]);
+    const borrowCost = legs
+        .filter(({ kind }) => kind === "borrow")
+        .reduce((sum, leg) => sum.add(borrowLegCost(leg)), constants.Zero);
+    const expectedDebt = borrowBalance.sub(supplyBalance).add(borrowCost).add(fee).sub(baseIn);
+
+    let collateralization: Collateralization | undefined;
+    if (options.checkCollateralization ?? true) {
+        collateralization = await estimateCollateralization(provider, plan.comet, plan.user, expectedDebt, incoming);
+        if (!collateralization.isCollateralized) {
+            warnings.push(
+                "The Comet account would not be collateralized after the migration: " +
+                    `borrow value ${collateralization.borrowValue.toString()}, ` +
+                    `capacity ${collateralization.borrowCapacity.toString()}`
+            );
+        }
+    }
+
+    return {
+        plan: { ...plan, flashAmount: flashAmount.toString() },
+        flashToken,
+        liquidityPool: utils.getAddress(flashData.liquidityPool),
+        isToken0: flashData.isToken0,
+        poolFee,
+        flashAmount,
+        flashFee: fee,
+        availableLiquidity,
+        expectedDebt,
+        collateralization,
+        errors,
+        warnings
+    };
+}
@@ -0,0 +1,11 @@
+export * from "./abis";
+export * from "./addresses";
+export * from "./admin";
+export * from "./encoding";
+export * from "./errors";
+export * from "./flash";
+export * from "./path";
+export * from "./plan";
+export * from "./planner";
+export * from "./positions";
+export * from "./simulation";
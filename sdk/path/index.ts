@@ -0,0 +1,168 @@
+import { constants, utils } from "ethers";
+import type { BytesLike } from "ethers";
+
+const { hexlify, hexZeroPad, hexDataSlice, hexDataLength, concat, getAddress } = utils;
+
+/*
+ * Uniswap V3 swap paths: `tokenIn | fee | token | fee | ... | tokenOut`, where every token takes 20 bytes and every
+ * fee takes 3 bytes. The layout is the one parsed by `SwapModule._decodeTokenIn`, `_decodeTokenOut` and
+ * `_decodeConnectorTokens`.
+ *
+ * NOTE. For exact output swaps (borrow positions) Uniswap expects the path in reverse order: it starts with the token
+ * that is received and ends with the token that is spent. See `reversePath`.
+ */
+
+const ADDRESS_SIZE = 20;
+const FEE_SIZE = 3;
+const HOP_SIZE = ADDRESS_SIZE + FEE_SIZE;
+// `tokenIn | fee | tokenOut`.
+const SINGLE_HOP_PATH_LENGTH = ADDRESS_SIZE + HOP_SIZE;
+
+// The length of the DAI ⇄ USDS conversion path (`CONVERT_PATH_LENGTH` in the adapters): two addresses, no fee.
+export const CONVERT_PATH_LENGTH = 2 * ADDRESS_SIZE;
+
+// Fee tiers enabled in the Uniswap V3 factory (`UniswapV3PathFinder.availableFeeTiers`).
+export const FEE_TIERS = [100, 500, 3000, 10000] as const;
+
+export type FeeTier = (typeof FEE_TIERS)[number];
+
+// A token of the path and the fee of the pool to the next token. The last hop has no fee.
+export interface PathHop {
+    token: string;
+    fee?: FeeTier;
+}
+
+export interface DecodedPath {
+    tokens: string[];
+    fees: FeeTier[];
+}
+
+export function isFeeTier(fee: number): fee is FeeTier {
+    return (FEE_TIERS as readonly number[]).includes(fee);
+}
+
+// Converts a fee tier to its 3-byte representation in a path (e.g. `3000` -> `0x000bb8`).
+export function feeToHex(fee: FeeTier): string {
+    if (!isFeeTier(fee)) throw new Error(`Unsupported fee tier: ${String(fee)}`);
+    return hexZeroPad(hexlify(fee), FEE_SIZE);
+}
+
+/**
+ * Encodes a swap path from a list of hops, e.g. `[{ token: WBTC, fee: 3000 }, { token: USDC }]`.
+ */
+export function encodePath(hops: PathHop[]): string {
+    if (hops.length < 2) throw new Error("A swap path needs at least two tokens");
+
+    const parts: string[] = [];
+    hops.forEach(({ token, fee }, i) => {
+        const isLast = i === hops.length - 1;
+        if (isLast && fee !== undefined) throw new Error("The last hop of a swap path must not have a fee");
+        if (!isLast && fee === undefined) throw new Error(`Missing fee after token #${i} (${token})`);
+
+        parts.push(getAddress(token));
+        if (!isLast) parts.push(feeToHex(fee as FeeTier));
+    });
+
+    return hexlify(concat(parts));
+}
+
+// Shorthand for a single-pool path.
+export function encodeSingleHopPath(tokenIn: string, fee: FeeTier, tokenOut: string): string {
+    return encodePath([{ token: tokenIn, fee }, { token: tokenOut }]);
+}
+
+/**
+ * Decodes a swap path into its tokens and fees. Throws if the path is malformed or uses an unsupported fee tier.
+ */
+export function decodePath(path: BytesLike): DecodedPath {
+    const length = hexDataLength(hexlify(path));
+    if (length < SINGLE_HOP_PATH_LENGTH || (length - ADDRESS_SIZE) % HOP_SIZE !== 0) {
+        throw new Error(`Invalid swap path length: ${length} bytes`);
+    }
+
+    const tokens: string[] = [];
+    const fees: FeeTier[] = [];
+    for (let offset = 0; ; offset += HOP_SIZE) {
+        tokens.push(getAddress(hexDataSlice(path, offset, offset + ADDRESS_SIZE)));
+        if (offset + ADDRESS_SIZE === length) break;
+
+        const fee = parseInt(hexDataSlice(path, offset + ADDRESS_SIZE, offset + HOP_SIZE), 16);
+        if (!isFeeTier(fee)) throw new Error(`Unsupported fee tier in swap path: ${fee}`);
+        fees.push(fee);
+    }
+
+    return { tokens, fees };
+}
+
+// Converts a decoded path back to hops (the inverse of `encodePath`).
+export function toHops({ tokens, fees }: DecodedPath): PathHop[] {
+    return tokens.map((token, i) => (i < fees.length ? { token, fee: fees[i] } : { token }));
+}
+
+/**
+ * Reverses a swap path. Exact output swaps take the path from the output token to the input token.
+ */
+export function reversePath(path: BytesLike): string {
+    const { tokens, fees } = decodePath(path);
+    return encodePath(toHops({ tokens: [...tokens].reverse(), fees: [...fees].reverse() }));
+}
+
+/*
+ * Mirrors of the `SwapModule` helpers. They read raw bytes and accept any path, including the conversion path.
+ */
+export function getTokenIn(path: BytesLike): string {
+    return getAddress(hexDataSlice(path, 0, ADDRESS_SIZE));
+}
+
+export function getTokenOut(path: BytesLike): string {
+    const length = hexDataLength(hexlify(path));
+    return getAddress(hexDataSlice(path, length - ADDRESS_SIZE, length));
+}
+
+// Intermediate tokens of a multi-hop path. A single-hop (or a shorter) path has no connectors.
+export function getConnectorTokens(path: BytesLike): string[] {
+    const length = hexDataLength(hexlify(path));
+    if (length <= SINGLE_HOP_PATH_LENGTH) return [];
+    return decodePath(path).tokens.slice(1, -1);
+}
+
+/*
+ * DAI ⇄ USDS conversion paths.
+ *
+ * The adapters treat a 40-byte path `DAI | USDS` or `USDS | DAI` as a 1:1 conversion through the `DaiUsds` converter
+ * instead of a Uniswap swap. It is the same value `MigratorV2.getEncodedDaiToUsdsConversionPath()` and
+ * `MigratorV2.getEncodedUsdsToDaiConversionPath()` return.
+ */
+export function encodeConversionPath(from: string, to: string): string {
+    if (getAddress(from) === getAddress(to)) throw new Error("Conversion path tokens must differ");
+    return hexlify(concat([getAddress(from), getAddress(to)]));
+}
+
+export function isConversionPath(path: BytesLike, dai: string, usds: string): boolean {
+    if (hexDataLength(hexlify(path)) !== CONVERT_PATH_LENGTH) return false;
+
+    const pair = [getTokenIn(path), getTokenOut(path)].sort().join();
+    return pair === [getAddress(dai), getAddress(usds)].sort().join();
+}
+
+/**
+ * Validates a path before it is put into the migration data: either a well-formed Uniswap V3 path with supported fee
+ * tiers, non-zero tokens and no repeated neighbours, or (when `dai`/`usds` are given) a DAI ⇄ USDS conversion path.
+ */
+export function validatePath(path: BytesLike, conversion?: { dai: string; usds: string }): void {
+    const length = hexDataLength(hexlify(path));
+
+    if (length === CONVERT_PATH_LENGTH) {
+        if (!conversion) throw new Error("A 40-byte path is only valid as a DAI ⇄ USDS conversion path");
+        if (!isConversionPath(path, conversion.dai, conversion.usds)) {
+            throw new Error("A 40-byte path must convert between DAI and USDS");
+        }
+        return;
+    }
+
+    const { tokens } = decodePath(path);
+    tokens.forEach((token, i) => {
+        if (token === constants.AddressZero) throw new Error(`Zero address at position #${i} of the swap path`);
+        if (i > 0 && token === tokens[i - 1]) throw new Error(`Repeated token ${token} in the swap path`);
+    });
+}
@@ -0,0 +1,75 @@
+import { Contract, constants } from "ethers";
+import type { BigNumber, providers } from "ethers";
+import { COMET_ABI, ERC20_ABI, MIGRATOR_V2_ABI, MORPHO_ABI, PROTOCOL_ADAPTER_ABI, read } from "../abis";
+import { toAmount } from "./index";
+import type { MigrationPlan } from "./index";
+
+export interface PlanCheckResult {
+    // Conditions that make `MigratorV2.migrate` revert.
+    errors: string[];
+    // Conditions that are likely mistakes but do not necessarily revert.
+    warnings: string[];
+}
+
+/**
+ * Checks the on-chain preconditions of a plan for `user`: the migrator state, the adapter and comet configuration and
+ * the permissions the user has to grant (aToken/spToken allowances, Morpho authorization and `comet.allow`).
+ */
+export async function checkMigrationPlan(
+    provider: providers.Provider,
+    plan: MigrationPlan,
+    migratorAddress: string,
+    user: string
+): Promise<PlanCheckResult> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const migrator = new Contract(migratorAddress, MIGRATOR_V2_ABI, provider);
+    const comet = new Contract(plan.comet, COMET_ABI, provider);
+
+    if (await read<boolean>(migrator, "paused")) errors.push("MigratorV2 is paused");
+
+    const adapters = await read<string[]>(migrator, "getAdapters");
+    if (!adapters.includes(plan.adapter)) errors.push(`Adapter ${plan.adapter} is not allowed (InvalidAdapter)`);
+
+    const flashData = await read<{ liquidityPool: string }>(migrator, "getFlashData", plan.comet);
+    if (flashData.liquidityPool === constants.AddressZero) {
+        errors.push(`Comet ${plan.comet} has no flash data (CometIsNotSupported)`);
+    }
+
+    if (!(await read<boolean>(comet, "isAllowed", user, migratorAddress))) {
+        errors.push(`Comet ${plan.comet} does not allow the migrator: call \`comet.allow(${migratorAddress}, true)\``);
+    }
+
+    if (plan.adapterType === "Morpho") {
+        const adapter = new Contract(plan.adapter, PROTOCOL_ADAPTER_ABI, provider);
+        const morpho = new Contract(await read<string>(adapter, "LENDING_POOL"), MORPHO_ABI, provider);
+        if (!(await read<boolean>(morpho, "isAuthorized", user, migratorAddress))) {
+            errors.push(
+                `Morpho does not authorize the migrator: call \`morpho.setAuthorization(${migratorAddress}, true)\``
+            );
+        }
+    } else {
+        for (const collateral of plan.collaterals) {
+            const address = (plan.adapterType === "AaveV3" ? collateral.aToken : collateral.spToken) as string;
+            const token = new Contract(address, ERC20_ABI, provider);
+            const balance = await read<BigNumber>(token, "balanceOf", user);
+            const required = collateral.amount === "max" ? balance : toAmount(collateral.amount);
+            const allowance = await read<BigNumber>(token, "allowance", user, migratorAddress);
+
+            if (balance.lt(required)) errors.push(`Balance of ${address} is lower than the amount to migrate`);
+            if (allowance.lt(required)) {
+                errors.push(`Allowance of ${address} is too low: call \`approve(${migratorAddress}, amount)\``);
+            }
+        }
+    }
+
+    if (plan.borrows.length > 0 && toAmount(plan.flashAmount).isZero()) {
+        warnings.push("The plan repays borrows but requests no flash loan");
+    }
+    if (plan.borrows.length === 0 && !toAmount(plan.flashAmount).isZero()) {
+        warnings.push("The plan requests a flash loan but has no borrows to repay");
+    }
+
+    return { errors, warnings };
+}
@@ -0,0 +1,224 @@
+import { BigNumber, constants, utils } from "ethers";
+import type { BigNumberish } from "ethers";
+import { encodeMigrationData, noSwapInput, noSwapOutput, swapInput, swapOutput } from "../encoding";
+import type { AdapterType, PositionByAdapter, SwapInputLimitParams, SwapOutputLimitParams } from "../encoding";
+import { encodeConversionPath, encodePath, reversePath, validatePath } from "../path";
+import type { PathHop } from "../path";
+
+/*
+ * A migration plan is the serializable (JSON/YAML) description of one `MigratorV2.migrate` call. It names tokens and
+ * markets instead of raw migration data, so it can be written by hand, produced by the planner or stored for review.
+ *
+ * Amounts are strings in the smallest units of the token, or `"max"` to migrate the whole position.
+ */
+
+export type ConversionDirection = "DAI_TO_USDS" | "USDS_TO_DAI";
+
+export interface PlanSwap {
+    // Raw encoded path. Used as-is.
+    path?: string;
+    // Hops in the trade direction. Borrow paths are reversed automatically for the exact output swap.
+    hops?: PathHop[];
+    // 1:1 conversion through the `DaiUsds` converter instead of a Uniswap swap.
+    convert?: ConversionDirection;
+    // Absolute timestamp. Defaults to the deadline passed to `buildPlanPosition`.
+    deadline?: number;
+    // Required for swaps of borrow positions.
+    amountInMaximum?: string;
+    // Required for swaps of collateral positions.
+    amountOutMinimum?: string;
+}
+
+export interface PlanBorrow {
+    // Aave and Spark variable debt token.
+    debtToken?: string;
+    // Morpho market.
+    marketId?: string;
+    amount: string;
+    swap?: PlanSwap;
+}
+
+export interface PlanCollateral {
+    // Aave.
+    aToken?: string;
+    // Spark.
+    spToken?: string;
+    // Morpho market.
+    marketId?: string;
+    amount: string;
+    swap?: PlanSwap;
+}
+
+export interface MigrationPlan {
+    adapterType: AdapterType;
+    adapter: string;
+    comet: string;
+    // Optional overrides. Tasks can take them from the command line or from the deployment records instead.
+    migrator?: string;
+    user?: string;
+    flashAmount: string;
+    borrows: PlanBorrow[];
+    collaterals: PlanCollateral[];
+}
+
+export interface BuildPlanOptions {
+    // Default deadline for the swaps that do not set their own.
+    deadline: number;
+    // `MigratorV2.DAI()` and `MigratorV2.USDS()`. Required only for conversions.
+    dai?: string;
+    usds?: string;
+}
+
+const ADAPTER_TYPES: AdapterType[] = ["AaveV3", "Spark", "Morpho"];
+
+// The field naming the position in each adapter, e.g. `aToken` for Aave collaterals.
+const COLLATERAL_KEY: Record<AdapterType, "aToken" | "spToken" | "marketId"> = {
+    AaveV3: "aToken",
+    Spark: "spToken",
+    Morpho: "marketId"
+};
+const BORROW_KEY: Record<AdapterType, "debtToken" | "marketId"> = {
+    AaveV3: "debtToken",
+    Spark: "debtToken",
+    Morpho: "marketId"
+};
+
+function fail(where: string, message: string): never {
+    throw new Error(`Invalid migration plan: ${where} ${message}`);
+}
+
+function checkAddress(value: unknown, where: string): string {
+    if (typeof value !== "string" || !utils.isAddress(value)) fail(where, "must be an address");
+    return utils.getAddress(value);
+}
+
+function checkAmount(value: unknown, where: string): string {
+    if (value === "max") return value;
+    if ((typeof value !== "string" && typeof value !== "number") || !/^\d+$/.test(String(value))) {
+        fail(where, "must be an integer amount or max");
+    }
+    return String(value);
+}
+
+function checkSwap(value: unknown, where: string, limitKey: "amountInMaximum" | "amountOutMinimum"): PlanSwap {
+    if (typeof value !== "object" || value === null) fail(where, "must be an object");
+    const swap = value as PlanSwap;
+    const kinds = [swap.path, swap.hops, swap.convert].filter((kind) => kind !== undefined).length;
+    if (kinds !== 1) fail(where, "must set exactly one of `path`, `hops` or `convert`");
+    if (swap.convert !== undefined && swap.convert !== "DAI_TO_USDS" && swap.convert !== "USDS_TO_DAI") {
+        fail(`${where}.convert`, "must be DAI_TO_USDS or USDS_TO_DAI");
+    }
+    if (swap.convert === undefined) checkAmount(swap[limitKey], `${where}.${limitKey}`);
+    return swap;
+}
+
+/**
+ * Validates an untyped plan (e.g. parsed from JSON or YAML) and returns it with checksummed addresses.
+ */
+export function parseMigrationPlan(raw: unknown): MigrationPlan {
+    if (typeof raw !== "object" || raw === null) fail("plan", "must be an object");
+    const plan = raw as Partial<MigrationPlan>;
+
+    if (!ADAPTER_TYPES.includes(plan.adapterType as AdapterType)) {
+        fail("adapterType", `must be one of ${ADAPTER_TYPES.join(", ")}`);
+    }
+    const adapterType = plan.adapterType as AdapterType;
+    if (!Array.isArray(plan.borrows)) fail("borrows", "must be a list");
+    if (!Array.isArray(plan.collaterals)) fail("collaterals", "must be a list");
+
+    const checkPosition = (key: string, value: unknown, where: string) =>
+        key === "marketId"
+            ? utils.isHexString(value, 32)
+                ? (value as string)
+                : fail(where, "must be a 32-byte market id")
+            : checkAddress(value, where);
+
+    return {
+        adapterType,
+        adapter: checkAddress(plan.adapter, "adapter"),
+        comet: checkAddress(plan.comet, "comet"),
+        ...(plan.migrator !== undefined ? { migrator: checkAddress(plan.migrator, "migrator") } : {}),
+        ...(plan.user !== undefined ? { user: checkAddress(plan.user, "user") } : {}),
+        flashAmount: checkAmount(plan.flashAmount ?? "0", "flashAmount"),
+        borrows: plan.borrows.map((borrow, i) => {
+            const key = BORROW_KEY[adapterType];
+            return {
+                [key]: checkPosition(key, borrow[key], `borrows[${i}].${key}`),
+                amount: checkAmount(borrow.amount, `borrows[${i}].amount`),
+                ...(borrow.swap ? { swap: checkSwap(borrow.swap, `borrows[${i}].swap`, "amountInMaximum") } : {})
+            };
+        }),
+        collaterals: plan.collaterals.map((collateral, i) => {
+            const key = COLLATERAL_KEY[adapterType];
+            return {
+                [key]: checkPosition(key, collateral[key], `collaterals[${i}].${key}`),
+                amount: checkAmount(collateral.amount, `collaterals[${i}].amount`),
+                ...(collateral.swap
+                    ? { swap: checkSwap(collateral.swap, `collaterals[${i}].swap`, "amountOutMinimum") }
+                    : {})
+            };
+        })
+    } as MigrationPlan;
+}
+
+export function toAmount(amount: string): BigNumber {
+    return amount === "max" ? constants.MaxUint256 : BigNumber.from(amount);
+}
+
+function planSwapPath(swap: PlanSwap, isBorrow: boolean, options: BuildPlanOptions): string {
+    if (swap.convert) {
+        if (!options.dai || !options.usds) throw new Error("DAI and USDS addresses are required for conversions");
+        const [from, to] = swap.convert === "DAI_TO_USDS" ? [options.dai, options.usds] : [options.usds, options.dai];
+        return encodeConversionPath(from, to);
+    }
+    const path = swap.hops ? encodePath(swap.hops) : utils.hexlify(swap.path as string);
+    validatePath(path, options.dai && options.usds ? { dai: options.dai, usds: options.usds } : undefined);
+    return swap.hops && isBorrow ? reversePath(path) : path;
+}
+
+function planSwapInput(swap: PlanSwap | undefined, options: BuildPlanOptions): SwapInputLimitParams {
+    if (!swap) return noSwapInput();
+    const amountInMaximum: BigNumberish = swap.convert ? 0 : toAmount(swap.amountInMaximum as string);
+    return swapInput(planSwapPath(swap, true, options), swap.deadline ?? options.deadline, amountInMaximum);
+}
+
+function planSwapOutput(swap: PlanSwap | undefined, options: BuildPlanOptions): SwapOutputLimitParams {
+    if (!swap) return noSwapOutput();
+    const amountOutMinimum: BigNumberish = swap.convert ? 0 : toAmount(swap.amountOutMinimum as string);
+    return swapOutput(planSwapPath(swap, false, options), swap.deadline ?? options.deadline, amountOutMinimum);
+}
+
+/**
+ * Turns a plan into the position structure of its adapter.
+ */
+export function buildPlanPosition<T extends AdapterType>(
+    plan: MigrationPlan & { adapterType: T },
+    options: BuildPlanOptions
+): PositionByAdapter[T] {
+    const borrows = plan.borrows.map((borrow) => ({
+        swapParams: planSwapInput(borrow.swap, options),
+        ...(plan.adapterType === "Morpho"
+            ? { marketId: borrow.marketId as string, assetsAmount: toAmount(borrow.amount) }
+            : { debtToken: borrow.debtToken as string, amount: toAmount(borrow.amount) })
+    }));
+    const collaterals = plan.collaterals.map((collateral) => ({
+        swapParams: planSwapOutput(collateral.swap, options),
+        ...(plan.adapterType === "Morpho"
+            ? { marketId: collateral.marketId as string, assetsAmount: toAmount(collateral.amount) }
+            : {
+                  [COLLATERAL_KEY[plan.adapterType]]: collateral[COLLATERAL_KEY[plan.adapterType]] as string,
+                  amount: toAmount(collateral.amount)
+              })
+    }));
+
+    // Aave names the collateral list `collaterals`, Spark and Morpho name it `collateral`.
+    return (plan.adapterType === "AaveV3"
+        ? { borrows, collaterals }
+        : { borrows, collateral: collaterals }) as unknown as PositionByAdapter[T];
+}
+
+export function encodeMigrationPlan(plan: MigrationPlan, options: BuildPlanOptions): string {
+    return encodeMigrationData(plan.adapterType, buildPlanPosition(plan, options));
+}
+
+export * from "./checks";
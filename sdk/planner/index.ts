@@ -0,0 +1,198 @@
+import { BigNumber, Contract, utils } from "ethers";
+import type { providers } from "ethers";
+import { COMET_ABI, MIGRATOR_V2_ABI, read } from "../abis";
+import type { MigrationPlan, PlanSwap, ConversionDirection } from "../plan";
+import type { DiscoveredPositions } from "../positions";
+import type { SwapQuoter } from "./quoters";
+
+export * from "./quoters";
+
+/*
+ * The planner chooses the swap of every leg of a discovered position:
+ *
+ * - borrows are repaid with the flash loan token (`FlashData.baseToken`), bought with an exact output swap;
+ * - collaterals are supplied to Comet as they are when Comet accepts the token, and are otherwise sold for the flash
+ *   loan token with an exact input swap;
+ * - DAI ⇄ USDS legs use the 1:1 converter instead of Uniswap.
+ */
+
+// 100% in basis points.
+export const BPS = 10_000;
+
+export type LegAction = "none" | "convert" | "swap";
+
+export interface PlannedLeg {
+    kind: "borrow" | "collateral";
+    // The underlying token of the position.
+    asset: string;
+    // The amount the quote is computed for.
+    amount: BigNumber;
+    action: LegAction;
+    tokenIn: string;
+    tokenOut: string;
+    // Swaps only: the estimated amount spent (borrows) or received (collaterals).
+    estimatedAmount?: BigNumber;
+    // Swaps only: `amountInMaximum` (borrows) or `amountOutMinimum` (collaterals) after the slippage tolerance.
+    limit?: BigNumber;
+}
+
+export interface PlannerOptions {
+    migrator: string;
+    adapter: string;
+    comet: string;
+    quoter: SwapQuoter;
+    // Slippage tolerance in basis points, e.g. `50` for 0.5%.
+    slippageBps: number;
+    // Comet base token and collateral assets. Read from Comet when omitted.
+    cometAssets?: string[];
+    // Migrate the discovered amounts instead of the whole positions (`"max"`).
+    exactAmounts?: boolean;
+}
+
+export interface PlannedMigration {
+    // The plan without a flash amount, see `estimateFlashAmount`.
+    plan: MigrationPlan;
+    legs: PlannedLeg[];
+    flashToken: string;
+    liquidityPool: string;
+}
+
+export function withSlippage(amount: BigNumber, slippageBps: number, roundUp: boolean): BigNumber {
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps >= BPS) {
+        throw new Error(`Invalid slippage tolerance: ${slippageBps} bps`);
+    }
+    if (!roundUp) return amount.mul(BPS - slippageBps).div(BPS);
+    return amount
+        .mul(BPS + slippageBps)
+        .add(BPS - 1)
+        .div(BPS);
+}
+
+// The base token and the collateral assets of a Comet market.
+export async function getCometAssets(provider: providers.Provider, comet: string): Promise<string[]> {
+    const contract = new Contract(comet, COMET_ABI, provider);
+    const numAssets = await read<number>(contract, "numAssets");
+    const infos = await Promise.all(
+        Array.from({ length: numAssets }, (_, i) => read<{ asset: string }>(contract, "getAssetInfo", i))
+    );
+    return [await read<string>(contract, "baseToken"), ...infos.map(({ asset }) => asset)].map((asset) =>
+        utils.getAddress(asset)
+    );
+}
+
+function conversion(tokenIn: string, tokenOut: string, dai: string, usds: string): ConversionDirection | undefined {
+    if (tokenIn === dai && tokenOut === usds) return "DAI_TO_USDS";
+    if (tokenIn === usds && tokenOut === dai) return "USDS_TO_DAI";
+    return undefined;
+}
+
+/**
+ * Plans the swaps of a discovered position for the given Comet market and returns a plan for
+ * `migrator:migrate` together with the quote of every leg.
+ */
+export async function planMigration(
+    provider: providers.Provider,
+    positions: DiscoveredPositions,
+    options: PlannerOptions
+): Promise<PlannedMigration> {
+    const migrator = new Contract(options.migrator, MIGRATOR_V2_ABI, provider);
+    const [dai, usds, flashData] = await Promise.all([
+        read<string>(migrator, "DAI").then(utils.getAddress),
+        read<string>(migrator, "USDS").then(utils.getAddress),
+        read<{ liquidityPool: string; baseToken: string }>(migrator, "getFlashData", options.comet)
+    ]);
+    const flashToken = utils.getAddress(flashData.baseToken);
+    const cometAssets = (options.cometAssets ?? (await getCometAssets(provider, options.comet))).map((asset) =>
+        utils.getAddress(asset)
+    );
+    const amount = (discovered: string) => (options.exactAmounts ? discovered : "max");
+    const legs: PlannedLeg[] = [];
+
+    const borrows = [];
+    for (const borrow of positions.borrows) {
+        const asset = utils.getAddress(borrow.asset);
+        const leg: PlannedLeg = {
+            kind: "borrow",
+            asset,
+            amount: BigNumber.from(borrow.amount),
+            action: "none",
+            tokenIn: flashToken,
+            tokenOut: asset
+        };
+        let swap: PlanSwap | undefined;
+
+        const convert = conversion(flashToken, asset, dai, usds);
+        if (convert) {
+            leg.action = "convert";
+            swap = { convert };
+        } else if (asset !== flashToken) {
+            const quote = await options.quoter.quote({
+                tokenIn: flashToken,
+                tokenOut: asset,
+                amount: leg.amount,
+                exactInput: false,
+                excludedPool: flashData.liquidityPool
+            });
+            leg.action = "swap";
+            leg.estimatedAmount = quote.estimatedAmount;
+            leg.limit = withSlippage(quote.estimatedAmount, options.slippageBps, true);
+            swap = { path: quote.path, amountInMaximum: leg.limit.toString() };
+        }
+
+        legs.push(leg);
+        borrows.push({ ...borrow, amount: amount(borrow.amount), ...(swap ? { swap } : {}) });
+    }
+
+    const collaterals = [];
+    for (const collateral of positions.collaterals) {
+        const asset = utils.getAddress(collateral.asset);
+        const leg: PlannedLeg = {
+            kind: "collateral",
+            asset,
+            amount: BigNumber.from(collateral.amount),
+            action: "none",
+            tokenIn: asset,
+            tokenOut: asset
+        };
+        let swap: PlanSwap | undefined;
+
+        // DAI is converted when Comet takes USDS: explicitly here, by default in the adapters otherwise.
+        if (asset === dai && cometAssets.includes(usds) && !cometAssets.includes(dai)) {
+            leg.action = "convert";
+            leg.tokenOut = usds;
+            swap = { convert: "DAI_TO_USDS" };
+        } else if (!cometAssets.includes(asset)) {
+            const quote = await options.quoter.quote({
+                tokenIn: asset,
+                tokenOut: flashToken,
+                amount: leg.amount,
+                exactInput: true,
+                excludedPool: flashData.liquidityPool
+            });
+            leg.action = "swap";
+            leg.tokenOut = flashToken;
+            leg.estimatedAmount = quote.estimatedAmount;
+            leg.limit = withSlippage(quote.estimatedAmount, options.slippageBps, false);
+            swap = { path: quote.path, amountOutMinimum: leg.limit.toString() };
+        }
+
+        legs.push(leg);
+        collaterals.push({ ...collateral, amount: amount(collateral.amount), ...(swap ? { swap } : {}) });
+    }
+
+    return {
+        plan: {
+            adapterType: positions.adapterType,
+            adapter: utils.getAddress(options.adapter),
+            comet: utils.getAddress(options.comet),
+            migrator: utils.getAddress(options.migrator),
+            user: positions.user,
+            flashAmount: "0",
+            borrows,
+            collaterals
+        },
+        legs,
+        flashToken,
+        liquidityPool: utils.getAddress(flashData.liquidityPool)
+    };
+}
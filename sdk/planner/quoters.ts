@@ -0,0 +1,183 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import type { providers } from "ethers";
+import { QUOTER_V2_ABI, UNISWAP_V3_FACTORY_ABI, UNISWAP_V3_PATH_FINDER_ABI, read, simulate } from "../abis";
+import { FEE_TIERS, encodePath, encodeSingleHopPath, reversePath } from "../path";
+import type { FeeTier } from "../path";
+
+export interface QuoteRequest {
+    tokenIn: string;
+    tokenOut: string;
+    // The exact amount of `tokenIn` (exact input) or of `tokenOut` (exact output).
+    amount: BigNumber;
+    exactInput: boolean;
+    // A pool the route must not use, e.g. the flash loan pool, which is locked during the migration.
+    excludedPool?: string;
+}
+
+export interface SwapQuote {
+    // Ready for the swap parameters: `tokenIn → tokenOut` for exact input, `tokenOut → tokenIn` for exact output.
+    path: string;
+    // The amount of `tokenOut` received (exact input) or of `tokenIn` spent (exact output).
+    estimatedAmount: BigNumber;
+    gasEstimate: BigNumber;
+}
+
+export interface SwapQuoter {
+    quote(request: QuoteRequest): Promise<SwapQuote>;
+}
+
+export interface PathFinderQuoterOptions {
+    // Intermediate tokens for multi-hop routes. Without connectors only single-pool routes are quoted.
+    connectors?: string[];
+    // Gas limit of a single quoter call (`maxGasEstimate` of the path finder).
+    maxGasEstimate?: number;
+    // Gas limit of the `callStatic` call to the path finder.
+    gasLimit?: number;
+}
+
+export interface QuoterV2Options {
+    // Used to skip the pools that do not exist and the excluded pool.
+    factory?: string;
+    feeTiers?: readonly FeeTier[];
+    connectors?: string[];
+}
+
+const DEFAULT_MAX_GAS_ESTIMATE = 500_000;
+const DEFAULT_GAS_LIMIT = 30_000_000;
+
+function isBetter(candidate: SwapQuote, best: SwapQuote | undefined, exactInput: boolean): boolean {
+    if (!best) return true;
+    return exactInput
+        ? candidate.estimatedAmount.gt(best.estimatedAmount)
+        : candidate.estimatedAmount.lt(best.estimatedAmount);
+}
+
+function noRoute({ tokenIn, tokenOut }: QuoteRequest): Error {
+    return new Error(`No Uniswap V3 route from ${tokenIn} to ${tokenOut}`);
+}
+
+/**
+ * Quotes through `UniswapV3PathFinder`: the best single-pool route and, when connectors are given, the best route
+ * through one of them. The path finder returns the paths already oriented for the swap type.
+ */
+export function pathFinderQuoter(
+    provider: providers.Provider,
+    pathFinder: string,
+    options: PathFinderQuoterOptions = {}
+): SwapQuoter {
+    const contract = new Contract(pathFinder, UNISWAP_V3_PATH_FINDER_ABI, provider);
+    const maxGasEstimate = options.maxGasEstimate ?? DEFAULT_MAX_GAS_ESTIMATE;
+    const overrides = { gasLimit: options.gasLimit ?? DEFAULT_GAS_LIMIT };
+
+    return {
+        async quote(request) {
+            const params = {
+                tokenIn: request.tokenIn,
+                tokenOut: request.tokenOut,
+                amountIn: request.exactInput ? request.amount : 0,
+                amountOut: request.exactInput ? 0 : request.amount,
+                excludedPool: request.excludedPool ?? constants.AddressZero,
+                maxGasEstimate
+            };
+
+            // The path finder reverts with `SwapPoolsNotFound` when there is no route.
+            const attempts = [simulate<SwapQuote>(contract, "getBestSingleSwapPath", params, overrides)];
+            if (options.connectors?.length) {
+                attempts.push(
+                    simulate<SwapQuote>(
+                        contract,
+                        "getBestMultiSwapPath",
+                        { ...params, connectors: options.connectors },
+                        overrides
+                    )
+                );
+            }
+
+            let best: SwapQuote | undefined;
+            for (const result of await Promise.allSettled(attempts)) {
+                if (result.status === "rejected") continue;
+                const { path, estimatedAmount, gasEstimate } = result.value;
+                if (isBetter({ path, estimatedAmount, gasEstimate }, best, request.exactInput)) {
+                    best = { path, estimatedAmount, gasEstimate };
+                }
+            }
+            if (!best) throw noRoute(request);
+            return best;
+        }
+    };
+}
+
+/**
+ * Quotes directly through Uniswap `QuoterV2`, trying every fee tier for single-pool routes and for the routes through
+ * the connectors (with the same fee tier for both pools).
+ */
+export function quoterV2Quoter(
+    provider: providers.Provider,
+    quoter: string,
+    options: QuoterV2Options = {}
+): SwapQuoter {
+    const contract = new Contract(quoter, QUOTER_V2_ABI, provider);
+    const factory = options.factory ? new Contract(options.factory, UNISWAP_V3_FACTORY_ABI, provider) : undefined;
+    const feeTiers = options.feeTiers ?? FEE_TIERS;
+
+    const isUsable = async (tokenA: string, tokenB: string, fee: FeeTier, excludedPool?: string) => {
+        if (!factory) return true;
+        const pool = await read<string>(factory, "getPool", tokenA, tokenB, fee);
+        return pool !== constants.AddressZero && (!excludedPool || utils.getAddress(pool) !== excludedPool);
+    };
+
+    return {
+        async quote(request) {
+            const excludedPool = request.excludedPool ? utils.getAddress(request.excludedPool) : undefined;
+            const routes: { path: string; pools: [string, string, FeeTier][] }[] = [];
+
+            for (const fee of feeTiers) {
+                routes.push({
+                    path: encodeSingleHopPath(request.tokenIn, fee, request.tokenOut),
+                    pools: [[request.tokenIn, request.tokenOut, fee]]
+                });
+                for (const connector of options.connectors ?? []) {
+                    if ([request.tokenIn, request.tokenOut].includes(connector)) continue;
+                    routes.push({
+                        path: encodePath([
+                            { token: request.tokenIn, fee },
+                            { token: connector, fee },
+                            { token: request.tokenOut }
+                        ]),
+                        pools: [
+                            [request.tokenIn, connector, fee],
+                            [connector, request.tokenOut, fee]
+                        ]
+                    });
+                }
+            }
+
+            let best: SwapQuote | undefined;
+            for (const route of routes) {
+                const usable = await Promise.all(
+                    route.pools.map(([tokenA, tokenB, fee]) => isUsable(tokenA, tokenB, fee, excludedPool))
+                );
+                if (usable.includes(false)) continue;
+
+                const path = request.exactInput ? route.path : reversePath(route.path);
+                const method = request.exactInput ? "quoteExactInput" : "quoteExactOutput";
+                try {
+                    const [estimatedAmount, , , gasEstimate] = await simulate<[BigNumber, unknown, unknown, BigNumber]>(
+                        contract,
+                        method,
+                        path,
+                        request.amount
+                    );
+                    if (estimatedAmount.isZero()) continue;
+                    if (isBetter({ path, estimatedAmount, gasEstimate }, best, request.exactInput)) {
+                        best = { path, estimatedAmount, gasEstimate };
+                    }
+                } catch {
+                    // The quoter reverts for the routes without liquidity.
+                }
+            }
+            if (!best) throw noRoute(request);
+            return best;
+        }
+    };
+}
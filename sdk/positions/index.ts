@@ -0,0 +1,205 @@
+import { BigNumber, Contract, utils } from "ethers";
+import type { providers } from "ethers";
+import { MORPHO_ABI, POOL_DATA_PROVIDER_ABI, PROTOCOL_ADAPTER_ABI, read } from "../abis";
+import type { AdapterType } from "../encoding";
+import type { MigrationPlan, PlanBorrow, PlanCollateral } from "../plan";
+
+/*
+ * Discovery of the positions a user can migrate. The result uses the field names of the migration plan
+ * (`debtToken`, `aToken`, `spToken`, `marketId`, `amount`), so its entries can be put into a plan as they are.
+ *
+ * Amounts are strings in the smallest units of the underlying asset, read at the block of the provider.
+ */
+
+export interface DiscoveredBorrow extends Omit<PlanBorrow, "swap"> {
+    // The underlying token: the reserve asset (Aave, Spark) or the loan token of the market (Morpho).
+    asset: string;
+}
+
+export interface DiscoveredCollateral extends Omit<PlanCollateral, "swap"> {
+    // The underlying token: the reserve asset (Aave, Spark) or the collateral token of the market (Morpho).
+    asset: string;
+}
+
+export interface DiscoveredPositions {
+    adapterType: AdapterType;
+    user: string;
+    borrows: DiscoveredBorrow[];
+    collaterals: DiscoveredCollateral[];
+}
+
+export interface DiscoverOptions {
+    // Morpho has no on-chain registry of the markets of a user, so the markets to inspect must be listed.
+    marketIds?: string[];
+}
+
+interface UserReserveData {
+    currentATokenBalance: BigNumber;
+    currentStableDebt: BigNumber;
+    currentVariableDebt: BigNumber;
+}
+
+interface ReserveTokens {
+    aTokenAddress: string;
+    variableDebtTokenAddress: string;
+}
+
+interface MorphoMarketParams {
+    loanToken: string;
+    collateralToken: string;
+}
+
+interface MorphoPosition {
+    borrowShares: BigNumber;
+    collateral: BigNumber;
+}
+
+interface MorphoMarket {
+    totalBorrowAssets: BigNumber;
+    totalBorrowShares: BigNumber;
+}
+
+// `SharesMathLib.VIRTUAL_SHARES` and `SharesMathLib.VIRTUAL_ASSETS`.
+const VIRTUAL_SHARES = BigNumber.from(10).pow(6);
+const VIRTUAL_ASSETS = BigNumber.from(1);
+
+// `SharesMathLib.toAssetsUp`: the amount `MorphoUsdsAdapter` repays for the borrow shares.
+export function morphoSharesToAssetsUp(shares: BigNumber, totalAssets: BigNumber, totalShares: BigNumber): BigNumber {
+    const numerator = shares.mul(totalAssets.add(VIRTUAL_ASSETS));
+    const denominator = totalShares.add(VIRTUAL_SHARES);
+    return numerator.add(denominator).sub(1).div(denominator);
+}
+
+/**
+ * Lists the aToken/spToken balances and the variable debts of `user` in every reserve of an Aave V3 or Spark pool
+ * data provider. Stable debt is not listed: the adapters repay variable debt only.
+ */
+export async function discoverPoolPositions(
+    provider: providers.Provider,
+    adapterType: "AaveV3" | "Spark",
+    dataProvider: string,
+    user: string
+): Promise<DiscoveredPositions> {
+    const contract = new Contract(dataProvider, POOL_DATA_PROVIDER_ABI, provider);
+    const collateralKey = adapterType === "AaveV3" ? "aToken" : "spToken";
+
+    const reserves = await read<{ tokenAddress: string }[]>(contract, "getAllReservesTokens");
+    const entries = await Promise.all(
+        reserves.map(async ({ tokenAddress }) => {
+            const [tokens, data] = await Promise.all([
+                read<ReserveTokens>(contract, "getReserveTokensAddresses", tokenAddress),
+                read<UserReserveData>(contract, "getUserReserveData", tokenAddress, user)
+            ]);
+            return { asset: utils.getAddress(tokenAddress), tokens, data };
+        })
+    );
+
+    const positions: DiscoveredPositions = { adapterType, user: utils.getAddress(user), borrows: [], collaterals: [] };
+    for (const { asset, tokens, data } of entries) {
+        if (!data.currentATokenBalance.isZero()) {
+            positions.collaterals.push({
+                [collateralKey]: utils.getAddress(tokens.aTokenAddress),
+                asset,
+                amount: data.currentATokenBalance.toString()
+            });
+        }
+        if (!data.currentVariableDebt.isZero()) {
+            positions.borrows.push({
+                debtToken: utils.getAddress(tokens.variableDebtTokenAddress),
+                asset,
+                amount: data.currentVariableDebt.toString()
+            });
+        }
+    }
+    return positions;
+}
+
+/**
+ * Lists the collateral and the borrow (converted from shares to assets) of `user` in the given Morpho markets.
+ */
+export async function discoverMorphoPositions(
+    provider: providers.Provider,
+    morpho: string,
+    user: string,
+    marketIds: string[]
+): Promise<DiscoveredPositions> {
+    const contract = new Contract(morpho, MORPHO_ABI, provider);
+    const entries = await Promise.all(
+        marketIds.map(async (marketId) => {
+            const [params, position, market] = await Promise.all([
+                read<MorphoMarketParams>(contract, "idToMarketParams", marketId),
+                read<MorphoPosition>(contract, "position", marketId, user),
+                read<MorphoMarket>(contract, "market", marketId)
+            ]);
+            return { marketId: utils.hexlify(marketId), params, position, market };
+        })
+    );
+
+    const positions: DiscoveredPositions = {
+        adapterType: "Morpho",
+        user: utils.getAddress(user),
+        borrows: [],
+        collaterals: []
+    };
+    for (const { marketId, params, position, market } of entries) {
+        if (!position.borrowShares.isZero()) {
+            const assets = morphoSharesToAssetsUp(
+                position.borrowShares,
+                market.totalBorrowAssets,
+                market.totalBorrowShares
+            );
+            positions.borrows.push({ marketId, asset: utils.getAddress(params.loanToken), amount: assets.toString() });
+        }
+        if (!position.collateral.isZero()) {
+            positions.collaterals.push({
+                marketId,
+                asset: utils.getAddress(params.collateralToken),
+                amount: position.collateral.toString()
+            });
+        }
+    }
+    return positions;
+}
+
+/**
+ * Discovers the positions of `user` in the protocol an adapter migrates from, using the data provider
+ * (`DATA_PROVIDER`) or the Morpho instance (`LENDING_POOL`) the adapter itself is configured with.
+ */
+export async function discoverPositions(
+    provider: providers.Provider,
+    adapterType: AdapterType,
+    adapter: string,
+    user: string,
+    options: DiscoverOptions = {}
+): Promise<DiscoveredPositions> {
+    const contract = new Contract(adapter, PROTOCOL_ADAPTER_ABI, provider);
+
+    if (adapterType === "Morpho") {
+        const morpho = await read<string>(contract, "LENDING_POOL");
+        return discoverMorphoPositions(provider, morpho, user, options.marketIds ?? []);
+    }
+    const dataProvider = await read<string>(contract, "DATA_PROVIDER");
+    return discoverPoolPositions(provider, adapterType, dataProvider, user);
+}
+
+/**
+ * Turns discovered positions into a plan without swaps. By default every position is migrated in full (`"max"`),
+ * which also covers the interest accrued between the discovery and the migration. The `asset` fields are kept for
+ * the reader of the plan; the encoder ignores them.
+ */
+export function toMigrationPlan(
+    positions: DiscoveredPositions,
+    options: { adapter: string; comet: string; flashAmount?: string; exactAmounts?: boolean }
+): MigrationPlan {
+    const amount = (discovered: string) => (options.exactAmounts ? discovered : "max");
+
+    return {
+        adapterType: positions.adapterType,
+        adapter: utils.getAddress(options.adapter),
+        comet: utils.getAddress(options.comet),
+        user: positions.user,
+        flashAmount: options.flashAmount ?? "0",
+        borrows: positions.borrows.map((borrow) => ({ ...borrow, amount: amount(borrow.amount) })),
+        collaterals: positions.collaterals.map((collateral) => ({ ...collateral, amount: amount(collateral.amount) }))
+    };
+}
@@ -0,0 +1,240 @@
+import { BigNumber, Contract, constants, utils } from "ethers";
+import type { providers } from "ethers";
+import { COMET_ABI, ERC20_ABI, MIGRATOR_V2_ABI, MORPHO_ABI, PROTOCOL_ADAPTER_ABI, read } from "../abis";
+import { decodeError, formatErrorCall, rootCause } from "../errors";
+import type { DecodedError } from "../errors";
+import { encodeMigrationPlan, toAmount } from "../plan";
+import type { MigrationPlan } from "../plan";
+import { getCometAssets } from "../planner";
+import { morphoSharesToAssetsUp } from "../positions";
+
+/*
+ * Dry runs of a migration on a development node (a Hardhat fork): the user is impersonated, the migration is
+ * executed for real and the node is reverted to its previous state afterwards.
+ */
+
+export interface SimulationOptions {
+    migrator: string;
+    // Defaults to `plan.user`.
+    user?: string;
+    // Swap deadline for the legs without one. Defaults to 20 minutes after the latest block.
+    deadline?: number;
+    // Comet collateral assets to report. Read from Comet when omitted.
+    cometAssets?: string[];
+    gasLimit?: number;
+    // Keep the state of the node after the migration instead of reverting it.
+    keepState?: boolean;
+}
+
+export interface SourceBalance {
+    kind: "borrow" | "collateral";
+    // The debt token, aToken/spToken or Morpho market id of the plan entry.
+    position: string;
+    amount: BigNumber;
+}
+
+export interface CometBalances {
+    baseSupplied: BigNumber;
+    baseBorrowed: BigNumber;
+    collaterals: Record<string, BigNumber>;
+}
+
+export interface BalanceSnapshot {
+    source: SourceBalance[];
+    comet: CometBalances;
+}
+
+export interface MigrationExecutedEvent {
+    adapter: string;
+    user: string;
+    comet: string;
+    flashAmount: BigNumber;
+    flashFee: BigNumber;
+}
+
+export interface SimulationError {
+    // Raw revert data, when the node returned any.
+    data?: string;
+    // The error that caused the revert, i.e. the innermost decoded one.
+    name?: string;
+    args?: Record<string, string>;
+    message: string;
+    decoded?: DecodedError;
+}
+
+export interface SimulationResult {
+    success: boolean;
+    calldata: string;
+    before: BalanceSnapshot;
+    after: BalanceSnapshot;
+    gasUsed?: BigNumber;
+    // The migration transaction. It can only be traced with `keepState`, as the node is reverted otherwise.
+    transactionHash?: string;
+    event?: MigrationExecutedEvent;
+    error?: SimulationError;
+}
+
+const DEFAULT_DEADLINE_SECONDS = 1200;
+const DEFAULT_GAS_LIMIT = 15_000_000;
+// Gas money for the impersonated user.
+const MIN_USER_BALANCE = utils.parseEther("1");
+
+const migratorInterface = new utils.Interface(MIGRATOR_V2_ABI);
+
+function toSimulationError(error: unknown): SimulationError {
+    const decoded = decodeError(error);
+    if (!decoded?.name) {
+        return { data: decoded?.data, message: error instanceof Error ? error.message : String(error), decoded };
+    }
+    const cause = rootCause(decoded);
+    return { data: decoded.data, name: cause.name, args: cause.args, message: formatErrorCall(cause), decoded };
+}
+
+async function readSourceBalances(
+    provider: providers.Provider,
+    plan: MigrationPlan,
+    user: string
+): Promise<SourceBalance[]> {
+    if (plan.adapterType === "Morpho") {
+        const adapter = new Contract(plan.adapter, PROTOCOL_ADAPTER_ABI, provider);
+        const morpho = new Contract(await read<string>(adapter, "LENDING_POOL"), MORPHO_ABI, provider);
+        const borrows = plan.borrows.map(async ({ marketId }) => {
+            const [position, market] = await Promise.all([
+                read<{ borrowShares: BigNumber }>(morpho, "position", marketId, user),
+                read<{ totalBorrowAssets: BigNumber; totalBorrowShares: BigNumber }>(morpho, "market", marketId)
+            ]);
+            const amount = morphoSharesToAssetsUp(
+                position.borrowShares,
+                market.totalBorrowAssets,
+                market.totalBorrowShares
+            );
+            return { kind: "borrow" as const, position: marketId as string, amount };
+        });
+        const collaterals = plan.collaterals.map(async ({ marketId }) => {
+            const position = await read<{ collateral: BigNumber }>(morpho, "position", marketId, user);
+            return { kind: "collateral" as const, position: marketId as string, amount: position.collateral };
+        });
+        return Promise.all([...borrows, ...collaterals]);
+    }
+
+    const balanceOf = async (kind: SourceBalance["kind"], token: string) => ({
+        kind,
+        position: token,
+        amount: await read<BigNumber>(new Contract(token, ERC20_ABI, provider), "balanceOf", user)
+    });
+    return Promise.all([
+        ...plan.borrows.map(({ debtToken }) => balanceOf("borrow", debtToken as string)),
+        ...plan.collaterals.map(({ aToken, spToken }) => balanceOf("collateral", (aToken ?? spToken) as string))
+    ]);
+}
+
+async function readCometBalances(
+    provider: providers.Provider,
+    comet: string,
+    user: string,
+    assets: string[]
+): Promise<CometBalances> {
+    const contract = new Contract(comet, COMET_ABI, provider);
+    const [baseSupplied, baseBorrowed, ...balances] = await Promise.all([
+        read<BigNumber>(contract, "balanceOf", user),
+        read<BigNumber>(contract, "borrowBalanceOf", user),
+        ...assets.map((asset) => read<BigNumber>(contract, "collateralBalanceOf", user, asset))
+    ]);
+    return {
+        baseSupplied,
+        baseBorrowed,
+        collaterals: Object.fromEntries(assets.map((asset, i) => [asset, balances[i]]))
+    };
+}
+
+/**
+ * Executes a plan as its user on a development node that supports the `hardhat_*` and `evm_*` RPC methods, and
+ * reports the balances before and after, the `MigrationExecuted` event, the gas used or the decoded revert.
+ */
+export async function simulateMigration(
+    provider: providers.JsonRpcProvider,
+    plan: MigrationPlan,
+    options: SimulationOptions
+): Promise<SimulationResult> {
+    const user = utils.getAddress(options.user ?? plan.user ?? constants.AddressZero);
+    if (user === constants.AddressZero) throw new Error("The simulation needs the user of the plan");
+
+    const migrator = new Contract(options.migrator, MIGRATOR_V2_ABI, provider);
+    const [dai, usds, latestBlock] = await Promise.all([
+        read<string>(migrator, "DAI"),
+        read<string>(migrator, "USDS"),
+        provider.getBlock("latest")
+    ]);
+    const deadline = options.deadline ?? latestBlock.timestamp + DEFAULT_DEADLINE_SECONDS;
+    const calldata = migratorInterface.encodeFunctionData("migrate", [
+        plan.adapter,
+        plan.comet,
+        encodeMigrationPlan(plan, { deadline, dai, usds }),
+        toAmount(plan.flashAmount)
+    ]);
+
+    const cometAssets = options.cometAssets ?? (await getCometAssets(provider, plan.comet)).slice(1);
+    const snapshot = async (): Promise<BalanceSnapshot> => ({
+        source: await readSourceBalances(provider, plan, user),
+        comet: await readCometBalances(provider, plan.comet, user, cometAssets)
+    });
+
+    const snapshotId = (await provider.send("evm_snapshot", [])) as string;
+    try {
+        await provider.send("hardhat_impersonateAccount", [user]);
+        if ((await provider.getBalance(user)).lt(MIN_USER_BALANCE)) {
+            await provider.send("hardhat_setBalance", [user, utils.hexValue(MIN_USER_BALANCE)]);
+        }
+
+        const before = await snapshot();
+        const transaction = { from: user, to: options.migrator, data: calldata };
+
+        // A static call first: it returns the revert data without mining a failed transaction.
+        try {
+            await provider.call(transaction);
+        } catch (error) {
+            return { success: false, calldata, before, after: before, error: toSimulationError(error) };
+        }
+
+        let receipt: providers.TransactionReceipt;
+        try {
+            const tx = await provider
+                .getSigner(user)
+                .sendTransaction({ ...transaction, gasLimit: options.gasLimit ?? DEFAULT_GAS_LIMIT });
+            receipt = await tx.wait();
+        } catch (error) {
+            return { success: false, calldata, before, after: await snapshot(), error: toSimulationError(error) };
+        }
+
+        const event = receipt.logs
+            .filter(({ address }) => utils.getAddress(address) === utils.getAddress(options.migrator))
+            .map((log) => {
+                try {
+                    return migratorInterface.parseLog(log);
+                } catch {
+                    // Events outside of the SDK ABI, e.g. `OwnershipTransferred`.
+                    return undefined;
+                }
+            })
+            .find((parsed) => parsed?.name === "MigrationExecuted");
+
+        return {
+            success: true,
+            calldata,
+            before,
+            after: await snapshot(),
+            gasUsed: receipt.gasUsed,
+            transactionHash: receipt.transactionHash,
+            event: event && {
+                adapter: event.args.adapter as string,
+                user: event.args.user as string,
+                comet: event.args.comet as string,
+                flashAmount: event.args.flashAmount as BigNumber,
+                flashFee: event.args.flashFee as BigNumber
+            }
+        };
+    } finally {
+        await provider.send("hardhat_stopImpersonatingAccount", [user]);
+        if (!options.keepState) await provider.send("evm_revert", [snapshotId]);
+    }
+}
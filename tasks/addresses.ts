@@ -0,0 +1,22 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { checkAddressBook, getAddressBook } from "../sdk/addresses";
+import { resolveConfigNetwork } from "./deploy";
+
+interface CheckAddressesTaskArgs {
+    book?: string;
+}
+
+task("addresses:check", "Compares the address book of the network with the chain")
+    .addOptionalParam("book", "The network of the address book (defaults to the one of --network or of the fork)")
+    .setAction(async (args: CheckAddressesTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const book = getAddressBook(resolveConfigNetwork(hre, args.book));
+        const issues = await checkAddressBook(hre.ethers.provider, book);
+
+        console.log(`Address book of ${book.network} (chain ${book.chainId}) on ${hre.network.name}:`);
+        if (issues.length === 0) console.log("  matches the chain");
+        issues.forEach(({ entry, message }) => console.log(`  ${entry}: ${message}`));
+
+        if (issues.length > 0) throw new Error(`${issues.length} address book entries disagree with the chain`);
+    });
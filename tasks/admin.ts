@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, utils } from "ethers";
+
+import { COMET_ABI, MIGRATOR_V2_ABI, UNISWAP_V3_POOL_ABI, read } from "../sdk/abis";
+import { checkAdminCalls, describeAdminCall, encodeAdminCall, toSafeTransactionBatch } from "../sdk/admin";
+import type { AdminCall } from "../sdk/admin";
+import { stepKind } from "../scripts/deploy/utils/engine";
+import { readDeploymentParams, resolveConfigNetwork } from "./deploy";
+import { resolveMigrator } from "./migrate";
+
+interface AdminTaskArgs {
+    migrator?: string;
+    configNetwork?: string;
+    output?: string;
+}
+
+// The `multisig` of the migrator in `deploymentParams`, if the network has one.
+function configuredMultisig(hre: HardhatRuntimeEnvironment, configNetwork?: string): string | undefined {
+    try {
+        const params = readDeploymentParams(resolveConfigNetwork(hre, configNetwork));
+        const migrator = Object.entries(params).find(([name, entry]) => {
+            return stepKind((entry.contract as string | undefined) ?? name) === "migrator";
+        });
+        return migrator && utils.getAddress(migrator[1].multisig as string);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks the calls against the migrator, then sends them from the owner, or writes a Safe Transaction Builder batch
+ * when the owner is the multisig of `deploymentParams`.
+ */
+async function executeAdminCalls(hre: HardhatRuntimeEnvironment, args: AdminTaskArgs, calls: AdminCall[]) {
+    const { ethers } = hre;
+    const migratorAddress = resolveMigrator(hre, {}, args.migrator);
+    const migrator = new Contract(migratorAddress, MIGRATOR_V2_ABI, ethers.provider);
+
+    const { errors, warnings } = await checkAdminCalls(ethers.provider, migratorAddress, calls);
+    warnings.forEach((warning) => console.log(`Warning: ${warning}`));
+    errors.forEach((error) => console.log(`Error: ${error}`));
+    if (errors.length > 0) throw new Error(`${errors.length} precondition check(s) failed`);
+
+    const owner = utils.getAddress(await read<string>(migrator, "owner"));
+    if (owner === configuredMultisig(hre, args.configNetwork)) {
+        const { chainId } = await ethers.provider.getNetwork();
+        const batch = JSON.stringify(toSafeTransactionBatch(chainId, owner, migratorAddress, calls), null, 4);
+        if (args.output) {
+            fs.writeFileSync(args.output, batch);
+            console.log(`The owner is the multisig ${owner}: Safe Transaction Builder batch saved to ${args.output}`);
+        } else {
+            console.log(batch);
+        }
+        return;
+    }
+
+    const [signer] = await ethers.getSigners();
+    if (utils.getAddress(signer.address) !== owner) {
+        throw new Error(`The owner of the migrator is ${owner}, but the signer is ${signer.address}`);
+    }
+    for (const call of calls) {
+        const tx = await signer.sendTransaction({ to: migratorAddress, data: encodeAdminCall(call) });
+        const receipt = await tx.wait();
+        console.log(`${describeAdminCall(call)}: ${tx.hash} (block ${receipt.blockNumber})`);
+    }
+}
+
+function adminTask(name: string, description: string) {
+    return task(name, description)
+        .addOptionalParam("migrator", "MigratorV2 address (defaults to the deployment records)")
+        .addOptionalParam("configNetwork", "The `deploymentParams` entry holding the multisig")
+        .addOptionalParam("output", "Writes the Safe batch to a file instead of printing it");
+}
+
+adminTask("migrator:set-adapter", "Allows a protocol adapter")
+    .addParam("adapter", "Adapter address")
+    .setAction(async (args: AdminTaskArgs & { adapter: string }, hre: HardhatRuntimeEnvironment) => {
+        await executeAdminCalls(hre, args, [{ method: "setAdapter", args: [args.adapter] }]);
+    });
+
+adminTask("migrator:remove-adapter", "Removes a protocol adapter (the migrator must be paused)")
+    .addParam("adapter", "Adapter address")
+    .addFlag("pause", "Pauses the migrator before the removal and unpauses it afterwards")
+    .setAction(async (args: AdminTaskArgs & { adapter: string; pause: boolean }, hre: HardhatRuntimeEnvironment) => {
+        const removal: AdminCall = { method: "removeAdapter", args: [args.adapter] };
+        const calls: AdminCall[] = args.pause
+            ? [{ method: "pause", args: [] }, removal, { method: "unpause", args: [] }]
+            : [removal];
+        await executeAdminCalls(hre, args, calls);
+    });
+
+interface SetFlashDataTaskArgs extends AdminTaskArgs {
+    comet: string;
+    pool: string;
+    baseToken?: string;
+    isToken0?: boolean;
+}
+
+adminTask("migrator:set-flash-data", "Sets the flash loan pool of a Comet market")
+    .addParam("comet", "Comet address")
+    .addParam("pool", "Uniswap V3 pool of the flash loans")
+    .addOptionalParam("baseToken", "Token to borrow (defaults to the base token of the comet)")
+    .addOptionalParam(
+        "isToken0",
+        "Whether the token is `token0` of the pool (read from the pool)",
+        undefined,
+        types.boolean
+    )
+    .setAction(async (args: SetFlashDataTaskArgs, hre: HardhatRuntimeEnvironment) => {
+        const { provider } = hre.ethers;
+        const baseToken = utils.getAddress(
+            args.baseToken ?? (await read<string>(new Contract(args.comet, COMET_ABI, provider), "baseToken"))
+        );
+        const token0 = await read<string>(new Contract(args.pool, UNISWAP_V3_POOL_ABI, provider), "token0");
+        const isToken0 = args.isToken0 ?? utils.getAddress(token0) === baseToken;
+
+        await executeAdminCalls(hre, args, [
+            {
+                method: "setFlashData",
+                args: [args.comet, { liquidityPool: utils.getAddress(args.pool), baseToken, isToken0 }]
+            }
+        ]);
+    });
+
+adminTask("migrator:remove-flash-data", "Removes the flash loan pool of a Comet market")
+    .addParam("comet", "Comet address")
+    .setAction(async (args: AdminTaskArgs & { comet: string }, hre: HardhatRuntimeEnvironment) => {
+        await executeAdminCalls(hre, args, [{ method: "removeFlashData", args: [args.comet] }]);
+    });
+
+adminTask("migrator:pause", "Pauses the migrations").setAction(async (args: AdminTaskArgs, hre) => {
+    await executeAdminCalls(hre, args, [{ method: "pause", args: [] }]);
+});
+
+adminTask("migrator:unpause", "Resumes the migrations").setAction(async (args: AdminTaskArgs, hre) => {
+    await executeAdminCalls(hre, args, [{ method: "unpause", args: [] }]);
+});
@@ -0,0 +1,51 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { auditMigratorConfig, expectedMigratorConfig } from "../scripts/deploy/utils/audit";
+import { stepKind } from "../scripts/deploy/utils/engine";
+import { latestDeployments, readRegistry } from "../scripts/deploy/utils/registry";
+import { readDeploymentParams, resolveConfigNetwork } from "./deploy";
+
+interface AuditConfigTaskArgs {
+    name?: string;
+    migrator?: string;
+    configNetwork?: string;
+}
+
+task("migrator:audit-config", "Compares the deployed MigratorV2 instances with `deploymentParams` of the config")
+    .addOptionalParam("name", "The migrator entry to audit (defaults to all the migrators of the network)")
+    .addOptionalParam("migrator", "MigratorV2 address (defaults to the deployment records)")
+    .addOptionalParam("configNetwork", "The `deploymentParams` entry (defaults to the one of --network)")
+    .setAction(async (args: AuditConfigTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const configNetwork = resolveConfigNetwork(hre, args.configNetwork);
+        const params = readDeploymentParams(configNetwork);
+        const records = latestDeployments(readRegistry(), hre.network.name);
+
+        const names = Object.keys(params).filter((name) => {
+            const isMigrator = stepKind((params[name].contract as string | undefined) ?? name) === "migrator";
+            return isMigrator && (!args.name || name === args.name);
+        });
+        if (names.length === 0) throw new Error(`No migrator ${args.name ?? ""} in deploymentParams.${configNetwork}`);
+        if (args.migrator && names.length > 1) throw new Error("--migrator requires --name");
+
+        let driftCount = 0;
+        for (const name of names) {
+            const record = records[name];
+            const address = args.migrator ?? record?.address;
+            if (!address) {
+                console.log(`${name}: not deployed on ${hre.network.name}, skipped`);
+                continue;
+            }
+
+            const expected = expectedMigratorConfig(name, params, records);
+            const fromBlock = record && !args.migrator ? record.deployedBlock : 0;
+            const drifts = await auditMigratorConfig(hre.ethers.provider, address, expected, fromBlock);
+
+            console.log(`${name} at ${address} (deploymentParams.${configNetwork}):`);
+            if (drifts.length === 0) console.log("  matches the config");
+            drifts.forEach(({ kind, message }) => console.log(`  [${kind}] ${message}`));
+            driftCount += drifts.length;
+        }
+
+        if (driftCount > 0) throw new Error(`${driftCount} difference(s) with the config`);
+    });
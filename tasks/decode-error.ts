@@ -0,0 +1,10 @@
+import { task } from "hardhat/config";
+
+import { decodeRevertData, formatDecodedError } from "../sdk/errors";
+
+task("migrator:decode-error", "Explains the revert data of a failed migration")
+    .addPositionalParam("data", "The revert data, e.g. from a block explorer or `eth_call`")
+    .setAction(({ data }: { data: string }): Promise<void> => {
+        console.log(formatDecodedError(decodeRevertData(data)));
+        return Promise.resolve();
+    });
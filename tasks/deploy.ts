@@ -0,0 +1,110 @@
+import nodeConfig from "config";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { getAddressBook, resolveAddress } from "../sdk/addresses";
+import { DEFAULT_CREATE2_FACTORY } from "../scripts/deploy/utils/create2";
+import type { Create2Options } from "../scripts/deploy/utils/create2";
+import { CONFIG_NETWORKS, runDeployment } from "../scripts/deploy/utils/engine";
+import type { ContractParams } from "../scripts/deploy/utils/engine";
+
+// The `deploymentParams` entry of the network: the one given, the one of the Hardhat network or of the fork.
+export function resolveConfigNetwork(hre: HardhatRuntimeEnvironment, configNetwork?: string): string {
+    if (configNetwork) return configNetwork;
+    if (CONFIG_NETWORKS[hre.network.name]) return CONFIG_NETWORKS[hre.network.name];
+    return ["hardhat", "localhost"].includes(hre.network.name)
+        ? process.env.npm_config_fork_network ?? "ethereum"
+        : hre.network.name;
+}
+
+export function readDeploymentParams(configNetwork: string): Record<string, ContractParams> {
+    const deploymentParams = nodeConfig.util.toObject(nodeConfig.get("deploymentParams")) as Record<
+        string,
+        Record<string, ContractParams> | undefined
+    >;
+    const params = deploymentParams[configNetwork];
+    if (!params) throw new Error(`No deploymentParams for "${configNetwork}"`);
+    return resolveAddressReferences(params, configNetwork) as Record<string, ContractParams>;
+}
+
+// Replaces the `@<entry>` strings of the params, e.g. `@uniswap.router`, with the address of the entry in the address
+// book of the network.
+function resolveAddressReferences(value: unknown, configNetwork: string): unknown {
+    if (typeof value === "string" && value.startsWith("@")) {
+        return resolveAddress(getAddressBook(configNetwork), value.slice(1));
+    }
+    if (Array.isArray(value)) return value.map((item) => resolveAddressReferences(item, configNetwork));
+    if (typeof value === "object" && value !== null) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, resolveAddressReferences(item, configNetwork)])
+        );
+    }
+    return value;
+}
+
+// The CREATE2 factory and salt version of the config, with the defaults for the missing fields.
+export function readCreate2Options(overrides: Partial<Create2Options> = {}): Create2Options {
+    const create2 = nodeConfig.has("create2")
+        ? (nodeConfig.util.toObject(nodeConfig.get("create2")) as Partial<Create2Options>)
+        : {};
+    return { factory: DEFAULT_CREATE2_FACTORY, version: "1", ...create2, ...overrides };
+}
+
+interface DeployTaskArgs {
+    only?: string;
+    configNetwork?: string;
+    dryRun: boolean;
+    verify: boolean;
+    create2: boolean;
+    create2Factory?: string;
+    saltVersion?: string;
+}
+
+task("migrator:deploy", "Deploys the adapters and then MigratorV2 from `deploymentParams` of the config")
+    .addOptionalParam("only", "Comma-separated contract names to deploy, e.g. TestMigratorV2")
+    .addOptionalParam("configNetwork", "The `deploymentParams` entry (defaults to the one of --network)")
+    .addFlag("dryRun", "Prints what would be deployed without sending transactions")
+    .addFlag("verify", "Verifies the deployed contracts on the block explorer")
+    .addFlag("create2", "Deploys through the CREATE2 factory at addresses known in advance on this network")
+    .addOptionalParam("create2Factory", "The CREATE2 factory (defaults to `create2.factory` of the config)")
+    .addOptionalParam("saltVersion", "The version of the CREATE2 salts (defaults to `create2.version` of the config)")
+    .setAction(async (args: DeployTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const configNetwork = resolveConfigNetwork(hre, args.configNetwork);
+        const params = readDeploymentParams(configNetwork);
+
+        const [deployer] = await hre.ethers.getSigners();
+        console.log(`Deployer: ${deployer.address}`);
+        console.log(`Network:  ${hre.network.name} (deploymentParams.${configNetwork})`);
+
+        const create2 = args.create2
+            ? readCreate2Options({
+                  ...(args.create2Factory ? { factory: args.create2Factory } : {}),
+                  ...(args.saltVersion ? { version: args.saltVersion } : {})
+              })
+            : undefined;
+        if (create2) console.log(`CREATE2:  factory ${create2.factory}, salt version ${create2.version}`);
+
+        const results = await runDeployment(hre, {
+            params,
+            only: args.only?.split(",").map((name) => name.trim()),
+            dryRun: args.dryRun,
+            verify: args.verify,
+            create2,
+            log: (message) => console.log(message)
+        });
+
+        const deployed = results.filter(({ status }) => status === "deployed").length;
+        const skipped = results.filter(({ status }) => status === "skipped").length;
+        if (create2) {
+            // The constructor arguments are part of the creation code: the addresses hold for this network only.
+            console.log(`\nCREATE2 addresses on ${hre.network.name} (deterministic for this network only):`);
+            results
+                .filter(({ predictedAddress }) => predictedAddress)
+                .forEach(({ name, predictedAddress }) => console.log(`  ${name}: ${predictedAddress as string}`));
+        }
+        const unverifiable = results.filter((result) => result.unverifiable).map(({ name }) => name);
+        if (unverifiable.length > 0) {
+            console.log(`\nKept without checking them against the config: ${unverifiable.join(", ")}.`);
+        }
+        console.log(`\nDeployed ${deployed}, up to date ${skipped}, planned ${results.length - deployed - skipped}.`);
+    });
@@ -0,0 +1,58 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { getAt, list, readRegistry } from "../scripts/deploy/utils/registry";
+import type { DeploymentListing } from "../scripts/deploy/utils/registry";
+
+interface DeploymentsListTaskArgs {
+    name?: string;
+    all: boolean;
+    history: boolean;
+    block?: number;
+    json: boolean;
+}
+
+function formatListing({ network, name, entry, revision, isLatest }: DeploymentListing): string {
+    const details = [
+        `block ${entry.deployedBlock}`,
+        entry.txHash && `tx ${entry.txHash}`,
+        entry.deployer && `by ${entry.deployer}`,
+        entry.gitCommit && `commit ${entry.gitCommit.slice(0, 10)}`,
+        entry.compiler && `solc ${entry.compiler.version}`,
+        entry.replaces && `replaces ${entry.replaces}`
+    ].filter(Boolean);
+    const tag = isLatest ? "" : ` (revision ${revision})`;
+    return `${network} ${name}${tag}: ${entry.address}\n    ${details.join(", ")}`;
+}
+
+task("deployments:list", "Lists the deployments of the registry")
+    .addOptionalParam("name", "Only this contract entry, e.g. TestMigratorV2")
+    .addFlag("all", "Every network instead of --network only")
+    .addFlag("history", "Every revision instead of the latest deployments only")
+    .addOptionalParam("block", "The deployments live at this block", undefined, types.int)
+    .addFlag("json", "Prints the entries as JSON")
+    .setAction((args: DeploymentsListTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const registry = readRegistry();
+        const network = args.all ? undefined : hre.network.name;
+        let listings = list(registry, { network, name: args.name, history: args.history });
+
+        if (args.block !== undefined) {
+            // The revision of every contract that was live at the block.
+            const block = args.block;
+            listings = list(registry, { network, name: args.name }).flatMap((listing) => {
+                const entry = getAt(registry, listing.network, listing.name, block);
+                if (!entry) return [];
+                const revision = registry.networks[listing.network][listing.name].indexOf(entry);
+                return [{ ...listing, entry, revision, isLatest: revision === listing.revision }];
+            });
+        }
+
+        if (args.json) {
+            console.log(JSON.stringify(listings, null, 4));
+        } else if (listings.length === 0) {
+            console.log(`No deployments${args.all ? "" : ` on ${hre.network.name}`}`);
+        } else {
+            listings.forEach((listing) => console.log(formatListing(listing)));
+        }
+        return Promise.resolve();
+    });
@@ -0,0 +1,85 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { BigNumber } from "ethers";
+
+import { discoverFlashData } from "../sdk/flash";
+import type { FlashPoolCandidate } from "../sdk/flash";
+import { schemaFor } from "../scripts/deploy/utils/schema";
+import type { ContractParams } from "../scripts/deploy/utils/engine";
+import { readDeploymentParams, resolveConfigNetwork } from "./deploy";
+
+interface DiscoverFlashDataTaskArgs {
+    comet: string;
+    factory?: string;
+    pairTokens?: string;
+    swapPaths?: string;
+    excludePools?: string;
+    minLiquidity?: string;
+    configNetwork?: string;
+    output?: string;
+}
+
+const list = (value?: string) => (value ? value.split(",").map((entry) => entry.trim()) : []);
+
+// The first entry of the network with the given field, among the entries of a contract.
+function configField(params: Record<string, ContractParams>, contract: string, field: string): string | undefined {
+    const entry = Object.entries(params).find(([name, entryParams]) => {
+        return schemaFor((entryParams.contract as string | undefined) ?? name) === schemaFor(contract);
+    });
+    return entry?.[1][field] as string | undefined;
+}
+
+function formatCandidate(candidate: FlashPoolCandidate): string {
+    const { pool, flashToken, pairToken, fee, isToken0, liquidity, excludedReason } = candidate;
+    const reason = excludedReason ? ` (${excludedReason})` : "";
+    const side = `isToken0 ${String(isToken0)}`;
+    return `${pool} ${flashToken}/${pairToken} fee ${fee} ${side} liquidity ${liquidity.toString()}${reason}`;
+}
+
+task("migrator:discover-flash-data", "Finds the Uniswap V3 flash loan pool of a Comet market")
+    .addParam("comet", "Comet address")
+    .addOptionalParam("factory", "UniswapV3Factory (defaults to the one of UniswapV3PathFinder in the config)")
+    .addOptionalParam("pairTokens", "Comma-separated tokens to pair with the base token, besides the collaterals")
+    .addOptionalParam("swapPaths", "Comma-separated swap paths of the adapters, whose pools are excluded")
+    .addOptionalParam("excludePools", "Comma-separated pools to exclude")
+    .addOptionalParam("minLiquidity", "Minimum balance of the flash token in the pool, in its smallest unit")
+    .addOptionalParam("configNetwork", "The `deploymentParams` entry (defaults to the one of --network)")
+    .addOptionalParam("output", "Writes the FlashData entry to a file instead of printing it")
+    .setAction(async (args: DiscoverFlashDataTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        let params: Record<string, ContractParams> = {};
+        try {
+            params = readDeploymentParams(resolveConfigNetwork(hre, args.configNetwork));
+        } catch {
+            // The options are enough without a config.
+        }
+
+        const factory = args.factory ?? configField(params, "UniswapV3PathFinder", "factory");
+        if (!factory) throw new Error("No UniswapV3PathFinder in the config: set --factory");
+        const dai = configField(params, "MigratorV2", "dai");
+        const usds = configField(params, "MigratorV2", "usds");
+
+        const discovery = await discoverFlashData(hre.ethers.provider, args.comet, {
+            factory,
+            pairTokens: list(args.pairTokens),
+            swapPaths: list(args.swapPaths),
+            excludedPools: list(args.excludePools),
+            minLiquidity: args.minLiquidity ? BigNumber.from(args.minLiquidity) : undefined,
+            dai,
+            usds
+        });
+
+        console.log(`Comet ${discovery.comet}, base token ${discovery.baseToken}`);
+        console.log("Candidates:");
+        discovery.candidates.forEach((candidate) => console.log(`  ${formatCandidate(candidate)}`));
+        if (discovery.excluded.length > 0) console.log("Excluded:");
+        discovery.excluded.forEach((candidate) => console.log(`  ${formatCandidate(candidate)}`));
+
+        const json = JSON.stringify({ comet: discovery.comet, flashData: discovery.flashData }, null, 4);
+        if (args.output) {
+            fs.writeFileSync(args.output, json);
+            console.log(`Saved to ${args.output}`);
+        } else {
+            console.log(json);
+        }
+    });
@@ -0,0 +1,67 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { currentGitCommit } from "../scripts/deploy/utils/registry";
+import { FORK_TEST_REPORT_VERSION, summarizeForkTests, writeForkTestReport } from "../scripts/fork-tests/report";
+import type { ForkTestReport } from "../scripts/fork-tests/report";
+import { FORK_NETWORKS, forkTestJobs, runForkTestJobs } from "../scripts/fork-tests/runner";
+import { DEFAULT_RPC_CACHE_PORT } from "../scripts/rpc-cache/proxy";
+
+interface ForkTestTaskArgs {
+    networks: string;
+    suites: string;
+    parallel: number;
+    grep?: string;
+    out: string;
+}
+
+const list = (value: string) => value.split(",").map((item) => item.trim());
+
+task("fork:test", "Runs the fork tests of several networks in parallel and writes a combined report")
+    .addOptionalParam("networks", "Comma-separated networks", FORK_NETWORKS.join(","))
+    .addOptionalParam("suites", "Comma-separated suites: AaveV3, Spark, Morpho, Scenarios", "AaveV3,Spark,Morpho")
+    .addOptionalParam("parallel", "Number of Hardhat processes at a time", 2, types.int)
+    .addOptionalParam("grep", "Only run the tests whose title matches")
+    .addOptionalParam("out", "Report path without extension: writes .json and .xml", "fork-report")
+    .setAction(async (args: ForkTestTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const networks = list(args.networks);
+        const unknown = networks.find((network) => !FORK_NETWORKS.includes(network));
+        if (unknown) throw new Error(`Unknown network "${unknown}", expected one of ${FORK_NETWORKS.join(", ")}`);
+
+        const jobs = forkTestJobs(hre.config.paths.root, networks, list(args.suites));
+        if (!jobs.length) throw new Error("No fork test suite for these networks");
+        await hre.run("compile", { quiet: true });
+
+        console.log(`Running ${jobs.length} suites, ${args.parallel} at a time`);
+        const startedAt = Date.now();
+        const suites = await runForkTestJobs(hre.config.paths.root, jobs, {
+            parallel: args.parallel,
+            grep: args.grep,
+            // Above the port of a proxy of the current process.
+            cachePort: DEFAULT_RPC_CACHE_PORT + 1,
+            log: (line) => console.log(line)
+        });
+
+        const report: ForkTestReport = {
+            version: FORK_TEST_REPORT_VERSION,
+            gitCommit: currentGitCommit(),
+            createdAt: new Date().toISOString(),
+            durationMs: Date.now() - startedAt,
+            summary: summarizeForkTests(suites.flatMap(({ tests }) => tests)),
+            suites
+        };
+        writeForkTestReport(args.out, report);
+
+        console.log();
+        for (const suite of suites) {
+            const { passed, failed, pending, gasUsed } = summarizeForkTests(suite.tests);
+            const duration = (suite.durationMs / 1000).toFixed(1);
+            console.log(
+                `  ${suite.network}/${suite.suite}: ${passed} passed, ${failed} failed, ${pending} pending ` +
+                    `(${duration}s, ${gasUsed} gas)`
+            );
+        }
+        console.log(`Report written to ${args.out}.json and ${args.out}.xml`);
+
+        if (report.summary.failed > 0) process.exitCode = 1;
+    });
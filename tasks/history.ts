@@ -0,0 +1,138 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { utils } from "ethers";
+
+import { list, readRegistry } from "../scripts/deploy/utils/registry";
+import { indexMigratorHistory } from "../scripts/history/indexer";
+import {
+    historyFile,
+    paginate,
+    queryMigrations,
+    readHistoryStore,
+    summarizeFlashFees,
+    writeHistoryStore
+} from "../scripts/history/store";
+import type { MigrationRecord, MigratorEventRecord } from "../scripts/history/store";
+import { resolveMigrator } from "./migrate";
+
+interface HistoryTaskArgs {
+    migrator?: string;
+    fromBlock?: number;
+    store?: string;
+    batchSize: number;
+    confirmations: number;
+    offline: boolean;
+    user?: string;
+    comet?: string;
+    adapter?: string;
+    events: boolean;
+    summary: boolean;
+    page: number;
+    pageSize: number;
+    json: boolean;
+}
+
+// The block the migrator was deployed at, from any revision of the deployment registry.
+function deployedBlock(network: string, migrator: string): number | undefined {
+    return list(readRegistry(), { network, history: true }).find(
+        ({ entry }) => utils.getAddress(entry.address) === migrator
+    )?.entry.deployedBlock;
+}
+
+function formatMigration({
+    blockNumber,
+    transactionHash,
+    user,
+    comet,
+    adapter,
+    flashAmount,
+    flashFee
+}: MigrationRecord) {
+    const flash = flashAmount === "0" ? "no flash loan" : `flash loan ${flashAmount}, fee ${flashFee}`;
+    return `block ${blockNumber} ${transactionHash}\n    user ${user} -> comet ${comet} via ${adapter}, ${flash}`;
+}
+
+function formatEvent({ blockNumber, transactionHash, name, args }: MigratorEventRecord) {
+    const details = Object.entries(args).map(([key, value]) => `${key} ${value}`);
+    return `block ${blockNumber} ${transactionHash}\n    ${name} ${details.join(", ")}`;
+}
+
+task("migrator:history", "Indexes the events of the migrator and lists its past migrations")
+    .addOptionalParam("migrator", "MigratorV2 address (defaults to the deployment records)")
+    .addOptionalParam(
+        "fromBlock",
+        "First block of a new store (defaults to the deployment block)",
+        undefined,
+        types.int
+    )
+    .addOptionalParam("store", "Path to the JSON store (defaults to history/<network>/<migrator>.json)")
+    .addOptionalParam("batchSize", "Blocks per eth_getLogs request", 2000, types.int)
+    .addOptionalParam("confirmations", "Blocks behind the latest one to stop at", 0, types.int)
+    .addFlag("offline", "Queries the store without indexing new blocks")
+    .addOptionalParam("user", "Only the migrations of this user")
+    .addOptionalParam("comet", "Only the migrations into this Comet")
+    .addOptionalParam("adapter", "Only the migrations through this adapter")
+    .addFlag("events", "Lists the configuration events instead of the migrations")
+    .addFlag("summary", "Prints the migration counts and flash fees per Comet and adapter")
+    .addOptionalParam("page", "Page of the list, from 1", 1, types.int)
+    .addOptionalParam("pageSize", "Entries per page", 50, types.int)
+    .addFlag("json", "Prints the entries as JSON")
+    .setAction(async (args: HistoryTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const provider = hre.ethers.provider;
+        const network = hre.network.name;
+        const migrator = resolveMigrator(hre, {}, args.migrator);
+        const { chainId } = await provider.getNetwork();
+        const file = args.store ?? historyFile(network, migrator);
+        const store = readHistoryStore(
+            file,
+            chainId,
+            migrator,
+            args.fromBlock ?? deployedBlock(network, migrator) ?? 0
+        );
+
+        if (!args.offline) {
+            const result = await indexMigratorHistory(provider, store, {
+                batchSize: args.batchSize,
+                confirmations: args.confirmations,
+                onPage: (indexed) => writeHistoryStore(file, indexed)
+            });
+            if (result.pages > 0) {
+                console.log(
+                    `Indexed blocks ${result.fromBlock} to ${result.toBlock} in ${result.pages} page(s): ` +
+                        `${result.migrations} migration(s), ${result.events} configuration event(s)`
+                );
+            }
+        }
+
+        const migrations = queryMigrations(store, { user: args.user, comet: args.comet, adapter: args.adapter });
+        if (args.summary) {
+            const summaries = summarizeFlashFees(migrations);
+            if (args.json) {
+                console.log(JSON.stringify(summaries, null, 4));
+                return;
+            }
+            if (summaries.length === 0) console.log("No migrations");
+            for (const summary of summaries) {
+                console.log(
+                    `comet ${summary.comet} via ${summary.adapter}: ${summary.migrations} migration(s), ` +
+                        `${summary.flashLoans} flash loan(s) of ${summary.flashAmount}, fees ${summary.flashFee}`
+                );
+            }
+            return;
+        }
+
+        const entries = args.events ? store.events : migrations;
+        const page = paginate<MigrationRecord | MigratorEventRecord>(entries, args.page, args.pageSize);
+        if (args.json) {
+            console.log(JSON.stringify(page, null, 4));
+            return;
+        }
+
+        const kind = args.events ? "configuration events" : "migrations";
+        console.log(`${entries.length} ${kind} of ${migrator} up to block ${store.lastIndexedBlock}`);
+        for (const entry of page) {
+            console.log("name" in entry ? formatEvent(entry) : formatMigration(entry));
+        }
+        const pages = Math.ceil(entries.length / args.pageSize);
+        if (pages > 1) console.log(`Page ${args.page} of ${pages}`);
+    });
@@ -1,3 +1,18 @@
 import "./accounts"
+import "./addresses"
+import "./admin"
+import "./audit"
 import "./balance"
-import "./block-number"
\ No newline at end of file
+import "./block-number"
+import "./decode-error"
+import "./deploy"
+import "./deployments"
+import "./flash-data"
+import "./fork-test"
+import "./history"
+import "./migrate"
+import "./positions"
+import "./profile"
+import "./simulate"
+import "./storage"
+import "./verify"
@@ -0,0 +1,104 @@
+import * as fs from "fs";
+import yaml from "js-yaml";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { Contract, utils } from "ethers";
+
+import { MIGRATOR_V2_ABI, read } from "../sdk/abis";
+import { decodeError, formatDecodedError } from "../sdk/errors";
+import { checkMigrationPlan, encodeMigrationPlan, parseMigrationPlan, toAmount } from "../sdk/plan";
+import type { MigrationPlan } from "../sdk/plan";
+import { getLatest, readRegistry } from "../scripts/deploy/utils/registry";
+
+// Deployment records that can hold the migrator, in order of preference.
+const MIGRATOR_RECORDS = ["MigratorV2", "TestMigratorV2"];
+
+interface MigrateTaskArgs {
+    plan: string;
+    migrator?: string;
+    deadline: number;
+    dryRun: boolean;
+}
+
+// Reads a plan from a `.json`, `.yaml` or `.yml` file.
+export function readMigrationPlan(file: string): MigrationPlan {
+    const content = fs.readFileSync(file, "utf8");
+    const raw: unknown = /\.ya?ml$/i.test(file) ? yaml.load(content) : JSON.parse(content);
+    return parseMigrationPlan(raw);
+}
+
+// The migrator from the command line, the plan or the deployment records of the current network.
+export function resolveMigrator(
+    hre: HardhatRuntimeEnvironment,
+    plan: Pick<MigrationPlan, "migrator">,
+    migrator?: string
+): string {
+    if (migrator) return utils.getAddress(migrator);
+    if (plan.migrator) return plan.migrator;
+
+    const registry = readRegistry();
+    for (const name of MIGRATOR_RECORDS) {
+        const deployment = getLatest(registry, hre.network.name, name);
+        if (deployment) return utils.getAddress(deployment.address);
+    }
+    throw new Error(`No migrator for network "${hre.network.name}": pass --migrator or set \`migrator\` in the plan`);
+}
+
+task("migrator:migrate", "Executes a migration described by a JSON or YAML plan")
+    .addParam("plan", "Path to the migration plan (.json, .yaml or .yml)")
+    .addOptionalParam("migrator", "MigratorV2 address (defaults to the plan or the deployment records)")
+    .addOptionalParam("deadline", "Swap deadline in seconds from the latest block", 1200, types.int)
+    .addFlag("dryRun", "Checks the plan and prints the calldata without sending a transaction")
+    .setAction(async (args: MigrateTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const { ethers } = hre;
+
+        const plan = readMigrationPlan(args.plan);
+        const migratorAddress = resolveMigrator(hre, plan, args.migrator);
+        const [signer] = await ethers.getSigners();
+        const user = plan.user ?? signer.address;
+
+        const migrator = new Contract(migratorAddress, MIGRATOR_V2_ABI, ethers.provider);
+        const [dai, usds] = await Promise.all([read<string>(migrator, "DAI"), read<string>(migrator, "USDS")]);
+        const latestBlock = await ethers.provider.getBlock("latest");
+
+        const migrationData = encodeMigrationPlan(plan, { deadline: latestBlock.timestamp + args.deadline, dai, usds });
+        const flashAmount = toAmount(plan.flashAmount);
+        const calldata = migrator.interface.encodeFunctionData("migrate", [
+            plan.adapter,
+            plan.comet,
+            migrationData,
+            flashAmount
+        ]);
+
+        const { errors, warnings } = await checkMigrationPlan(ethers.provider, plan, migratorAddress, user);
+        warnings.forEach((warning) => console.log(`Warning: ${warning}`));
+        errors.forEach((error) => console.log(`Error: ${error}`));
+
+        if (args.dryRun) {
+            console.log(`Migrator:      ${migratorAddress}`);
+            console.log(`User:          ${user}`);
+            console.log(`Adapter:       ${plan.adapter} (${plan.adapterType})`);
+            console.log(`Comet:         ${plan.comet}`);
+            console.log(`Flash amount:  ${flashAmount.toString()}`);
+            console.log(`MigrationData: ${migrationData}`);
+            console.log(`Calldata:      ${calldata}`);
+            return;
+        }
+
+        if (user !== signer.address) {
+            throw new Error(`The plan belongs to ${user}, but the signer is ${signer.address}`);
+        }
+        if (errors.length > 0) throw new Error(`The plan fails ${errors.length} precondition check(s)`);
+
+        let tx;
+        try {
+            tx = await signer.sendTransaction({ to: migratorAddress, data: calldata });
+        } catch (error) {
+            const decoded = decodeError(error);
+            if (decoded) console.log(formatDecodedError(decoded));
+            throw error;
+        }
+        console.log(`Migration sent: ${tx.hash}`);
+        const receipt = await tx.wait();
+        console.log(`Migration mined in block ${receipt.blockNumber} (gas used: ${receipt.gasUsed.toString()})`);
+    });
@@ -0,0 +1,54 @@
+import * as fs from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { utils } from "ethers";
+
+import type { AdapterType } from "../sdk/encoding";
+import { discoverPositions, toMigrationPlan } from "../sdk/positions";
+
+const ADAPTER_TYPES: AdapterType[] = ["AaveV3", "Spark", "Morpho"];
+
+interface PositionsTaskArgs {
+    adapter: string;
+    adapterType: string;
+    user?: string;
+    markets?: string;
+    comet?: string;
+    output?: string;
+}
+
+task("migrator:positions", "Lists the positions a user can migrate through an adapter")
+    .addParam("adapter", "Protocol adapter address")
+    .addParam("adapterType", `Adapter type: ${ADAPTER_TYPES.join(", ")}`)
+    .addOptionalParam("user", "User address (defaults to the first signer)")
+    .addOptionalParam("markets", "Comma-separated Morpho market ids to inspect")
+    .addOptionalParam("comet", "Target Comet: outputs a migration plan (without swaps) instead of the positions")
+    .addOptionalParam("output", "Writes the JSON to a file instead of printing it")
+    .setAction(async (args: PositionsTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const { ethers } = hre;
+
+        if (!ADAPTER_TYPES.includes(args.adapterType as AdapterType)) {
+            throw new Error(`Unknown adapter type "${args.adapterType}": expected one of ${ADAPTER_TYPES.join(", ")}`);
+        }
+        const adapterType = args.adapterType as AdapterType;
+        const marketIds = args.markets ? args.markets.split(",").map((id) => id.trim()) : [];
+        if (adapterType === "Morpho" && marketIds.length === 0) throw new Error("Morpho requires --markets");
+
+        const user = args.user ? utils.getAddress(args.user) : (await ethers.getSigners())[0].address;
+        const positions = await discoverPositions(ethers.provider, adapterType, args.adapter, user, { marketIds });
+
+        const result = args.comet
+            ? toMigrationPlan(positions, { adapter: args.adapter, comet: args.comet })
+            : positions;
+        const json = JSON.stringify(result, null, 4);
+
+        if (args.output) {
+            fs.writeFileSync(args.output, json);
+            console.log(
+                `Found ${positions.borrows.length} borrow(s) and ${positions.collaterals.length} collateral(s)`
+            );
+            console.log(`Saved to ${args.output}`);
+        } else {
+            console.log(json);
+        }
+    });
@@ -0,0 +1,165 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { utils } from "ethers";
+
+import { COMET_ABI, ERC20_ABI, MIGRATOR_V2_ABI, MORPHO_ABI, PROTOCOL_ADAPTER_ABI } from "../sdk/abis";
+import type { AdapterType } from "../sdk/encoding";
+import { currentGitCommit, latestDeployments, readRegistry } from "../scripts/deploy/utils/registry";
+import { profileMockScenarios, profilePlan } from "../scripts/profile/profiler";
+import {
+    PROFILE_VERSION,
+    compareProfiles,
+    formatProfileMarkdown,
+    readProfileReport,
+    writeProfileReport
+} from "../scripts/profile/report";
+import type { ProfileEntry, ProfileReport } from "../scripts/profile/report";
+import { DEFAULT_AXES, scenarioMatrix } from "../scripts/profile/scenarios";
+import type { Conversion } from "../scripts/profile/scenarios";
+import { selectorNames } from "../scripts/profile/trace";
+import { readMigrationPlan, resolveMigrator } from "./migrate";
+
+// Networks that support impersonation, snapshots and `debug_traceTransaction`.
+const DEVELOPMENT_NETWORKS = ["hardhat", "localhost"];
+// Contracts whose ABIs name the traced calls of fork profiles.
+const PROFILED_CONTRACTS = ["MigratorV2", "AaveV3UsdsAdapter", "SparkUsdsAdapter", "MorphoUsdsAdapter"];
+
+interface ProfileTaskArgs {
+    plans?: string;
+    adapters?: string;
+    borrows?: string;
+    collaterals?: string;
+    conversions?: string;
+    flash?: string;
+    out: string;
+    baseline?: string;
+    tolerance: number;
+}
+
+// A comma-separated axis of the matrix, or its default values.
+function parseAxis<T>(value: string | undefined, defaults: T[], parse: (item: string) => T): T[] {
+    return value ? value.split(",").map((item) => parse(item.trim())) : defaults;
+}
+
+function parseChoice<T extends string>(choices: T[]): (item: string) => T {
+    return (item) => {
+        if (!choices.includes(item as T))
+            throw new Error(`Unknown value "${item}", expected one of ${choices.join(", ")}`);
+        return item as T;
+    };
+}
+
+function parseCount(item: string): number {
+    const count = Number(item);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`Invalid position count "${item}"`);
+    return count;
+}
+
+function printEntry({ id, status, gasUsed, calldataBytes, error }: ProfileEntry): void {
+    const result = status === "ok" ? `${String(gasUsed)} gas` : `failed: ${error ?? "unknown error"}`;
+    console.log(`  ${id}: ${result}, ${calldataBytes} calldata bytes`);
+}
+
+async function profilePlans(hre: HardhatRuntimeEnvironment, files: string[]): Promise<ProfileEntry[]> {
+    const registry = readRegistry();
+    const labels = Object.fromEntries(
+        Object.entries(latestDeployments(registry, hre.network.name)).map(([name, { address }]) => [
+            utils.getAddress(address),
+            name
+        ])
+    );
+    const artifacts = await Promise.all(PROFILED_CONTRACTS.map((name) => hre.artifacts.readArtifact(name)));
+    const selectors = selectorNames([
+        ...artifacts.map(({ abi }) => new utils.Interface(abi)),
+        ERC20_ABI,
+        COMET_ABI,
+        MORPHO_ABI,
+        PROTOCOL_ADAPTER_ABI,
+        MIGRATOR_V2_ABI
+    ]);
+
+    const entries: ProfileEntry[] = [];
+    for (const file of files) {
+        const plan = readMigrationPlan(file);
+        const migrator = resolveMigrator(hre, plan);
+        const entry = await profilePlan(hre.ethers.provider, plan, { migrator, labels, selectors });
+        // Plans of the same shape are told apart by their file.
+        entries.push({ ...entry, id: `${entry.id} (${file})` });
+        printEntry(entries[entries.length - 1]);
+    }
+    return entries;
+}
+
+task("migrator:profile", "Profiles the gas and calldata of migration scenarios")
+    .addOptionalParam("plans", "Comma-separated plan files to profile on a fork instead of the mock matrix")
+    .addOptionalParam("adapters", "Comma-separated adapters of the matrix, e.g. AaveV3,Morpho")
+    .addOptionalParam("borrows", "Comma-separated borrow counts of the matrix, e.g. 0,1,2")
+    .addOptionalParam("collaterals", "Comma-separated collateral counts of the matrix, e.g. 1,2")
+    .addOptionalParam("conversions", "Comma-separated conversions of the matrix: none, swap, convert")
+    .addOptionalParam("flash", "Comma-separated flash loan settings of the matrix: true, false")
+    .addOptionalParam("out", "Report path without extension: writes .json and .md", "gas-profile")
+    .addOptionalParam("baseline", "JSON report to compare with. Regressions fail the task")
+    .addOptionalParam("tolerance", "Relative change ignored by the comparison, in percent", 0, types.float)
+    .setAction(async (args: ProfileTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        if (!DEVELOPMENT_NETWORKS.includes(hre.network.name)) {
+            throw new Error(`Profiles run on a Hardhat node, not on "${hre.network.name}"`);
+        }
+        const baseline = args.baseline ? readProfileReport(args.baseline) : undefined;
+
+        let entries: ProfileEntry[];
+        let target = "mocks";
+        if (args.plans) {
+            // The forking URL may hold an API key: the block number identifies the state instead.
+            target = hre.network.name === "hardhat" ? "fork" : hre.network.name;
+            console.log(`Profiling plans on ${hre.network.name}`);
+            entries = await profilePlans(
+                hre,
+                args.plans.split(",").map((file) => file.trim())
+            );
+        } else {
+            const scenarios = scenarioMatrix({
+                adapters: parseAxis(
+                    args.adapters,
+                    DEFAULT_AXES.adapters,
+                    parseChoice<AdapterType>(DEFAULT_AXES.adapters)
+                ),
+                borrows: parseAxis(args.borrows, DEFAULT_AXES.borrows, parseCount),
+                collaterals: parseAxis(args.collaterals, DEFAULT_AXES.collaterals, parseCount),
+                conversions: parseAxis(
+                    args.conversions,
+                    DEFAULT_AXES.conversions,
+                    parseChoice<Conversion>(DEFAULT_AXES.conversions)
+                ),
+                flash: parseAxis(
+                    args.flash,
+                    DEFAULT_AXES.flash,
+                    (item) => parseChoice(["true", "false"])(item) === "true"
+                )
+            });
+            console.log(`Profiling ${scenarios.length} scenarios on the mocks`);
+            entries = await profileMockScenarios(hre, scenarios, printEntry);
+        }
+
+        const report: ProfileReport = {
+            version: PROFILE_VERSION,
+            target,
+            blockNumber: args.plans ? await hre.ethers.provider.getBlockNumber() : undefined,
+            gitCommit: currentGitCommit(),
+            createdAt: new Date().toISOString(),
+            entries
+        };
+        const comparison = baseline && compareProfiles(baseline, report, args.tolerance);
+        writeProfileReport(`${args.out}.json`, report);
+        fs.writeFileSync(`${args.out}.md`, formatProfileMarkdown(report, comparison));
+        console.log(`Report written to ${args.out}.json and ${args.out}.md`);
+
+        if (entries.some(({ status }) => status === "failed")) process.exitCode = 1;
+        if (comparison && comparison.regressions.length > 0) {
+            console.log(`${comparison.regressions.length} regression(s) against ${String(args.baseline)}:`);
+            for (const { id, metric, baseline: before, current, change } of comparison.regressions) {
+                console.log(`  ${id} ${metric}: ${before} -> ${current} (+${change.toFixed(2)}%)`);
+            }
+            process.exitCode = 1;
+        }
+    });
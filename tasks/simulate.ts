@@ -0,0 +1,82 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { BigNumber } from "ethers";
+
+import { formatDecodedError } from "../sdk/errors";
+import { simulateMigration } from "../sdk/simulation";
+import type { BalanceSnapshot } from "../sdk/simulation";
+import { readMigrationPlan, resolveMigrator } from "./migrate";
+
+// Networks that support impersonation and snapshots.
+const DEVELOPMENT_NETWORKS = ["hardhat", "localhost"];
+
+interface SimulateTaskArgs {
+    plan: string;
+    migrator?: string;
+    user?: string;
+    deadline: number;
+    keepState: boolean;
+}
+
+function formatChange(label: string, before: BigNumber, after: BigNumber): string {
+    const delta = after.sub(before);
+    const sign = delta.isNegative() ? "" : "+";
+    return `  ${label}: ${before.toString()} -> ${after.toString()} (${sign}${delta.toString()})`;
+}
+
+function printBalances(before: BalanceSnapshot, after: BalanceSnapshot): void {
+    console.log("Source protocol:");
+    before.source.forEach((entry, i) => {
+        console.log(formatChange(`${entry.kind} ${entry.position}`, entry.amount, after.source[i].amount));
+    });
+    console.log("Comet:");
+    console.log(formatChange("base supplied", before.comet.baseSupplied, after.comet.baseSupplied));
+    console.log(formatChange("base borrowed", before.comet.baseBorrowed, after.comet.baseBorrowed));
+    for (const [asset, amount] of Object.entries(before.comet.collaterals)) {
+        console.log(formatChange(`collateral ${asset}`, amount, after.comet.collaterals[asset]));
+    }
+}
+
+task("migrator:simulate", "Simulates a migration plan on a Hardhat fork as the user of the plan")
+    .addParam("plan", "Path to the migration plan (.json, .yaml or .yml)")
+    .addOptionalParam("migrator", "MigratorV2 address (defaults to the plan or the deployment records)")
+    .addOptionalParam("user", "The user to impersonate (defaults to the `user` of the plan)")
+    .addOptionalParam("deadline", "Swap deadline in seconds from the latest block", 1200, types.int)
+    .addFlag("keepState", "Keeps the state of the node after the migration")
+    .setAction(async (args: SimulateTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        if (!DEVELOPMENT_NETWORKS.includes(hre.network.name)) {
+            throw new Error(`Simulations run on a Hardhat fork, not on "${hre.network.name}"`);
+        }
+
+        const plan = readMigrationPlan(args.plan);
+        const migrator = resolveMigrator(hre, plan, args.migrator);
+        const latestBlock = await hre.ethers.provider.getBlock("latest");
+
+        console.log(`Simulating at block ${latestBlock.number} (migrator ${migrator})`);
+        const result = await simulateMigration(hre.ethers.provider, plan, {
+            migrator,
+            user: args.user,
+            deadline: latestBlock.timestamp + args.deadline,
+            keepState: args.keepState
+        });
+
+        printBalances(result.before, result.after);
+
+        if (!result.success) {
+            console.log(`Migration reverted: ${result.error?.message ?? "unknown error"}`);
+            if (result.error?.decoded) console.log(formatDecodedError(result.error.decoded));
+            if (result.error?.data) console.log(`Revert data: ${result.error.data}`);
+            process.exitCode = 1;
+            return;
+        }
+
+        console.log(`Gas used: ${result.gasUsed?.toString() ?? "n/a"}`);
+        if (result.event) {
+            console.log("MigrationExecuted:");
+            console.log(`  adapter:     ${result.event.adapter}`);
+            console.log(`  user:        ${result.event.user}`);
+            console.log(`  comet:       ${result.event.comet}`);
+            console.log(`  flashAmount: ${result.event.flashAmount.toString()}`);
+            console.log(`  flashFee:    ${result.event.flashFee.toString()}`);
+        }
+    });
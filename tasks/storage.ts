@@ -0,0 +1,106 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+    compareStorageLayouts,
+    findStorageOverlaps,
+    readLayoutSnapshot,
+    writeLayoutSnapshot
+} from "../scripts/storage/compatibility";
+import type { LayoutIssue } from "../scripts/storage/compatibility";
+import { readStorageLayout, readStorageValue } from "../scripts/storage/layout";
+
+const SNAPSHOT_FILE = path.join(__dirname, "../scripts/deploy/test/storageLayout.json");
+const ADAPTERS_SOURCES = "contracts/adapters/";
+
+interface StorageReadTaskArgs {
+    contract: string;
+    address?: string;
+    variable?: string;
+    block?: number;
+}
+
+task("storage:read", "Reads a state variable of a deployed contract from its storage layout")
+    .addParam("contract", "Contract name or fully qualified name, e.g. MigratorV2")
+    .addOptionalParam("address", "Deployed contract address (required with --variable)")
+    .addOptionalParam(
+        "variable",
+        "Variable path, e.g. _storedCallbackHash, _adapters, _flashData[0x...].isToken0 (lists the layout when omitted)"
+    )
+    .addOptionalParam("block", "Block number (defaults to the latest block)", undefined, types.int)
+    .setAction(async (args: StorageReadTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const layout = await readStorageLayout(hre.artifacts, args.contract);
+
+        if (!args.variable) {
+            for (const { label, slot, offset, type } of layout.storage) {
+                const typeLabel = layout.types?.[type]?.label ?? type;
+                console.log(`${slot.padStart(4)} +${offset.toString().padEnd(3)} ${label}: ${typeLabel}`);
+            }
+            return;
+        }
+        if (!args.address) throw new Error("--variable requires --address");
+
+        const { location, value } = await readStorageValue(
+            hre.ethers.provider,
+            args.address,
+            layout,
+            args.variable,
+            args.block
+        );
+        console.log(`${location.path} (${layout.types?.[location.type]?.label ?? location.type})`);
+        console.log(`Slot:   ${location.slot.toHexString()} (offset ${location.offset})`);
+        console.log(`Value:  ${typeof value === "object" ? JSON.stringify(value, null, 4) : String(value)}`);
+    });
+
+interface StorageCheckTaskArgs {
+    contract: string;
+    update: boolean;
+}
+
+task("storage:check", "Checks the storage layout against the snapshot and the adapters against MigratorV2")
+    .addOptionalParam("contract", "The contract to compare with its snapshot", "MigratorV2")
+    .addFlag("update", "Saves the current layout as the snapshot instead of comparing them")
+    .setAction(async (args: StorageCheckTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        await hre.run("compile", { quiet: true });
+        const current = await readStorageLayout(hre.artifacts, args.contract);
+        const snapshot = readLayoutSnapshot(SNAPSHOT_FILE);
+
+        if (args.update) {
+            writeLayoutSnapshot(SNAPSHOT_FILE, { ...snapshot, [args.contract]: current });
+            console.log(`Saved the storage layout of ${args.contract} to ${SNAPSHOT_FILE}`);
+            return;
+        }
+
+        const errors: LayoutIssue[] = [];
+        const warnings: LayoutIssue[] = [];
+        if (snapshot[args.contract]) {
+            const comparison = compareStorageLayouts(snapshot[args.contract], current);
+            errors.push(...comparison.errors);
+            warnings.push(...comparison.warnings);
+        } else {
+            console.log(`No snapshot of ${args.contract}: run with --update to save one`);
+        }
+
+        // The adapters are executed with `delegatecall` in the storage of the migrator.
+        const adapters = (await hre.artifacts.getAllFullyQualifiedNames()).filter((name) => {
+            return name.startsWith(ADAPTERS_SOURCES);
+        });
+        for (const adapter of adapters) {
+            const layout = await readStorageLayout(hre.artifacts, adapter);
+            const overlaps = findStorageOverlaps(current, layout);
+            errors.push(...overlaps.map((issue) => ({ ...issue, message: `${adapter}: ${issue.message}` })));
+            if (layout.storage.length > 0 && overlaps.length === 0) {
+                warnings.push({
+                    kind: "overlap",
+                    variable: layout.storage[0].label,
+                    message: `${adapter} declares storage: it must stay clear of the ${args.contract} slots`
+                });
+            }
+        }
+
+        warnings.forEach(({ kind, message }) => console.log(`Warning [${kind}]: ${message}`));
+        errors.forEach(({ kind, message }) => console.log(`Error [${kind}]: ${message}`));
+        if (errors.length > 0) throw new Error(`${errors.length} storage layout error(s)`);
+        console.log(`The storage layout of ${args.contract} is compatible, ${adapters.length} adapter(s) checked`);
+    });
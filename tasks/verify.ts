@@ -0,0 +1,77 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import type { ContractParams } from "../scripts/deploy/utils/engine";
+import { readRegistry, writeRegistry } from "../scripts/deploy/utils/registry";
+import { isLegacy } from "../scripts/deploy/utils/schema";
+import {
+    deploymentContract,
+    pendingVerifications,
+    resolveConstructorArgs,
+    resolveExplorer,
+    verifyDeployment
+} from "../scripts/deploy/utils/verification";
+import { readDeploymentParams, resolveConfigNetwork } from "./deploy";
+
+interface VerifyPendingTaskArgs {
+    name?: string;
+    configNetwork?: string;
+    retries: number;
+    apiUrl?: string;
+    apiKey?: string;
+}
+
+task("verify:pending", "Verifies the deployments of the registry that are not verified yet")
+    .addOptionalParam("name", "Only this contract entry, e.g. TestMigratorV2")
+    .addOptionalParam("configNetwork", "The `deploymentParams` entry to rebuild missing constructor arguments from")
+    .addOptionalParam("retries", "Retries of every explorer request", 5, types.int)
+    .addOptionalParam("apiUrl", "Explorer API URL (defaults to the `etherscan` config of the network)")
+    .addOptionalParam("apiKey", "Explorer API key (defaults to the `etherscan` config of the network)")
+    .setAction(async (args: VerifyPendingTaskArgs, hre: HardhatRuntimeEnvironment): Promise<void> => {
+        const network = hre.network.name;
+        const registry = readRegistry();
+        const pending = pendingVerifications(registry, network).filter(([name]) => !args.name || name === args.name);
+        if (pending.length === 0) {
+            console.log(`Nothing to verify on ${network}`);
+            return;
+        }
+
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const explorer = args.apiUrl
+            ? { apiUrl: args.apiUrl, apiKey: args.apiKey ?? "" }
+            : { ...resolveExplorer(hre, chainId), ...(args.apiKey ? { apiKey: args.apiKey } : {}) };
+
+        let params: Record<string, ContractParams> | undefined;
+        try {
+            params = readDeploymentParams(resolveConfigNetwork(hre, args.configNetwork));
+        } catch {
+            params = undefined;
+        }
+
+        let failed = 0;
+        for (const [name, entry] of pending) {
+            console.log(`${name} at ${entry.address}: ${entry.verification?.status ?? "not verified"}`);
+            if (isLegacy(params?.[name])) {
+                console.log("  skipped: legacy deployment, its contract is no longer in the repository");
+                continue;
+            }
+            let constructorArgs: unknown[];
+            try {
+                constructorArgs = await resolveConstructorArgs(hre, registry, network, name, entry, params);
+            } catch (error) {
+                console.log(`  skipped: ${(error as Error).message}`);
+                failed++;
+                continue;
+            }
+
+            const contract = deploymentContract(name, entry, params);
+            entry.verification = await verifyDeployment(hre, explorer, contract, entry, constructorArgs, {
+                retries: args.retries
+            });
+            writeRegistry(registry);
+            console.log(`  ${entry.verification.status}: ${entry.verification.message ?? ""}`);
+            if (entry.verification.status !== "verified") failed++;
+        }
+
+        if (failed > 0) throw new Error(`${failed} of ${pending.length} deployment(s) not verified`);
+    });
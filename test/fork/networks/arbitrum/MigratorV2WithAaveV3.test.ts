@@ -5,14 +5,13 @@ import {
     Zero,
     MaxUint256,
     anyValue,
-    impersonateAccount,
-    stopImpersonatingAccount,
-    setBalance,
     parseUnits,
     loadFixture,
     logger,
     AddressZero,
-    formatUnits
+    formatUnits,
+    forkAddresses,
+    fundToken
 } from "../../../helpers"; // Adjust the path as needed
 
 import {
@@ -77,15 +76,10 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
         console.log("Network:", process.env.npm_config_fork_network || "not set");
         console.log("Block number:", await ethers.provider.getBlockNumber());
 
-        const tokenAddresses: Record<string, string> = {
-            WBTC: "0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f",
-            DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
-            USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
-            USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
-            WETH: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
-            LINK: "0xf97f4df75117a78c1A5a0DBb814Af92458539FB4"
-        };
+        const { tokenAddresses, aaveContractAddresses, uniswapContractAddresses, compoundContractAddresses } =
+            forkAddresses("arbitrum");
 
+        // Holders of the tokens whose balance slot cannot be found, see `fundToken`.
         const treasuryAddresses: Record<string, string> = {
             WBTC: "0x2DF3ace03098deef627B2E78546668Dd9B8EB8bC",
             DAI: "0x2d070ed1321871841245D8EE5B84bD2712644322",
@@ -95,45 +89,6 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             LINK: "0x25431341A5800759268a6aC1d3CD91C029D7d9CA"
         };
 
-        const aaveContractAddresses = {
-            aToken: {
-                WBTC: "0x078f358208685046a11C85e8ad32895DED33A249",
-                DAI: "0x82E64f49Ed5EC1bC6e43DAD4FC8Af9bb3A2312EE",
-                USDC: "0x724dc807b04555b71ed48a6896b6F41593b8C637",
-                USDT: "0x6ab707Aca953eDAeFBc4fD23bA73294241490620",
-                WETH: "0xe50fA9b3c56FfB159cB0FCA61F5c9D750e8128c8",
-                LINK: "0x191c10Aa4AF7C30e871E70C95dB0E4eb77237530"
-            },
-            variableDebtToken: {
-                WBTC: "0x92b42c66840C7AD907b4BF74879FF3eF7c529473",
-                DAI: "0x8619d80FB0141ba7F184CbF22fd724116D9f7ffC",
-                USDC: "0xf611aEb5013fD2c0511c9CD55c7dc5C1140741A6",
-                USDT: "0xfb00AC187a8Eb5AFAE4eACE434F493Eb62672df7",
-                WETH: "0x0c84331e39d6658Cd6e6b9ba04736cC4c4734351",
-                LINK: "0x953A573793604aF8d41F306FEb8274190dB4aE0e"
-            },
-            pool: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
-            protocolDataProvider: "0x7F23D86Ee20D869112572136221e173428DD740B",
-            wrappedTokenGateway: "0x5760E34c4003752329bC77790B1De44C2799F8C3"
-        };
-
-        const uniswapContractAddresses = {
-            router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
-            pools: {
-                USDC_USDT: "0xbE3aD6a5669Dc0B8b12FeBC03608860C31E2eef6", // 0.01% fee
-                WETH_USDC: "0xC6962004f452bE9203591991D15f6b388e09E8D0" // 0.05% fee
-            },
-            factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
-            quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e"
-        };
-
-        const compoundContractAddresses = {
-            markets: {
-                cUSDCv3: "0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf",
-                cWETHv3: "0x6f7D514bbD4aFf3BcD1140B7344b32f063dEe486"
-            }
-        };
-
         const tokenContracts: Record<string, ERC20> = Object.fromEntries(
             Object.entries(tokenAddresses).map(([symbol, address]) => [symbol, ERC20__factory.connect(address, user)])
         );
@@ -267,16 +222,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -517,16 +463,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -700,16 +637,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -917,16 +845,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1079,16 +998,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1245,16 +1155,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1423,16 +1324,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1593,16 +1485,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1760,16 +1643,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1938,16 +1812,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2083,16 +1948,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2236,16 +2092,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
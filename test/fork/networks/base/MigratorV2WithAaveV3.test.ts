@@ -5,15 +5,14 @@ import {
     Zero,
     MaxUint256,
     anyValue,
-    impersonateAccount,
-    stopImpersonatingAccount,
-    setBalance,
     parseUnits,
     loadFixture,
     logger,
     BigNumber,
     AddressZero,
-    formatUnits
+    formatUnits,
+    forkAddresses,
+    fundToken
 } from "../../../helpers"; // Adjust the path as needed
 
 import {
@@ -76,15 +75,10 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
         console.log("Network:", process.env.npm_config_fork_network || "not set");
         console.log("Block number:", await ethers.provider.getBlockNumber());
 
-        const tokenAddresses: Record<string, string> = {
-            cbBTC: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf",
-            USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-            cbETH: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
-            WETH: "0x4200000000000000000000000000000000000006",
-            USDbC: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA",
-            wstETH: "0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452"
-        };
+        const { tokenAddresses, aaveContractAddresses, uniswapContractAddresses, compoundContractAddresses } =
+            forkAddresses("base");
 
+        // Holders of the tokens whose balance slot cannot be found, see `fundToken`.
         const treasuryAddresses: Record<string, string> = {
             cbBTC: "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb",
             USDC: "0x0B0A5886664376F59C351ba3f598C8A8B4D0A6f3",
@@ -94,43 +88,6 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             wstETH: "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb"
         };
 
-        const aaveContractAddresses = {
-            aToken: {
-                cbBTC: "0xBdb9300b7CDE636d9cD4AFF00f6F009fFBBc8EE6",
-                USDC: "0x4e65fE4DbA92790696d040ac24Aa414708F5c0AB",
-                cbETH: "0xcf3D55c10DB69f28fD1A75Bd73f3D8A2d9c595ad",
-                WETH: "0xD4a0e0b9149BCee3C920d2E00b5dE09138fd8bb7",
-                USDbC: "0x0a1d576f3eFeF75b330424287a95A366e8281D54",
-                wstETH: "0x99CBC45ea5bb7eF3a5BC08FB1B7E56bB2442Ef0D"
-            },
-            variableDebtToken: {
-                cbBTC: "0x05e08702028de6AaD395DC6478b554a56920b9AD",
-                USDC: "0x59dca05b6c26dbd64b5381374aAaC5CD05644C28",
-                cbETH: "0x1DabC36f19909425f654777249815c073E8Fd79F",
-                WETH: "0x24e6e0795b3c7c71D965fCc4f371803d1c1DcA1E",
-                USDbC: "0x7376b2F323dC56fCd4C191B34163ac8a84702DAB",
-                wstETH: "0x41A7C3f5904ad176dACbb1D99101F59ef0811DC1"
-            },
-            pool: "0xA238Dd80C259a72e81d7e4664a9801593F98d1c5",
-            protocolDataProvider: "0xd82a47fdebB5bf5329b09441C3DaB4b5df2153Ad",
-            wrappedTokenGateway: "0x729b3EA8C005AbC58c9150fb57Ec161296F06766"
-        };
-
-        const uniswapContractAddresses = {
-            router: "0x2626664c2603336E57B271c5C0b26F421741e481",
-            pools: {
-                USDC_USDT: "0xD56da2B74bA826f19015E6B7Dd9Dae1903E85DA1" // 0.01% fee
-            },
-            factory: "0x33128a8fC17869897dcE68Ed026d694621f6FDfD",
-            quoterV2: "0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a"
-        };
-
-        const compoundContractAddresses = {
-            markets: {
-                cUSDCv3: "0xb125E6687d4313864e53df431d5425969c15Eb2F"
-            }
-        };
-
         const tokenContracts: Record<string, ERC20> = Object.fromEntries(
             Object.entries(tokenAddresses).map(([symbol, address]) => [symbol, ERC20__factory.connect(address, user)])
         );
@@ -257,16 +214,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -512,16 +460,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -696,16 +635,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -913,16 +843,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1074,16 +995,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1241,16 +1153,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1420,16 +1323,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1591,16 +1485,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1757,16 +1642,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1937,16 +1813,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2081,16 +1948,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2232,16 +2090,7 @@ describe("MigratorV2 and AaveV3UsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1,18 +1,16 @@
 import {
     ethers,
     expect,
-    parseEther,
     Zero,
     MaxUint256,
     anyValue,
-    impersonateAccount,
-    stopImpersonatingAccount,
-    setBalance,
     parseUnits,
     loadFixture,
     logger,
     BigNumber,
-    AddressZero
+    AddressZero,
+    forkAddresses,
+    fundToken
 } from "../../../helpers"; // Adjust the path as needed
 
 import { MigratorV2, MorphoUsdsAdapter, ERC20__factory, IComet__factory, ERC20 } from "../../../../typechain-types";
@@ -64,16 +62,10 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
         console.log("Network:", process.env.npm_config_fork_network || "not set");
         console.log("Block number:", await ethers.provider.getBlockNumber());
 
-        const tokenAddresses: Record<string, string> = {
-            cbBTC: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf",
-            USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-            cbETH: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
-            WETH: "0x4200000000000000000000000000000000000006",
-            USDbC: "0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA",
-            wstETH: "0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452",
-            EURC: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42"
-        };
+        const { tokenAddresses, morphoContractAddresses, uniswapContractAddresses, compoundContractAddresses } =
+            forkAddresses("base");
 
+        // Holders of the tokens whose balance slot cannot be found, see `fundToken`.
         const treasuryAddresses: Record<string, string> = {
             cbBTC: "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb",
             USDC: "0x0B0A5886664376F59C351ba3f598C8A8B4D0A6f3",
@@ -84,10 +76,6 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             EURC: "0x7b2c99188D8EC7B82d6b3b3b1C1002095F1b8498"
         };
 
-        const morphoContractAddresses: Record<string, string> = {
-            pool: "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb"
-        };
-
         const morphoMarketsData: Record<string, { id: string; loanToken: string }> = {
             wstETH: {
                 id: "0xf7e40290f8ca1d5848b3c129502599aa0f0602eb5f5235218797a34242719561",
@@ -107,19 +95,6 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             }
         };
 
-        const uniswapContractAddresses = {
-            router: "0x2626664c2603336E57B271c5C0b26F421741e481",
-            pools: {
-                USDC_USDT: "0xD56da2B74bA826f19015E6B7Dd9Dae1903E85DA1" // 0.01% fee
-            }
-        };
-
-        const compoundContractAddresses = {
-            markets: {
-                cUSDCv3: "0xb125E6687d4313864e53df431d5425969c15Eb2F"
-            }
-        };
-
         const tokenContracts: Record<string, ERC20> = Object.fromEntries(
             Object.entries(tokenAddresses).map(([symbol, address]) => [symbol, ERC20__factory.connect(address, user)])
         );
@@ -222,16 +197,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -477,16 +443,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -671,16 +628,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -884,16 +832,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1052,16 +991,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1221,16 +1151,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1397,16 +1318,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1572,16 +1484,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1760,16 +1663,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1909,16 +1803,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2046,16 +1931,7 @@ describe("MigratorV2 and MorphoUsdsAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
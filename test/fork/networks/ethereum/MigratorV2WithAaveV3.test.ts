@@ -5,9 +5,6 @@ import {
     Zero,
     MaxUint256,
     anyValue,
-    impersonateAccount,
-    stopImpersonatingAccount,
-    setBalance,
     parseUnits,
     loadFixture,
     logger,
@@ -16,7 +13,9 @@ import {
     BigNumber,
     findSlotForVariable,
     getStorage,
-    HashZero
+    HashZero,
+    forkAddresses,
+    fundToken
 } from "../../../helpers"; // Adjust the path as needed
 
 import {
@@ -87,18 +86,15 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
         console.log("Network:", process.env.npm_config_fork_network || "not set");
         console.log("Block number:", await ethers.provider.getBlockNumber());
 
-        const tokenAddresses: Record<string, string> = {
-            WBTC: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599",
-            DAI: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
-            USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-            USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-            USDS: "0xdC035D45d973E3EC169d2276DDab16f1e407384F",
-            WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
-            LINK: "0x514910771AF9Ca656af840dff83E8264EcF986CA",
-            wstETH: "0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0",
-            cbBTC: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf"
-        };
+        const {
+            tokenAddresses,
+            aaveContractAddresses,
+            uniswapContractAddresses,
+            compoundContractAddresses,
+            daiUsdsAddress
+        } = forkAddresses("ethereum");
 
+        // Holders of the tokens whose balance slot cannot be found, see `fundToken`.
         const treasuryAddresses: Record<string, string> = {
             WBTC: "0x0555E30da8f98308EdB960aa94C0Db47230d2B9c",
             DAI: "0xD1668fB5F690C59Ab4B0CAbAd0f8C1617895052B",
@@ -111,51 +107,6 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             cbBTC: "0xb3973D459df38ae57797811F2A1fd061DA1BC123"
         };
 
-        const aaveContractAddresses = {
-            aToken: {
-                WBTC: "0x5Ee5bf7ae06D1Be5997A1A72006FE6C607eC6DE8",
-                DAI: "0x018008bfb33d285247A21d44E50697654f754e63",
-                USDC: "0x98C23E9d8f34FEFb1B7BD6a91B7FF122F4e16F5c",
-                USDT: "0x23878914EFE38d27C4D67Ab83ed1b93A74D4086a",
-                USDS: "0x32a6268f9Ba3642Dda7892aDd74f1D34469A4259",
-                WETH: "0x4d5F47FA6A74757f35C14fD3a6Ef8E3C9BC514E8",
-                LINK: "0x5E8C8A7243651DB1384C0dDfDbE39761E8e7E51a"
-            },
-            variableDebtToken: {
-                WBTC: "0x40aAbEf1aa8f0eEc637E0E7d92fbfFB2F26A8b7B",
-                DAI: "0xcF8d0c70c850859266f5C338b38F9D663181C314",
-                USDC: "0x72E95b8931767C79bA4EeE721354d6E99a61D004",
-                USDT: "0x6df1C1E379bC5a00a7b4C6e67A203333772f45A8",
-                USDS: "0x490E0E6255bF65b43E2e02F7acB783c5e04572Ff",
-                WETH: "0xeA51d7853EEFb32b6ee06b1C12E6dcCA88Be0fFE",
-                LINK: "0x4228F8895C7dDA20227F6a5c6751b8Ebf19a6ba8"
-            },
-            pool: "0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2",
-            protocolDataProvider: "0x41393e5e337606dc3821075Af65AeE84D7688CBD",
-            wrappedTokenGateway: "0xA434D495249abE33E031Fe71a969B81f3c07950D"
-        };
-
-        // convertor Dai to Usds address
-        const daiUsdsAddress = "0x3225737a9Bbb6473CB4a45b7244ACa2BeFdB276A";
-
-        const uniswapContractAddresses = {
-            router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
-            pools: {
-                USDC_USDT: "0x3416cF6C708Da44DB2624D63ea0AAef7113527C6",
-                DAI_USDS: "0xe9F1E2EF814f5686C30ce6fb7103d0F780836C67"
-            },
-            factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
-            quoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6",
-            quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e"
-        };
-
-        const compoundContractAddresses = {
-            markets: {
-                cUSDCv3: "0xc3d688B66703497DAA19211EEdff47f25384cdc3",
-                cUSDSv3: "0x5D409e56D886231aDAf00c8775665AD0f9897b56"
-            }
-        };
-
         const tokenContracts: Record<string, ERC20> = Object.fromEntries(
             Object.entries(tokenAddresses).map(([symbol, address]) => [symbol, ERC20__factory.connect(address, user)])
         );
@@ -311,16 +262,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -576,16 +518,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -757,16 +690,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -972,16 +896,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1131,16 +1046,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1294,16 +1200,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1469,16 +1366,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1636,16 +1524,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1800,16 +1679,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1976,17 +1846,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2120,16 +1980,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2271,16 +2122,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2425,16 +2267,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2566,16 +2399,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2748,16 +2572,7 @@ describe("MigratorV2 and AaveV3Adapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1,18 +1,16 @@
 import {
     ethers,
     expect,
-    parseEther,
     Zero,
     MaxUint256,
     anyValue,
-    impersonateAccount,
-    stopImpersonatingAccount,
-    setBalance,
     parseUnits,
     loadFixture,
     logger,
     BigNumber,
-    HashZero
+    HashZero,
+    forkAddresses,
+    fundToken
 } from "../../../helpers"; // Adjust the path as needed
 
 import {
@@ -75,20 +73,15 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
         console.log("Network:", process.env.npm_config_fork_network || "not set");
         console.log("Block number:", await ethers.provider.getBlockNumber());
 
-        const tokenAddresses: Record<string, string> = {
-            WBTC: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599",
-            DAI: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
-            USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-            USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-            USDS: "0xdC035D45d973E3EC169d2276DDab16f1e407384F",
-            WETH: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
-            wstETH: "0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0",
-            LINK: "0x514910771AF9Ca656af840dff83E8264EcF986CA",
-            cbBTC: "0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf",
-            sDAI: "0x83F20F44975D03b1b09e64809B757c47f942BEeA",
-            USDe: "0x4c9EDD5852cd905f086C759E8383e09bff1E68B3"
-        };
+        const {
+            tokenAddresses,
+            morphoContractAddresses,
+            uniswapContractAddresses,
+            compoundContractAddresses,
+            daiUsdsAddress
+        } = forkAddresses("ethereum");
 
+        // Holders of the tokens whose balance slot cannot be found, see `fundToken`.
         const treasuryAddresses: Record<string, string> = {
             WBTC: "0x0555E30da8f98308EdB960aa94C0Db47230d2B9c",
             DAI: "0xD1668fB5F690C59Ab4B0CAbAd0f8C1617895052B",
@@ -103,10 +96,6 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             USDe: "0x9D39A5DE30e57443BfF2A8307A4256c8797A3497"
         };
 
-        const morphoContractAddresses: Record<string, string> = {
-            pool: "0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb"
-        };
-
         const morphoMarketsData: Record<string, { id: string; loanToken: string }> = {
             WBTC: {
                 id: "0xa921ef34e2fc7a27ccc50ae7e4b154e16c9799d3387076c421423ef52ac4df99",
@@ -130,27 +119,6 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             // }
         };
 
-        // convertor Dai to Usds address
-        const daiUsdsAddress = "0x3225737a9Bbb6473CB4a45b7244ACa2BeFdB276A";
-
-        const uniswapContractAddresses = {
-            router: "0xE592427A0AEce92De3Edee1F18E0157C05861564",
-            pools: {
-                USDC_USDT: "0x3416cF6C708Da44DB2624D63ea0AAef7113527C6",
-                DAI_USDS: "0xe9F1E2EF814f5686C30ce6fb7103d0F780836C67"
-            },
-            factory: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
-            quoter: "0xb27308f9F90D607463bb33eA1BeBb41C27CE5AB6",
-            quoterV2: "0x61fFE014bA17989E743c5F6cB21bF9697530B21e"
-        };
-
-        const compoundContractAddresses = {
-            markets: {
-                cUSDCv3: "0xc3d688B66703497DAA19211EEdff47f25384cdc3",
-                cUSDSv3: "0x5D409e56D886231aDAf00c8775665AD0f9897b56"
-            }
-        };
-
         const tokenContracts: Record<string, ERC20> = Object.fromEntries(
             Object.entries(tokenAddresses).map(([symbol, address]) => [symbol, ERC20__factory.connect(address, user)])
         );
@@ -278,16 +246,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -532,16 +491,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -721,16 +671,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -931,16 +872,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1100,16 +1032,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1280,16 +1203,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1454,16 +1368,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1627,16 +1532,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1814,16 +1710,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -1964,16 +1851,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2121,16 +1999,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2283,16 +2152,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
@@ -2464,16 +2324,7 @@ describe("MigratorV2 and MorphoAdapter contracts", function () {
             };
             // --- start
             for (const [token, amount] of Object.entries(fundingData)) {
-                const tokenContract = tokenContracts[token];
-                const treasuryAddress = treasuryAddresses[token];
-                expect(await tokenContract.balanceOf(treasuryAddress)).to.be.above(amount);
-
-                await setBalance(treasuryAddress, parseEther("1000"));
-                await impersonateAccount(treasuryAddress);
-                const treasurySigner = await ethers.getSigner(treasuryAddress);
-
-                await tokenContract.connect(treasurySigner).transfer(user.address, amount);
-                await stopImpersonatingAccount(treasuryAddress);
+                await fundToken(tokenContracts[token].address, user.address, amount, treasuryAddresses[token]);
             }
             // --- end
 
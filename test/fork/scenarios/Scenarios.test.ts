@@ -0,0 +1,18 @@
+import path from "path";
+
+import { readScenarios } from "./dsl";
+import { describeScenarios } from "./runner";
+
+/**
+ *  **Fork Tests: Migration Scenarios**
+ *
+ *  The scenarios of `scenarios.yaml`, run against every adapter of the fork network that has their tokens:
+ *    ```sh
+ *    npm run test-f-scenarios --fork-network=ethereum
+ *    ```
+ *  The cases of the other networks are reported as pending.
+ */
+
+describe("MigratorV2 scenarios", function () {
+    describeScenarios(readScenarios(path.join(__dirname, "scenarios.yaml")));
+});
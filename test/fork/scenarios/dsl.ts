@@ -0,0 +1,257 @@
+import fs from "fs";
+import yaml from "js-yaml";
+import { BigNumber, utils } from "ethers";
+
+import { ADDRESS_BOOK } from "../../../sdk/addresses";
+import type { LendingAddresses, NetworkAddresses } from "../../../sdk/addresses";
+import type { AdapterType } from "../../../sdk/encoding";
+
+/*
+ * Migration scenarios of the fork tests, written once and run against every adapter and network they apply to:
+ *
+ *   - name: supply ETH+WBTC, borrow USDC+DAI, migrate all to cUSDCv3
+ *     supply: { ETH: "0.5", WBTC: "0.01" }
+ *     borrow: { USDC: "400", DAI: "150" }
+ *     comet: cUSDCv3
+ *
+ * Amounts are in whole tokens of the symbols of the address book; `ETH` stands for the wrapped native token (WETH).
+ * A scenario applies to an adapter of a network when the network has the tokens and the Comet market, and the
+ * protocol lists them: a reserve per token for Aave and Spark, a market per borrow for Morpho (see `MORPHO_MARKETS`).
+ * The swaps are chosen by the planner of the SDK, as for `migrator:plan`.
+ */
+
+export interface Scenario {
+    name: string;
+    // Amounts per token symbol, in whole tokens.
+    supply: Record<string, string>;
+    borrow: Record<string, string>;
+    // The Comet market in the address book, e.g. `cUSDCv3`.
+    comet: string;
+    // Restricts the scenario to these adapters and networks. All by default.
+    adapters?: AdapterType[];
+    networks?: string[];
+    // Slippage tolerance of the swaps in basis points. Defaults to `DEFAULT_SLIPPAGE_BPS`.
+    slippageBps?: number;
+}
+
+export interface ScenarioLeg {
+    symbol: string;
+    token: string;
+    amount: BigNumber;
+    // Morpho only: the market of the leg.
+    marketId?: string;
+}
+
+// A scenario on one adapter of one network.
+export interface ScenarioCase {
+    scenario: Scenario;
+    network: string;
+    adapterType: AdapterType;
+    supplies: ScenarioLeg[];
+    borrows: ScenarioLeg[];
+}
+
+export interface MorphoMarket {
+    id: string;
+    // Token symbols of the market.
+    collateral: string;
+    loan: string;
+}
+
+export const DEFAULT_SLIPPAGE_BPS = 300;
+
+const ADAPTER_TYPES: AdapterType[] = ["AaveV3", "Spark", "Morpho"];
+
+const NATIVE_ALIAS = "ETH";
+
+// The Morpho Blue markets the scenarios can use, per network.
+export const MORPHO_MARKETS: Record<string, MorphoMarket[]> = {
+    ethereum: [
+        {
+            id: "0xa921ef34e2fc7a27ccc50ae7e4b154e16c9799d3387076c421423ef52ac4df99",
+            collateral: "WBTC",
+            loan: "USDT"
+        },
+        {
+            id: "0xb323495f7e4148be5643a4ea4a8221eef163e4bccfdedc2a6f4696baacbc86cc",
+            collateral: "wstETH",
+            loan: "USDC"
+        },
+        {
+            id: "0x8e6aeb10c401de3279ac79b4b2ea15fc94b7d9cfc098d6c2a1ff7b2b26d9d02c",
+            collateral: "USDe",
+            loan: "DAI"
+        },
+        {
+            id: "0x935faae97f5784dc97fba3c6ec072186ad9dbbf16368431c38f6a8b7fc3ec9a3",
+            collateral: "cbBTC",
+            loan: "WETH"
+        }
+    ],
+    base: [
+        {
+            id: "0xf7e40290f8ca1d5848b3c129502599aa0f0602eb5f5235218797a34242719561",
+            collateral: "wstETH",
+            loan: "EURC"
+        },
+        {
+            id: "0x1c21c59df9db44bf6f645d854ee710a8ca17b479451447e9f56758aee10a2fad",
+            collateral: "cbETH",
+            loan: "USDC"
+        },
+        {
+            id: "0x8793cf302b8ffd655ab97bd1c695dbd967807e8367a65cb2f4edaf1380ba1bda",
+            collateral: "WETH",
+            loan: "USDC"
+        },
+        {
+            id: "0x5dffffc7d75dc5abfa8dbe6fad9cbdadf6680cbe1428bafe661497520c84a94c",
+            collateral: "cbBTC",
+            loan: "WETH"
+        }
+    ]
+};
+
+function fail(where: string, message: string): never {
+    throw new Error(`Invalid scenario: ${where} ${message}`);
+}
+
+function checkAmounts(value: unknown, where: string): Record<string, string> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) fail(where, "must map symbols to amounts");
+    return Object.fromEntries(
+        Object.entries(value).map(([symbol, amount]) => {
+            if ((typeof amount !== "string" && typeof amount !== "number") || !/^\d+(\.\d+)?$/.test(String(amount))) {
+                fail(`${where}.${symbol}`, "must be a positive amount of whole tokens");
+            }
+            return [symbol, String(amount)];
+        })
+    );
+}
+
+function checkNames<T extends string>(value: unknown, where: string, allowed: T[]): T[] | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some((name) => typeof name !== "string")) fail(where, "must be a list of names");
+    const unknown = (value as string[]).find((name) => !allowed.includes(name as T));
+    if (unknown) fail(where, `has an unknown entry ${unknown}, expected one of ${allowed.join(", ")}`);
+    return value as T[];
+}
+
+/**
+ * Validates untyped scenarios (e.g. parsed from YAML).
+ */
+export function parseScenarios(raw: unknown): Scenario[] {
+    if (!Array.isArray(raw)) fail("file", "must be a list of scenarios");
+    const networks = Object.values(ADDRESS_BOOK).map(({ network }) => network);
+
+    return raw.map((value: unknown, i) => {
+        if (typeof value !== "object" || value === null) fail(`[${i}]`, "must be an object");
+        const scenario = value as Partial<Record<keyof Scenario, unknown>>;
+        if (typeof scenario.name !== "string" || !scenario.name) fail(`[${i}].name`, "must be a name");
+        const where = `"${scenario.name}"`;
+        if (typeof scenario.comet !== "string") fail(`${where}.comet`, "must name a Comet market");
+
+        const supply = checkAmounts(scenario.supply, `${where}.supply`);
+        const borrow = checkAmounts(scenario.borrow ?? {}, `${where}.borrow`);
+        if (!Object.keys(supply).length) fail(`${where}.supply`, "must list at least one token");
+        const slippageBps = scenario.slippageBps;
+        if (slippageBps !== undefined && (!Number.isInteger(slippageBps) || (slippageBps as number) < 0)) {
+            fail(`${where}.slippageBps`, "must be a number of basis points");
+        }
+
+        const adapters = checkNames(scenario.adapters, `${where}.adapters`, ADAPTER_TYPES);
+        const scenarioNetworks = checkNames(scenario.networks, `${where}.networks`, networks);
+        return {
+            name: scenario.name,
+            supply,
+            borrow,
+            comet: scenario.comet,
+            ...(adapters ? { adapters } : {}),
+            ...(scenarioNetworks ? { networks: scenarioNetworks } : {}),
+            ...(slippageBps !== undefined ? { slippageBps: slippageBps as number } : {})
+        };
+    });
+}
+
+// Reads scenarios from a `.json`, `.yaml` or `.yml` file.
+export function readScenarios(file: string): Scenario[] {
+    const content = fs.readFileSync(file, "utf8");
+    return parseScenarios(/\.ya?ml$/i.test(file) ? yaml.load(content) : JSON.parse(content));
+}
+
+function toLegs(book: NetworkAddresses, amounts: Record<string, string>): ScenarioLeg[] | undefined {
+    const legs: ScenarioLeg[] = [];
+    for (const [alias, amount] of Object.entries(amounts)) {
+        const symbol = alias === NATIVE_ALIAS ? "WETH" : alias;
+        const token = book.tokens[symbol];
+        if (!token) return undefined;
+        legs.push({ symbol, token: token.address, amount: utils.parseUnits(amount, token.decimals) });
+    }
+    return legs;
+}
+
+function hasReserves(lending: LendingAddresses | undefined, supplies: ScenarioLeg[], borrows: ScenarioLeg[]) {
+    return (
+        !!lending &&
+        supplies.every(({ symbol }) => lending.aTokens[symbol]) &&
+        borrows.every(({ symbol }) => lending.variableDebtTokens[symbol])
+    );
+}
+
+// Puts every borrow into a market of one of the supplied collaterals. Morpho markets hold a single collateral, so a
+// collateral backs at most one borrow; the collaterals without a borrow go to any market of theirs.
+function assignMorphoMarkets(
+    markets: MorphoMarket[],
+    supplies: ScenarioLeg[],
+    borrows: ScenarioLeg[]
+): Pick<ScenarioCase, "supplies" | "borrows"> | undefined {
+    const collateralMarkets = new Map<string, MorphoMarket>();
+    const borrowLegs: ScenarioLeg[] = [];
+    for (const borrow of borrows) {
+        const market = markets.find(
+            ({ collateral, loan }) =>
+                loan === borrow.symbol &&
+                !collateralMarkets.has(collateral) &&
+                supplies.some(({ symbol }) => symbol === collateral)
+        );
+        if (!market) return undefined;
+        collateralMarkets.set(market.collateral, market);
+        borrowLegs.push({ ...borrow, marketId: market.id });
+    }
+
+    const supplyLegs: ScenarioLeg[] = [];
+    for (const supply of supplies) {
+        const market =
+            collateralMarkets.get(supply.symbol) ?? markets.find(({ collateral }) => collateral === supply.symbol);
+        if (!market) return undefined;
+        supplyLegs.push({ ...supply, marketId: market.id });
+    }
+    return { supplies: supplyLegs, borrows: borrowLegs };
+}
+
+/**
+ * The cases of a scenario: one per adapter and network it applies to, in the order of the address book.
+ */
+export function expandScenario(
+    scenario: Scenario,
+    books: NetworkAddresses[] = Object.values(ADDRESS_BOOK)
+): ScenarioCase[] {
+    const cases: ScenarioCase[] = [];
+    for (const book of books) {
+        if (scenario.networks && !scenario.networks.includes(book.network)) continue;
+        const supplies = toLegs(book, scenario.supply);
+        const borrows = toLegs(book, scenario.borrow);
+        if (!supplies || !borrows || !book.comets[scenario.comet]) continue;
+
+        for (const adapterType of scenario.adapters ?? ADAPTER_TYPES) {
+            const base = { scenario, network: book.network, adapterType };
+            if (adapterType === "Morpho") {
+                const markets =
+                    book.morpho && assignMorphoMarkets(MORPHO_MARKETS[book.network] ?? [], supplies, borrows);
+                if (markets) cases.push({ ...base, ...markets });
+            } else if (hasReserves(adapterType === "Spark" ? book.spark : book.aave, supplies, borrows)) {
+                cases.push({ ...base, supplies, borrows });
+            }
+        }
+    }
+    return cases;
+}
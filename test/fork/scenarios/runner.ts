@@ -0,0 +1,203 @@
+import hre from "hardhat";
+import { utils } from "ethers";
+
+import {
+    AddressZero,
+    MaxUint256,
+    SignerWithAddress,
+    Zero,
+    ethers,
+    expect,
+    fundToken,
+    loadFixture
+} from "../../helpers";
+import { ERC20__factory, IComet__factory } from "../../../typechain-types";
+import type { MigratorV2 } from "../../../typechain-types";
+import { AavePool__factory, MorphoPool__factory } from "../types/contracts";
+
+import { getAddressBook } from "../../../sdk/addresses";
+import type { NetworkAddresses } from "../../../sdk/addresses";
+import type { AdapterType } from "../../../sdk/encoding";
+import { estimateFlashAmount } from "../../../sdk/flash";
+import { planMigration, quoterV2Quoter } from "../../../sdk/planner";
+import { discoverPositions } from "../../../sdk/positions";
+import { simulateMigration } from "../../../sdk/simulation";
+import { readDeploymentParams, resolveConfigNetwork } from "../../../tasks/deploy";
+import { DEFAULT_SLIPPAGE_BPS, expandScenario } from "./dsl";
+import type { Scenario, ScenarioCase } from "./dsl";
+
+/*
+ * Mocha tests of the scenarios. Every case deploys its adapter and `MigratorV2` on the fork, opens the positions of the
+ * scenario for a fresh user, plans the migration with the SDK and executes it, then checks that:
+ *
+ * - the positions are closed on Aave, Spark or Morpho;
+ * - the collaterals Comet accepts are in the Comet account, at least the supplied amounts;
+ * - the Comet account is collateralized and `MigrationExecuted` was emitted.
+ *
+ * The cases of the other networks are listed as pending, as the fork is of one network only.
+ */
+
+// Intermediate tokens of the quoted routes, when the network has them.
+const CONNECTORS = ["WETH", "USDC", "USDT", "DAI"];
+
+// Margin of the flash loan over the quoted borrow legs, for the interest accrued until the migration.
+const FLASH_BUFFER_BPS = 100;
+
+interface ScenarioEnv {
+    owner: SignerWithAddress;
+    user: SignerWithAddress;
+    book: NetworkAddresses;
+    adapter: string;
+    migrator: MigratorV2;
+}
+
+const ADAPTER_CONTRACTS: Record<AdapterType, string> = {
+    AaveV3: "AaveV3UsdsAdapter",
+    Spark: "SparkUsdsAdapter",
+    Morpho: "MorphoUsdsAdapter"
+};
+
+async function deployScenarioEnv(network: string, adapterType: AdapterType): Promise<ScenarioEnv> {
+    const [owner, user] = await ethers.getSigners();
+    const book = getAddressBook(network);
+
+    const common = {
+        uniswapRouter: book.uniswap.router,
+        daiUsdsConverter: book.daiUsds ?? AddressZero,
+        dai: book.daiUsds ? book.tokens.DAI.address : AddressZero,
+        usds: book.daiUsds ? book.tokens.USDS.address : AddressZero,
+        isFullMigration: true,
+        useSwapRouter02: !!book.uniswap.swapRouter02
+    };
+    const lending = adapterType === "Spark" ? book.spark : book.aave;
+    const params = {
+        AaveV3: () => ({ ...common, aaveLendingPool: lending?.pool, aaveDataProvider: lending?.protocolDataProvider }),
+        Spark: () => ({ ...common, sparkLendingPool: lending?.pool, sparkDataProvider: lending?.protocolDataProvider }),
+        Morpho: () => ({ ...common, morphoLendingPool: book.morpho })
+    }[adapterType]();
+    const adapter = await (await ethers.getContractFactory(ADAPTER_CONTRACTS[adapterType], owner)).deploy(params);
+
+    // The Comet markets and flash loan pools of the network, as deployed.
+    const { comets, flashData } = readDeploymentParams(network).TestMigratorV2 as {
+        comets: string[];
+        flashData: { liquidityPool: string; baseToken: string; isToken0: boolean }[];
+    };
+    const migrator = await (
+        await ethers.getContractFactory("MigratorV2", owner)
+    ).deploy(owner.address, [adapter.address], comets, flashData, common.dai, common.usds);
+
+    return { owner, user, book, adapter: adapter.address, migrator };
+}
+
+// Funds the user with the supplied tokens and opens the positions of the case.
+async function openPositions({ user, book }: ScenarioEnv, testCase: ScenarioCase): Promise<void> {
+    if (testCase.adapterType === "Morpho") {
+        const morpho = MorphoPool__factory.connect(book.morpho as string, user);
+        for (const supply of testCase.supplies) {
+            await fundToken(supply.token, user.address, supply.amount);
+            await ERC20__factory.connect(supply.token, user).approve(morpho.address, supply.amount);
+            const market = await morpho.idToMarketParams(supply.marketId as string);
+            await morpho.supplyCollateral(market, supply.amount, user.address, "0x").then((tx) => tx.wait());
+        }
+        for (const borrow of testCase.borrows) {
+            const market = await morpho.idToMarketParams(borrow.marketId as string);
+            await morpho.borrow(market, borrow.amount, Zero, user.address, user.address).then((tx) => tx.wait());
+        }
+        return;
+    }
+
+    // Spark is a fork of Aave V3 with the same pool interface.
+    const lending = testCase.adapterType === "Spark" ? book.spark : book.aave;
+    const pool = AavePool__factory.connect(lending?.pool as string, user);
+    for (const supply of testCase.supplies) {
+        await fundToken(supply.token, user.address, supply.amount);
+        await ERC20__factory.connect(supply.token, user).approve(pool.address, supply.amount);
+        await pool.supply(supply.token, supply.amount, user.address, 0).then((tx) => tx.wait());
+    }
+    for (const borrow of testCase.borrows) {
+        // Variable interest rate.
+        await pool.borrow(borrow.token, borrow.amount, 2, 0, user.address).then((tx) => tx.wait());
+    }
+}
+
+async function runCase(env: ScenarioEnv, testCase: ScenarioCase): Promise<void> {
+    const { user, book, adapter, migrator } = env;
+    const provider = ethers.provider;
+    const comet = IComet__factory.connect(book.comets[testCase.scenario.comet].address, user);
+
+    await openPositions(env, testCase);
+
+    const positions = await discoverPositions(provider, testCase.adapterType, adapter, user.address, {
+        marketIds: testCase.supplies.flatMap(({ marketId }) => (marketId ? [marketId] : []))
+    });
+    const quoter = quoterV2Quoter(provider, book.uniswap.quoterV2, {
+        factory: book.uniswap.factory,
+        connectors: CONNECTORS.filter((symbol) => book.tokens[symbol]).map((symbol) => book.tokens[symbol].address)
+    });
+    const planned = await planMigration(provider, positions, {
+        migrator: migrator.address,
+        adapter,
+        comet: comet.address,
+        quoter,
+        slippageBps: testCase.scenario.slippageBps ?? DEFAULT_SLIPPAGE_BPS
+    });
+    const estimate = await estimateFlashAmount(provider, planned, { bufferBps: FLASH_BUFFER_BPS });
+    expect(estimate.errors).to.be.empty;
+
+    if (testCase.adapterType === "Morpho") {
+        await MorphoPool__factory.connect(book.morpho as string, user).setAuthorization(migrator.address, true);
+    } else {
+        for (const collateral of estimate.plan.collaterals) {
+            const aToken = (collateral.aToken ?? collateral.spToken) as string;
+            await ERC20__factory.connect(aToken, user).approve(migrator.address, MaxUint256);
+        }
+    }
+    await comet.allow(migrator.address, true);
+
+    const result = await simulateMigration(provider, estimate.plan, { migrator: migrator.address, keepState: true });
+    expect(result.error?.message, "migration reverted").to.be.undefined;
+    expect(result.event).to.deep.include({ adapter, user: user.address, comet: comet.address });
+
+    for (const source of result.after.source) {
+        expect(source.amount, `${source.kind} ${source.position} left`).to.be.equal(Zero);
+    }
+    for (const supply of testCase.supplies) {
+        const asset = utils.getAddress(supply.token);
+        if (!(asset in result.after.comet.collaterals)) continue;
+        expect(
+            result.after.comet.collaterals[asset].sub(result.before.comet.collaterals[asset]),
+            `${supply.symbol} supplied to Comet`
+        ).to.be.gte(supply.amount);
+    }
+    expect(await comet.isBorrowCollateralized(user.address)).to.be.true;
+}
+
+/**
+ * Declares the tests of the scenarios: a `describe` per scenario and an `it` per adapter and network it applies to.
+ */
+export function describeScenarios(scenarios: Scenario[]): void {
+    const forkNetwork = resolveConfigNetwork(hre);
+    // `loadFixture` reverts to the snapshot of the same function, so there is one per adapter.
+    const fixtures = new Map<AdapterType, () => Promise<ScenarioEnv>>();
+    const fixture = (adapterType: AdapterType) => {
+        if (!fixtures.has(adapterType)) {
+            fixtures.set(adapterType, () => deployScenarioEnv(forkNetwork, adapterType));
+        }
+        return fixtures.get(adapterType) as () => Promise<ScenarioEnv>;
+    };
+
+    for (const scenario of scenarios) {
+        describe(scenario.name, function () {
+            for (const testCase of expandScenario(scenario)) {
+                const title = `${testCase.adapterType} on ${testCase.network}`;
+                if (testCase.network !== forkNetwork) {
+                    it.skip(title);
+                    continue;
+                }
+                it(title, async function () {
+                    await runCase(await loadFixture(fixture(testCase.adapterType)), testCase);
+                });
+            }
+        });
+    }
+}
@@ -0,0 +1,50 @@
+import { getAddressBook, tokenAddresses } from "../../sdk/addresses";
+import type { LendingAddresses, NetworkAddresses } from "../../sdk/addresses";
+
+function required<T>(value: T | undefined, entry: string, book: NetworkAddresses): T {
+    if (value === undefined) throw new Error(`No ${entry} in the address book of ${book.network}`);
+    return value;
+}
+
+function lendingAddresses(lending: LendingAddresses) {
+    return {
+        variableDebtToken: lending.variableDebtTokens,
+        pool: lending.pool,
+        protocolDataProvider: lending.protocolDataProvider,
+        wrappedTokenGateway: lending.wrappedTokenGateway
+    };
+}
+
+/**
+ * The address book of a fork network in the shapes the fork tests use. Every field is read when destructured, so a
+ * test only fails on the entries it uses.
+ */
+export function forkAddresses(network: string) {
+    const book = getAddressBook(network);
+    return {
+        get tokenAddresses() {
+            return tokenAddresses(book);
+        },
+        get aaveContractAddresses() {
+            const aave = required(book.aave, "aave", book);
+            return { aToken: aave.aTokens, ...lendingAddresses(aave) };
+        },
+        get sparkContractAddresses() {
+            const spark = required(book.spark, "spark", book);
+            return { spToken: spark.aTokens, ...lendingAddresses(spark) };
+        },
+        get morphoContractAddresses() {
+            return { pool: required(book.morpho, "morpho", book) };
+        },
+        get uniswapContractAddresses() {
+            return book.uniswap;
+        },
+        get compoundContractAddresses() {
+            const markets = Object.entries(book.comets).map(([name, { address }]) => [name, address]);
+            return { markets: Object.fromEntries(markets) as Record<string, string> };
+        },
+        get daiUsdsAddress() {
+            return required(book.daiUsds, "daiUsds", book);
+        }
+    };
+}
@@ -0,0 +1,144 @@
+import {
+    impersonateAccount,
+    setBalance,
+    setStorageAt,
+    stopImpersonatingAccount
+} from "@nomicfoundation/hardhat-network-helpers";
+import hre from "hardhat";
+import { BigNumber, utils } from "ethers";
+import type { BigNumberish } from "ethers";
+
+import { ERC20__factory } from "../../typechain-types";
+
+/*
+ * Token balances of fork tests written straight into the storage of the token, so tests do not depend on a whale
+ * still holding the token at the pinned block.
+ *
+ * The slot of the balance mapping is found by probing: a marker is written at the key of a probe account for each
+ * candidate slot, and the slot is the one that moves `balanceOf`. The storage of a proxy is the one probed, as the
+ * implementation reads it. Tokens whose balance is not a single mapping of the token itself (e.g. kept in another
+ * contract) are funded by a holder through `transfer` instead.
+ */
+
+export interface BalanceSlot {
+    slot: BigNumber;
+    // Solidity hashes the key followed by the slot, Vyper the slot followed by the key.
+    language: "solidity" | "vyper";
+}
+
+// Plain slots probed from 0. Tokens declare their balances among their first variables, or in a namespace below.
+const MAX_PROBED_SLOT = 100;
+
+// ERC-7201 namespaces of the balances: `ERC20Upgradeable` of OpenZeppelin 5.
+const NAMESPACED_SLOTS = [BigNumber.from("0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace00")];
+
+const PROBE_ACCOUNT = utils.getAddress(utils.hexDataSlice(utils.id("balance slot probe"), 12));
+const PROBE_VALUE = BigNumber.from(10).pow(30).add(1234567);
+
+// Rebasing tokens need a few writes to reach a balance; more means the slot is not the balance.
+const MAX_WRITES = 4;
+
+// Per chain and token; `null` when probing failed.
+const balanceSlots = new Map<string, BalanceSlot | null>();
+
+function balanceKey(account: string, { slot, language }: BalanceSlot): string {
+    return utils.keccak256(
+        language === "solidity"
+            ? utils.defaultAbiCoder.encode(["address", "uint256"], [account, slot])
+            : utils.defaultAbiCoder.encode(["uint256", "address"], [slot, account])
+    );
+}
+
+async function writeBalance(token: string, account: string, balanceSlot: BalanceSlot, value: BigNumberish) {
+    await setStorageAt(
+        token,
+        balanceKey(account, balanceSlot),
+        utils.hexZeroPad(BigNumber.from(value).toHexString(), 32)
+    );
+}
+
+/**
+ * The balance mapping of a token, or `undefined` when no candidate slot moves `balanceOf`. The result is cached per
+ * chain and token.
+ */
+export async function findBalanceSlot(token: string): Promise<BalanceSlot | undefined> {
+    const provider = hre.ethers.provider;
+    const cacheKey = `${(await provider.getNetwork()).chainId}:${utils.getAddress(token)}`;
+    const cached = balanceSlots.get(cacheKey);
+    if (cached !== undefined) return cached ?? undefined;
+
+    const contract = ERC20__factory.connect(token, provider);
+    const balanceOf = () => contract.balanceOf(PROBE_ACCOUNT).catch(() => undefined);
+    const before = await balanceOf();
+
+    const slots = [...Array(MAX_PROBED_SLOT + 1).keys()].map((slot) => BigNumber.from(slot)).concat(NAMESPACED_SLOTS);
+    let found: BalanceSlot | null = null;
+    for (const slot of before === undefined ? [] : slots) {
+        for (const language of ["solidity", "vyper"] as const) {
+            const candidate = { slot, language };
+            const original = await provider.getStorageAt(token, balanceKey(PROBE_ACCOUNT, candidate));
+            await writeBalance(token, PROBE_ACCOUNT, candidate, PROBE_VALUE);
+            const after = await balanceOf();
+            await setStorageAt(token, balanceKey(PROBE_ACCOUNT, candidate), original);
+            if (after !== undefined && !after.eq(before as BigNumber)) {
+                found = candidate;
+                break;
+            }
+        }
+        if (found) break;
+    }
+
+    balanceSlots.set(cacheKey, found);
+    return found ?? undefined;
+}
+
+/**
+ * Sets the token balance of an account. The balance is written to the storage of the token; for rebasing tokens the
+ * stored shares are scaled until `balanceOf` reaches the balance, which it can exceed by the rounding of the token.
+ *
+ * When the balance slot cannot be found, the difference is transferred from `holder` (or back to it), which is
+ * impersonated and given ether for the gas.
+ */
+export async function setTokenBalance(
+    token: string,
+    account: string,
+    balance: BigNumberish,
+    holder?: string
+): Promise<void> {
+    const target = BigNumber.from(balance);
+    const contract = ERC20__factory.connect(token, hre.ethers.provider);
+
+    const balanceSlot = await findBalanceSlot(token);
+    if (balanceSlot) {
+        let stored = target;
+        for (let write = 0; write < MAX_WRITES; write++) {
+            await writeBalance(token, account, balanceSlot, stored);
+            const actual = await contract.balanceOf(account);
+            if (actual.gte(target) && (actual.eq(target) || write > 0)) return;
+            if (actual.isZero()) break;
+            // Rounded up, so the next balance is not below the target.
+            stored = stored.mul(target).add(actual).sub(1).div(actual);
+        }
+        if (!holder) throw new Error(`Cannot write the balance of ${token} at slot ${balanceSlot.slot.toString()}`);
+    }
+    if (!holder) throw new Error(`No balance slot found for ${token} and no holder to transfer from`);
+
+    const current = await contract.balanceOf(account);
+    const [from, to, amount] = current.lt(target)
+        ? [holder, account, target.sub(current)]
+        : [account, holder, current.sub(target)];
+    if (amount.isZero()) return;
+
+    await setBalance(from, utils.parseEther("1000"));
+    await impersonateAccount(from);
+    await contract.connect(await hre.ethers.getSigner(from)).transfer(to, amount);
+    await stopImpersonatingAccount(from);
+}
+
+/**
+ * Adds `amount` to the token balance of an account, like a transfer from `holder`.
+ */
+export async function fundToken(token: string, account: string, amount: BigNumberish, holder?: string): Promise<void> {
+    const current = await ERC20__factory.connect(token, hre.ethers.provider).balanceOf(account);
+    await setTokenBalance(token, account, current.add(amount), holder);
+}
@@ -16,6 +16,11 @@ import { ethers } from "hardhat";
 import hre from "hardhat";
 import { BigNumber, providers } from "ethers";
 
+import { readStorageLayout, resolveStorageLocation } from "../../scripts/storage/layout";
+
+export { forkAddresses } from "./addresses";
+export { findBalanceSlot, fundToken, setTokenBalance } from "./balances";
+
 if (!process.env.npm_config_debug_log) {
     import("dotenv").then((dotenv) => dotenv.config());
 }
@@ -23,27 +28,17 @@ if (!process.env.npm_config_debug_log) {
 const { Zero, One, AddressZero, HashZero, MaxUint256 } = ethers.constants;
 const { parseEther, parseUnits, formatEther, formatUnits, solidityPack } = ethers.utils;
 
-export const logger = (...args: any[]) => process.env.npm_config_debug_log === "true" && console.log("[DEBUG]", ...args);
+export const logger = (...args: any[]) =>
+    process.env.npm_config_debug_log === "true" && console.log("[DEBUG]", ...args);
 
 export async function findSlotForVariable(contractName: string, variableName: string): Promise<BigNumber | undefined> {
-    const artifact = await hre.artifacts.readArtifact(contractName);
-    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${contractName}`);
-    if (!buildInfo) {
-        console.error(`Build info for ${contractName} not found`);
+    try {
+        const layout = await readStorageLayout(hre.artifacts, contractName);
+        return resolveStorageLocation(layout, variableName).slot;
+    } catch (error) {
+        console.error((error as Error).message);
         return;
     }
-
-    const layout = (buildInfo.output.contracts[artifact.sourceName][contractName] as any).storageLayout;
-    const entry = layout.storage.find((s: any) => s.label === variableName);
-    if (!entry) {
-        console.error(`Variable ${variableName} not found`);
-        return;
-    }
-
-    const slot: string = entry.slot;
-    // console.log(`Slot for ${variableName}:`, slot);
-
-    return BigNumber.from(slot);
 }
 export async function getStorage(
     slot: BigNumber,
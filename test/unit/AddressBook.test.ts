@@ -0,0 +1,76 @@
+import { loadFixture, ethers, expect } from "../helpers";
+
+import { checkAddressBook, getAddressBook, resolveAddress } from "../../sdk/addresses";
+import type { NetworkAddresses } from "../../sdk/addresses";
+import { readDeploymentParams } from "../../tasks/deploy";
+
+describe("Address book", function () {
+    async function setupBook() {
+        const [deployer] = await ethers.getSigners();
+        const deploy = async (name: string, ...args: unknown[]) =>
+            (await ethers.getContractFactory(name)).deploy(...args);
+
+        const dai = await deploy("MockERC20", "DAI", "DAI", 0, deployer.address);
+        const usdt = await deploy("MockERC20", "USDT", "USDT", 0, deployer.address);
+        const aDai = await deploy("MockAToken", "aDAI", "aDAI", dai.address);
+        const comet = await deploy("MockComet", usdt.address, dai.address);
+
+        // A book of the mocks with two wrong entries: the decimals of USDT and the base token of cDAIv3.
+        const book: NetworkAddresses = {
+            network: "mocks",
+            chainId: 1,
+            tokens: {
+                DAI: { address: dai.address, decimals: 18 },
+                USDT: { address: usdt.address, decimals: 6 }
+            },
+            aave: {
+                pool: comet.address,
+                protocolDataProvider: comet.address,
+                wrappedTokenGateway: comet.address,
+                aTokens: { DAI: aDai.address },
+                variableDebtTokens: {}
+            },
+            uniswap: { router: comet.address, factory: comet.address, quoterV2: comet.address, pools: {} },
+            comets: {
+                cUSDTv3: { address: comet.address, baseToken: "USDT" },
+                cDAIv3: { address: comet.address, baseToken: "DAI" }
+            }
+        };
+        return { book, dai, usdt, comet };
+    }
+
+    it("Should report the decimals and base tokens that disagree with the chain", async function () {
+        const { book, usdt } = await loadFixture(setupBook);
+
+        expect(await checkAddressBook(ethers.provider, book)).to.be.deep.equal([
+            { entry: "tokens.USDT", message: "decimals() is 18, expected 6" },
+            {
+                entry: "comets.cDAIv3",
+                message: `baseToken() is ${usdt.address}, expected DAI ${book.tokens.DAI.address}`
+            }
+        ]);
+
+        const morpho = ethers.Wallet.createRandom().address;
+        expect(await checkAddressBook(ethers.provider, { ...book, morpho, comets: {} })).to.deep.include({
+            entry: "morpho",
+            message: `no contract at ${morpho}`
+        });
+    });
+
+    it("Should resolve the entries of the book and of deploymentParams", function () {
+        const book = getAddressBook("ethereum");
+        expect(getAddressBook(1)).to.be.equal(book);
+        expect(resolveAddress(book, "comets.cUSDSv3")).to.be.equal("0x5D409e56D886231aDAf00c8775665AD0f9897b56");
+        expect(resolveAddress(book, "tokens.USDS")).to.be.equal(book.tokens.USDS.address);
+        expect(() => resolveAddress(book, "aave")).to.throw(/No address at aave/);
+        expect(() => getAddressBook(5)).to.throw(/No address book/);
+
+        const params = readDeploymentParams("ethereum");
+        expect(params.TestAaveV3UsdsAdapter).to.include({
+            uniswapRouter: book.uniswap.router,
+            daiUsdsConverter: book.daiUsds,
+            aaveLendingPool: book.aave?.pool
+        });
+        expect(JSON.stringify(params)).not.to.include("@");
+    });
+});
@@ -0,0 +1,111 @@
+import { loadFixture, ethers, expect, parseEther } from "../helpers";
+
+import { checkAdminCalls, encodeAdminCall, toSafeTransactionBatch } from "../../sdk/admin";
+import type { AdminCall } from "../../sdk/admin";
+
+describe("Admin calls", function () {
+    async function setupMigrator() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [DAI, USDS, USDC, WETH] = await Promise.all(["DAI", "USDS", "USDC", "WETH"].map(deployToken));
+
+        const MockComet = await ethers.getContractFactory("MockComet");
+        const cometUSDC = await MockComet.deploy(USDC.address, WETH.address);
+        const cometWETH = await MockComet.deploy(WETH.address, USDC.address);
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(USDC.address, WETH.address);
+
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            [],
+            [cometUSDC.address],
+            [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: true }],
+            DAI.address,
+            USDS.address
+        );
+
+        return { tokens: { USDC, WETH }, cometUSDC, cometWETH, pool, migrator };
+    }
+
+    it("Should report the calls that would revert", async function () {
+        const { tokens, cometUSDC, cometWETH, pool, migrator } = await loadFixture(setupMigrator);
+        const adapter = tokens.WETH.address;
+
+        const { errors } = await checkAdminCalls(ethers.provider, migrator.address, [
+            { method: "setAdapter", args: [adapter] },
+            { method: "setAdapter", args: [adapter] },
+            { method: "removeAdapter", args: [adapter] },
+            {
+                method: "setFlashData",
+                args: [
+                    cometUSDC.address,
+                    { liquidityPool: pool.address, baseToken: tokens.USDC.address, isToken0: true }
+                ]
+            },
+            {
+                method: "setFlashData",
+                args: [
+                    cometWETH.address,
+                    { liquidityPool: pool.address, baseToken: tokens.USDC.address, isToken0: true }
+                ]
+            },
+            { method: "unpause", args: [] }
+        ]);
+
+        expect(errors).to.have.length(5);
+        expect(errors[0]).to.include("AdapterAlreadyAllowed");
+        expect(errors[1]).to.include("ExpectedPause");
+        expect(errors[2]).to.include("CometAlreadyConfigured");
+        expect(errors[3]).to.include("BaseTokenMismatch");
+        expect(errors[4]).to.include("ExpectedPause");
+    });
+
+    it("Should follow the state changes of the previous calls", async function () {
+        const { tokens, cometWETH, pool, migrator } = await loadFixture(setupMigrator);
+        const adapter = tokens.WETH.address;
+
+        const calls: AdminCall[] = [
+            { method: "setAdapter", args: [adapter] },
+            { method: "pause", args: [] },
+            { method: "removeAdapter", args: [adapter] },
+            { method: "unpause", args: [] },
+            {
+                method: "setFlashData",
+                args: [
+                    cometWETH.address,
+                    { liquidityPool: pool.address, baseToken: tokens.WETH.address, isToken0: false }
+                ]
+            }
+        ];
+        expect(await checkAdminCalls(ethers.provider, migrator.address, calls)).to.be.deep.equal({
+            errors: [],
+            warnings: []
+        });
+
+        const { warnings } = await checkAdminCalls(ethers.provider, migrator.address, [{ method: "pause", args: [] }]);
+        expect(warnings).to.have.length(1);
+    });
+
+    it("Should export the calls as a Safe Transaction Builder batch", async function () {
+        const { migrator } = await loadFixture(setupMigrator);
+        const safe = ethers.Wallet.createRandom().address;
+        const calls: AdminCall[] = [
+            { method: "pause", args: [] },
+            { method: "removeFlashData", args: [safe] }
+        ];
+
+        const batch = toSafeTransactionBatch(1, safe, migrator.address, calls);
+
+        expect(batch).to.include({ version: "1.0", chainId: "1" });
+        expect(batch.meta.createdFromSafeAddress).to.be.equal(safe);
+        expect(batch.transactions.map(({ to }) => to)).to.be.deep.equal([migrator.address, migrator.address]);
+        expect(batch.transactions[0].data).to.be.equal(migrator.interface.encodeFunctionData("pause"));
+        expect(batch.transactions[1].data).to.be.equal(encodeAdminCall(calls[1]));
+        expect(migrator.interface.decodeFunctionData("removeFlashData", batch.transactions[1].data)[0]).to.be.equal(
+            safe
+        );
+    });
+});
@@ -0,0 +1,134 @@
+import { loadFixture, ethers, expect, parseEther } from "../helpers";
+import type { providers } from "ethers";
+
+import { auditMigratorConfig, expectedMigratorConfig } from "../../scripts/deploy/utils/audit";
+import { CONFIG_NETWORKS } from "../../scripts/deploy/utils/engine";
+import type { ContractParams } from "../../scripts/deploy/utils/engine";
+import { latestDeployments, readRegistry } from "../../scripts/deploy/utils/registry";
+import { readDeploymentParams } from "../../tasks/deploy";
+
+describe("Config audit", function () {
+    async function setupMigrator() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [DAI, USDS, USDC, WETH] = await Promise.all(["DAI", "USDS", "USDC", "WETH"].map(deployToken));
+
+        const MockComet = await ethers.getContractFactory("MockComet");
+        const cometUSDC = await MockComet.deploy(USDC.address, WETH.address);
+        const cometWETH = await MockComet.deploy(WETH.address, USDC.address);
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(USDC.address, WETH.address);
+
+        // Any contract can be allowed as an adapter.
+        const adapter = DAI.address;
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            [adapter],
+            [cometUSDC.address],
+            [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: true }],
+            DAI.address,
+            USDS.address
+        );
+
+        const params: Record<string, ContractParams> = {
+            MigratorV2: {
+                multisig: owner.address,
+                adapters: ["AaveV3UsdsAdapter"],
+                comets: [cometUSDC.address],
+                flashData: [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: true }],
+                dai: DAI.address,
+                usds: USDS.address
+            },
+            AaveV3UsdsAdapter: {}
+        };
+        const records = { AaveV3UsdsAdapter: { address: adapter, deployedBlock: 0, chainId: 31337 } };
+
+        const { blockNumber } = await migrator.deployTransaction.wait();
+
+        return { tokens: { USDC, WETH }, cometWETH, pool, migrator, params, records, blockNumber };
+    }
+
+    it("Should find no difference with the config of the deployment", async function () {
+        const { migrator, params, records } = await loadFixture(setupMigrator);
+
+        const expected = expectedMigratorConfig("MigratorV2", params, records);
+        expect(expected.adapters).to.be.deep.equal([records.AaveV3UsdsAdapter.address]);
+        expect(await auditMigratorConfig(ethers.provider, migrator.address, expected)).to.be.deep.equal([]);
+    });
+
+    it("Should resolve the adapters of the configured migrators from the deployment records", function () {
+        const registry = readRegistry();
+        for (const configNetwork of ["ethereum", "arbitrum", "base", "polygon", "optimism"]) {
+            const network =
+                Object.keys(CONFIG_NETWORKS).find((name) => CONFIG_NETWORKS[name] === configNetwork) ?? configNetwork;
+            const records = latestDeployments(registry, network);
+            const expected = expectedMigratorConfig("TestMigratorV2", readDeploymentParams(configNetwork), records);
+            expect(expected.unresolvedAdapters, configNetwork).to.be.deep.equal([]);
+            expect(expected.adapters, configNetwork).to.have.length.above(0);
+        }
+    });
+
+    it("Should report missing, extra and mismatched entries", async function () {
+        const { tokens, cometWETH, pool, migrator, params, records } = await loadFixture(setupMigrator);
+
+        // Configured on-chain only, with the wrong `isToken0`.
+        await migrator.setFlashData(cometWETH.address, {
+            liquidityPool: pool.address,
+            baseToken: tokens.WETH.address,
+            isToken0: true
+        });
+        const multisig = ethers.Wallet.createRandom().address;
+        const expected = expectedMigratorConfig(
+            "MigratorV2",
+            { ...params, MigratorV2: { ...params.MigratorV2, multisig, adapters: ["AaveV3UsdsAdapter", "Unknown"] } },
+            records
+        );
+        expected.adapters = [];
+
+        const drifts = await auditMigratorConfig(ethers.provider, migrator.address, expected);
+
+        expect(drifts.map(({ kind, field }) => `${kind} ${field}`)).to.be.deep.equal([
+            "mismatch owner",
+            "missing adapters",
+            "extra adapters",
+            `extra flashData[${cometWETH.address}]`,
+            `mismatch flashData[${cometWETH.address}].isToken0`
+        ]);
+        expect(drifts[0]).to.include({ expected: multisig });
+        expect(drifts[1].expected).to.be.equal("Unknown");
+    });
+
+    it("Should read the flash data events in pages the provider accepts", async function () {
+        const { tokens, cometWETH, pool, migrator, params, records, blockNumber } = await loadFixture(setupMigrator);
+        await migrator.setFlashData(cometWETH.address, {
+            liquidityPool: pool.address,
+            baseToken: tokens.WETH.address,
+            isToken0: false
+        });
+        await ethers.provider.send("hardhat_mine", ["0x4"]);
+
+        // A provider limiting `eth_getLogs` to 2 blocks.
+        const ranges: number[] = [];
+        const provider = {
+            _isProvider: true,
+            call: (transaction: providers.TransactionRequest) => ethers.provider.call(transaction),
+            getBlockNumber: () => ethers.provider.getBlockNumber(),
+            getLogs: (filter: providers.Filter) => {
+                const range = (filter.toBlock as number) - (filter.fromBlock as number) + 1;
+                ranges.push(range);
+                if (range > 2) return Promise.reject(new Error("block range is too wide"));
+                return ethers.provider.getLogs(filter);
+            }
+        } as unknown as providers.Provider;
+
+        const expected = expectedMigratorConfig("MigratorV2", params, records);
+        const drifts = await auditMigratorConfig(provider, migrator.address, expected, blockNumber);
+        expect(drifts.map(({ kind, field }) => `${kind} ${field}`)).to.be.deep.equal([
+            `extra flashData[${cometWETH.address}]`
+        ]);
+        expect(ranges.filter((range) => range <= 2)).to.have.length.above(1);
+    });
+});
@@ -0,0 +1,155 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+import type { ContractFactory } from "ethers";
+import hre from "hardhat";
+import { ethers, expect } from "../helpers";
+
+import { constructorArgs } from "../../scripts/deploy/utils/engine";
+import type { DeploymentRegistry } from "../../scripts/deploy/utils/registry";
+import {
+    buildVerificationRequest,
+    deploymentContract,
+    resolveConstructorArgs,
+    verifyContract,
+    verifyDeployment
+} from "../../scripts/deploy/utils/verification";
+import type { Explorer, VerificationRequest } from "../../scripts/deploy/utils/verification";
+
+describe("Contract verification", function () {
+    const random = () => ethers.Wallet.createRandom().address;
+    const noWait = { sleep: () => Promise.resolve() };
+    const { AddressZero } = ethers.constants;
+
+    const adapterParams = {
+        uniswapRouter: random(),
+        daiUsdsConverter: AddressZero,
+        dai: AddressZero,
+        usds: AddressZero,
+        aaveLendingPool: random(),
+        aaveDataProvider: random(),
+        isFullMigration: true,
+        useSwapRouter02: false
+    };
+
+    // A stand-in for the Etherscan API answering the queued responses of each action in turn.
+    function startExplorer(responses: Record<string, [number, Record<string, string>][]>) {
+        const requests: Record<string, string>[] = [];
+        const server = http.createServer((request, response) => {
+            let body = "";
+            request.on("data", (chunk: Buffer) => (body += chunk.toString()));
+            request.on("end", () => {
+                const query = new URLSearchParams(request.method === "POST" ? body : request.url?.split("?")[1]);
+                const params = Object.fromEntries(query.entries());
+                requests.push(params);
+                const [status, payload] = responses[params.action].shift() ?? [500, {}];
+                response.writeHead(status, { "Content-Type": "application/json" });
+                response.end(JSON.stringify(payload));
+            });
+        });
+        return new Promise<{ explorer: Explorer; requests: typeof requests; close: () => void }>((resolve) => {
+            server.listen(0, "127.0.0.1", () => {
+                const { port } = server.address() as AddressInfo;
+                const explorer = { apiUrl: `http://127.0.0.1:${port}/api`, apiKey: "key" };
+                resolve({ explorer, requests, close: () => server.close() });
+            });
+        });
+    }
+
+    const request: VerificationRequest = {
+        address: random(),
+        contractName: "contracts/MigratorV2.sol:MigratorV2",
+        compilerVersion: "0.8.28+commit.7893614a",
+        sourceCode: "{}",
+        constructorArguments: ""
+    };
+
+    it("Should encode struct constructor arguments as the deployment did", async function () {
+        const factory: ContractFactory = await ethers.getContractFactory("AaveV3UsdsAdapter");
+        const args = constructorArgs("AaveV3UsdsAdapter", factory.interface.deploy.inputs, adapterParams);
+        const adapter = await factory.deploy(...args);
+        const { chainId } = await ethers.provider.getNetwork();
+        const entry = { address: adapter.address, deployedBlock: 0, chainId };
+
+        const registry: DeploymentRegistry = { version: 1, networks: {} };
+        const params = { AaveV3UsdsAdapter: adapterParams };
+        const rebuilt = await resolveConstructorArgs(hre, registry, "hardhat", "AaveV3UsdsAdapter", entry, params);
+        expect(rebuilt).to.be.deep.equal(args);
+
+        const { constructorArguments, contractName } = await buildVerificationRequest(
+            hre,
+            "AaveV3UsdsAdapter",
+            entry,
+            rebuilt
+        );
+        expect(contractName).to.match(/AaveV3UsdsAdapter\.sol:AaveV3UsdsAdapter$/);
+        expect(adapter.deployTransaction.data.endsWith(constructorArguments)).to.be.true;
+        expect(constructorArguments).to.have.length(64 * 8);
+    });
+
+    it("Should find the artifact of an entry named differently in deploymentParams", async function () {
+        const factory: ContractFactory = await ethers.getContractFactory("AaveV3UsdsAdapter");
+        const args = constructorArgs("TestAdapter", factory.interface.deploy.inputs, adapterParams);
+        const adapter = await factory.deploy(...args);
+        // Like the records migrated from `deploymentAddresses.json`: no `contract`, no `args`.
+        const entry = { address: adapter.address, deployedBlock: 0, chainId: 31337 };
+
+        const registry: DeploymentRegistry = { version: 1, networks: {} };
+        const params = { TestAdapter: { contract: "AaveV3UsdsAdapter", ...adapterParams } };
+        const contract = deploymentContract("TestAdapter", entry, params);
+        expect(contract).to.be.equal("AaveV3UsdsAdapter");
+        expect(deploymentContract("TestAdapter", entry)).to.be.equal("TestAdapter");
+
+        const rebuilt = await resolveConstructorArgs(hre, registry, "hardhat", "TestAdapter", entry, params);
+        const { constructorArguments, contractName } = await buildVerificationRequest(hre, contract, entry, rebuilt);
+        expect(contractName).to.match(/AaveV3UsdsAdapter\.sol:AaveV3UsdsAdapter$/);
+        expect(adapter.deployTransaction.data.endsWith(constructorArguments)).to.be.true;
+
+        const legacy = { TestAdapter: { legacy: true, ...adapterParams } };
+        await expect(resolveConstructorArgs(hre, registry, "hardhat", "TestAdapter", entry, legacy)).to.be.rejectedWith(
+            "legacy entries are not rebuilt"
+        );
+    });
+
+    it("Should retry rate limits and poll until the verification passes", async function () {
+        const { explorer, requests, close } = await startExplorer({
+            verifysourcecode: [
+                [429, {}],
+                [200, { status: "0", message: "NOTOK", result: "Max rate limit reached" }],
+                [200, { status: "1", message: "OK", result: "guid-1" }]
+            ],
+            checkverifystatus: [
+                [200, { status: "0", message: "NOTOK", result: "Pending in queue" }],
+                [200, { status: "1", message: "OK", result: "Pass - Verified" }]
+            ]
+        });
+        try {
+            const record = await verifyContract(explorer, request, noWait);
+            expect(record).to.include({ status: "verified", attempts: 3, guid: "guid-1", message: "Pass - Verified" });
+            expect(requests[0]).to.include({
+                contractname: request.contractName,
+                compilerversion: "v0.8.28+commit.7893614a"
+            });
+            expect(requests.map(({ action }) => action)).to.have.length(5);
+        } finally {
+            close();
+        }
+    });
+
+    it("Should record rejected verifications and deployments without code as failed", async function () {
+        const { explorer, close } = await startExplorer({
+            verifysourcecode: [[200, { status: "1", message: "OK", result: "guid-2" }]],
+            checkverifystatus: [[200, { status: "0", message: "NOTOK", result: "Fail - Unable to verify" }]]
+        });
+        try {
+            const record = await verifyContract(explorer, request, noWait);
+            expect(record).to.include({ status: "failed", message: "Fail - Unable to verify" });
+
+            const entry = { address: random(), deployedBlock: 0, chainId: 31337 };
+            const missing = await verifyDeployment(hre, explorer, "MigratorV2", entry, [], { ...noWait, retries: 1 });
+            expect(missing.status).to.be.equal("failed");
+            expect(missing.message).to.match(/No code at .* \(after 2 attempts\)/);
+        } finally {
+            close();
+        }
+    });
+});
@@ -0,0 +1,131 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre from "hardhat";
+import { ethers, expect } from "../helpers";
+
+import { DEFAULT_CREATE2_FACTORY, create2Salt, predictCreate2Address } from "../../scripts/deploy/utils/create2";
+import { runDeployment, sharedCreate2Entries } from "../../scripts/deploy/utils/engine";
+import type { ContractParams } from "../../scripts/deploy/utils/engine";
+import { getLatest, readRegistry } from "../../scripts/deploy/utils/registry";
+import { readDeploymentParams } from "../../tasks/deploy";
+
+describe("CREATE2 deployments", function () {
+    // The runtime code of the deterministic deployment proxy.
+    const PROXY_CODE =
+        "0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe036016000816020823780358282" +
+        "34f58015156039578182fd5b8082525050506014600cf3";
+    const create2 = { factory: DEFAULT_CREATE2_FACTORY, version: "1" };
+    const { AddressZero } = ethers.constants;
+
+    const params: Record<string, ContractParams> = {
+        AaveV3UsdsAdapter: {
+            uniswapRouter: "0x1111111111111111111111111111111111111111",
+            daiUsdsConverter: AddressZero,
+            dai: AddressZero,
+            usds: AddressZero,
+            aaveLendingPool: "0x2222222222222222222222222222222222222222",
+            aaveDataProvider: "0x3333333333333333333333333333333333333333",
+            isFullMigration: true,
+            useSwapRouter02: false
+        },
+        MigratorV2: {
+            multisig: "0x4444444444444444444444444444444444444444",
+            comets: [],
+            flashData: [],
+            dai: AddressZero,
+            usds: AddressZero
+        }
+    };
+
+    const registryFile = () => {
+        return path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployments-")), "deployments.json");
+    };
+
+    before(async function () {
+        await ethers.provider.send("hardhat_setCode", [DEFAULT_CREATE2_FACTORY, PROXY_CODE]);
+    });
+
+    it("Should derive the salt from the name and the version", async function () {
+        expect(create2Salt("MigratorV2", "1")).to.be.equal(ethers.utils.id("MigratorV2@1"));
+        expect(create2Salt("MigratorV2", "2")).to.not.be.equal(create2Salt("MigratorV2", "1"));
+
+        const factory = await ethers.getContractFactory("MigratorV2");
+        const initCode = factory.getDeployTransaction(
+            params.MigratorV2.multisig as string,
+            [],
+            [],
+            [],
+            AddressZero,
+            AddressZero
+        ).data as string;
+        const salt = create2Salt("MigratorV2", "1");
+        expect(predictCreate2Address(DEFAULT_CREATE2_FACTORY, salt, initCode)).to.be.equal(
+            ethers.utils.getCreate2Address(DEFAULT_CREATE2_FACTORY, salt, ethers.utils.keccak256(initCode))
+        );
+    });
+
+    it("Should deploy at the predicted addresses and detect existing contracts", async function () {
+        const file = registryFile();
+        const planned = await runDeployment(hre, { params, registryFile: file, create2, dryRun: true });
+        expect(planned.map(({ status }) => status)).to.be.deep.equal(["planned", "planned"]);
+
+        const deployed = await runDeployment(hre, { params, registryFile: file, create2 });
+        expect(deployed.map(({ address }) => address)).to.be.deep.equal(planned.map(({ address }) => address));
+        const [adapter, migrator] = deployed;
+        const contract = await ethers.getContractAt("MigratorV2", migrator.address as string);
+        expect(await contract.getAdapters()).to.be.deep.equal([adapter.address]);
+        expect(getLatest(readRegistry(file), "hardhat", "MigratorV2")?.deployer).to.not.be.undefined;
+
+        // Another registry, e.g. of a machine that did not deploy them.
+        const otherFile = registryFile();
+        const existing = await runDeployment(hre, { params, registryFile: otherFile, create2 });
+        expect(existing.map(({ status, reason }) => [status, reason])).to.be.deep.equal([
+            ["skipped", "at the predicted address"],
+            ["skipped", "at the predicted address"]
+        ]);
+        // The block of the deployment, found from the code at past blocks.
+        expect(getLatest(readRegistry(otherFile), "hardhat", "MigratorV2")).to.include({
+            address: migrator.address,
+            deployedBlock: getLatest(readRegistry(file), "hardhat", "MigratorV2")?.deployedBlock
+        });
+
+        const bumped = await runDeployment(hre, {
+            params,
+            registryFile: registryFile(),
+            create2: { ...create2, version: "2" },
+            dryRun: true
+        });
+        expect(bumped.map(({ status }) => status)).to.be.deep.equal(["planned", "planned"]);
+        expect(bumped[1].address).to.not.be.equal(migrator.address);
+    });
+
+    it("Should only share the addresses of the entries built the same way on both networks", function () {
+        // The same adapter on another network, with the migrator on its own multisig.
+        const otherParams = { ...params, MigratorV2: { ...params.MigratorV2, multisig: AddressZero } };
+        expect(sharedCreate2Entries(params, params)).to.be.deep.equal(["AaveV3UsdsAdapter", "MigratorV2"]);
+        expect(sharedCreate2Entries(params, otherParams)).to.be.deep.equal(["AaveV3UsdsAdapter"]);
+
+        // A migrator built on an adapter that differs between the networks differs too.
+        const otherAdapter = { ...params.AaveV3UsdsAdapter, isFullMigration: false };
+        expect(sharedCreate2Entries(params, { ...params, AaveV3UsdsAdapter: otherAdapter })).to.be.deep.equal([]);
+
+        // Only the path finder, on the networks where Uniswap V3 has the same addresses: the other entries of the
+        // config take pools, comets or adapters of their network.
+        const networks = ["ethereum", "arbitrum", "base", "polygon", "optimism"];
+        const shared = networks.flatMap((network, index) =>
+            networks
+                .slice(index + 1)
+                .flatMap((other) =>
+                    sharedCreate2Entries(readDeploymentParams(network), readDeploymentParams(other)).map(
+                        (name) => `${network}/${other}: ${name}`
+                    )
+                )
+        );
+        expect(shared).to.be.deep.equal([
+            "arbitrum/polygon: TestUniswapV3PathFinder",
+            "arbitrum/optimism: TestUniswapV3PathFinder",
+            "polygon/optimism: TestUniswapV3PathFinder"
+        ]);
+    });
+});
@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre from "hardhat";
+import { ethers, expect } from "../helpers";
+
+import { planDeployment, runDeployment } from "../../scripts/deploy/utils/engine";
+import type { ContractParams } from "../../scripts/deploy/utils/engine";
+import { getLatest, history, readRegistry, writeRegistry } from "../../scripts/deploy/utils/registry";
+
+describe("Deployment engine", function () {
+    const random = () => ethers.Wallet.createRandom().address;
+    const { AddressZero } = ethers.constants;
+
+    function deploymentParams(): Record<string, ContractParams> {
+        return {
+            MigratorV2: { multisig: random(), comets: [], flashData: [], dai: AddressZero, usds: AddressZero },
+            AaveV3UsdsAdapter: {
+                uniswapRouter: random(),
+                daiUsdsConverter: AddressZero,
+                dai: AddressZero,
+                usds: AddressZero,
+                aaveLendingPool: random(),
+                aaveDataProvider: random(),
+                isFullMigration: true,
+                useSwapRouter02: false,
+                // Fields outside of the struct are ignored.
+                wrappedNativeToken: random()
+            }
+        };
+    }
+
+    let registryFile: string;
+
+    beforeEach(function () {
+        registryFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployments-")), "deployments.json");
+    });
+
+    it("Should deploy the adapters before the migrators", function () {
+        const params = deploymentParams();
+        expect(planDeployment(params).map(({ name }) => name)).to.be.deep.equal(["AaveV3UsdsAdapter", "MigratorV2"]);
+        expect(planDeployment(params, ["MigratorV2"]).map(({ kind }) => kind)).to.be.deep.equal(["migrator"]);
+        expect(() => planDeployment(params, ["SparkUsdsAdapter"])).to.throw(/SparkUsdsAdapter/);
+
+        const [step] = planDeployment({ TestAdapter: { contract: "AaveV3UsdsAdapter" } });
+        expect(step).to.include({ name: "TestAdapter", contract: "AaveV3UsdsAdapter", kind: "adapter" });
+
+        const legacy = { ...params, TestAaveV3Adapter: { legacy: true, uniswapRouter: random() } };
+        expect(planDeployment(legacy).map(({ name }) => name)).to.be.deep.equal(["AaveV3UsdsAdapter", "MigratorV2"]);
+        expect(() => planDeployment(legacy, ["TestAaveV3Adapter"])).to.throw(/Legacy deployments/);
+    });
+
+    it("Should deploy the migrator with the deployed adapters and skip them afterwards", async function () {
+        const params = deploymentParams();
+
+        const results = await runDeployment(hre, { params, registryFile });
+        expect(results.map(({ status }) => status)).to.be.deep.equal(["deployed", "deployed"]);
+
+        const [adapter, migrator] = results;
+        const contract = await ethers.getContractAt("MigratorV2", migrator.address as string);
+        expect(await contract.getAdapters()).to.be.deep.equal([adapter.address]);
+
+        const registry = readRegistry(registryFile);
+        expect(getLatest(registry, "hardhat", "MigratorV2")?.address).to.be.equal(migrator.address);
+        expect(getLatest(registry, "hardhat", "AaveV3UsdsAdapter")?.args).to.have.length(1);
+
+        const again = await runDeployment(hre, { params, registryFile });
+        expect(again.map(({ status }) => status)).to.be.deep.equal(["skipped", "skipped"]);
+    });
+
+    it("Should redeploy the contracts whose arguments changed", async function () {
+        const params = deploymentParams();
+        await runDeployment(hre, { params, registryFile });
+
+        params.MigratorV2.multisig = random();
+        const dryRun = await runDeployment(hre, { params, registryFile, dryRun: true });
+        expect(dryRun.map(({ status }) => status)).to.be.deep.equal(["skipped", "planned"]);
+        expect(dryRun[1].reason).to.be.equal("constructor arguments changed");
+
+        const [migrator] = await runDeployment(hre, { params, registryFile, only: ["MigratorV2"] });
+        expect(migrator.status).to.be.equal("deployed");
+        expect(migrator.args[1]).to.be.deep.equal([dryRun[0].address]);
+
+        const migrators = history(readRegistry(registryFile), "hardhat", "MigratorV2");
+        expect(migrators).to.have.length(2);
+        expect(migrators[1].replaces).to.be.equal(migrators[0].address);
+
+        delete params.AaveV3UsdsAdapter.useSwapRouter02;
+        await expect(runDeployment(hre, { params, registryFile })).to.be.rejectedWith(
+            "AaveV3UsdsAdapter.useSwapRouter02 is missing"
+        );
+    });
+
+    it("Should plan the migrator with the adapters planned in the same dry run", async function () {
+        const results = await runDeployment(hre, { params: deploymentParams(), registryFile, dryRun: true });
+
+        expect(results.map(({ status }) => status)).to.be.deep.equal(["planned", "planned"]);
+        expect(results[1].args[1]).to.be.deep.equal(["<AaveV3UsdsAdapter>"]);
+        expect(fs.existsSync(registryFile)).to.be.false;
+    });
+
+    it("Should keep the live contracts recorded without bytecode and arguments", async function () {
+        const params = deploymentParams();
+        const [adapter] = await runDeployment(hre, { params, registryFile, only: ["AaveV3UsdsAdapter"] });
+
+        // Like the records migrated from `deploymentAddresses.json`.
+        const registry = readRegistry(registryFile);
+        const record = { deployedBlock: 0, chainId: 31337 };
+        registry.networks.hardhat = {
+            AaveV3UsdsAdapter: [{ address: adapter.address as string, ...record }],
+            MigratorV2: [{ address: random(), ...record }]
+        };
+        writeRegistry(registry, registryFile);
+
+        const results = await runDeployment(hre, { params, registryFile, dryRun: true });
+        expect(results.map(({ status, unverifiable, reason }) => [status, unverifiable, reason])).to.be.deep.equal([
+            ["skipped", true, undefined],
+            ["planned", undefined, "no code at the recorded address"]
+        ]);
+        expect(results[0].address).to.be.equal(adapter.address);
+    });
+});
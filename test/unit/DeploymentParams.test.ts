@@ -0,0 +1,113 @@
+import { loadFixture, ethers, expect, parseEther } from "../helpers";
+
+import type { ContractParams } from "../../scripts/deploy/utils/engine";
+import { validateDeploymentParams, validateParams } from "../../scripts/deploy/utils/schema";
+
+describe("Deployment parameters", function () {
+    const random = () => ethers.Wallet.createRandom().address;
+    const { AddressZero } = ethers.constants;
+
+    async function setupComets() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [DAI, USDS, USDC, WETH] = await Promise.all(["DAI", "USDS", "USDC", "WETH"].map(deployToken));
+
+        const MockComet = await ethers.getContractFactory("MockComet");
+        const cometUsdc = await MockComet.deploy(USDC.address, WETH.address);
+        const cometUsds = await MockComet.deploy(USDS.address, WETH.address);
+
+        return { tokens: { DAI, USDS, USDC, WETH }, cometUsdc, cometUsds };
+    }
+
+    function adapterParams(): ContractParams {
+        return {
+            uniswapRouter: random(),
+            daiUsdsConverter: random(),
+            dai: random(),
+            usds: random(),
+            aaveLendingPool: random(),
+            aaveDataProvider: random(),
+            isFullMigration: true,
+            useSwapRouter02: false
+        };
+    }
+
+    it("Should accept parameters that the constructors accept", function () {
+        const params = {
+            AaveV3UsdsAdapter: adapterParams(),
+            MigratorV2: {
+                multisig: random(),
+                adapters: ["AaveV3UsdsAdapter", random()],
+                comets: [random()],
+                flashData: [{ liquidityPool: random(), baseToken: random(), isToken0: true }],
+                dai: AddressZero,
+                usds: AddressZero
+            }
+        };
+
+        expect(validateParams(params)).to.be.deep.equal({ errors: [], warnings: [] });
+    });
+
+    it("Should report the parameters that revert the constructors", function () {
+        const comet = random();
+        const params = {
+            TestAaveV3UsdsAdapter: { ...adapterParams(), daiUsdsConverter: AddressZero, aaveDataProvider: AddressZero },
+            TestAaveV3Adapter: { uniswapRouter: random(), isFullMigration: true },
+            TestMorphoAdapter: { legacy: true, uniswapRouter: random(), isFullMigration: true },
+            MigratorV2: {
+                multisig: random().toLowerCase(),
+                adapters: ["SparkUsdsAdapter"],
+                comets: [comet, comet],
+                flashData: [{ liquidityPool: random(), baseToken: random(), isToken0: "false" }],
+                dai: random(),
+                usds: AddressZero,
+                owner: random()
+            }
+        };
+
+        const { errors, warnings } = validateParams(params);
+        expect(errors).to.have.members([
+            "TestAaveV3UsdsAdapter.aaveDataProvider must not be the zero address",
+            "TestAaveV3UsdsAdapter: daiUsdsConverter, dai and usds must all be set or all be zero",
+            `MigratorV2.multisig must be a checksummed address, got "${params.MigratorV2.multisig}"`,
+            "MigratorV2.adapters[0] names an unknown adapter SparkUsdsAdapter",
+            `MigratorV2.comets lists ${comet} more than once`,
+            "MigratorV2.flashData[0].isToken0 must be true or false",
+            "MigratorV2: dai and usds must both be zero, or both be set to different addresses",
+            "MigratorV2: 2 comets but 1 flashData entries",
+            "TestAaveV3Adapter: unknown contract TestAaveV3Adapter, expected one of MigratorV2, AaveV3UsdsAdapter, " +
+                "SparkUsdsAdapter, MorphoUsdsAdapter, UniswapV3PathFinder"
+        ]);
+        expect(warnings).to.be.deep.equal(["MigratorV2.owner is not used"]);
+    });
+
+    it("Should check the flash loan tokens against the Comet base tokens", async function () {
+        const { tokens, cometUsdc, cometUsds } = await loadFixture(setupComets);
+        const migrator = (baseTokens: string[]) => ({
+            MigratorV2: {
+                multisig: random(),
+                comets: [cometUsdc.address, cometUsds.address],
+                flashData: baseTokens.map((baseToken) => ({ liquidityPool: random(), baseToken, isToken0: true })),
+                dai: tokens.DAI.address,
+                usds: tokens.USDS.address
+            }
+        });
+
+        const valid = await validateDeploymentParams(
+            migrator([tokens.USDC.address, tokens.DAI.address]),
+            ethers.provider
+        );
+        expect(valid.errors).to.be.empty;
+
+        const { errors } = await validateDeploymentParams(
+            migrator([tokens.WETH.address, tokens.USDS.address]),
+            ethers.provider
+        );
+        expect(errors).to.be.deep.equal([
+            `MigratorV2.flashData[0].baseToken is ${tokens.WETH.address}, but the base token of ` +
+                `${cometUsdc.address} is ${tokens.USDC.address}`
+        ]);
+    });
+});
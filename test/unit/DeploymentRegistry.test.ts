@@ -0,0 +1,59 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { expect } from "../helpers";
+
+import {
+    getAt,
+    getLatest,
+    list,
+    readRegistry,
+    recordDeployment,
+    writeRegistry
+} from "../../scripts/deploy/utils/registry";
+import type { DeploymentEntry } from "../../scripts/deploy/utils/registry";
+
+describe("Deployment registry", function () {
+    const entry = (address: string, deployedBlock: number): DeploymentEntry => ({ address, deployedBlock, chainId: 1 });
+    const [first, second, adapter] = ["0x01", "0x02", "0x03"].map((suffix) => `0x${suffix.slice(2).padStart(40, "0")}`);
+
+    function setupRegistry() {
+        const registry = readRegistry(path.join(os.tmpdir(), "missing-deployments.json"));
+        recordDeployment(registry, "mainnet", "MigratorV2", entry(first, 100));
+        recordDeployment(registry, "mainnet", "AaveV3UsdsAdapter", entry(adapter, 90));
+        recordDeployment(registry, "mainnet", "MigratorV2", entry(second, 200));
+        return registry;
+    }
+
+    it("Should keep the history of every contract", function () {
+        const registry = setupRegistry();
+
+        expect(getLatest(registry, "mainnet", "MigratorV2")).to.include({ address: second, replaces: first });
+        expect(getAt(registry, "mainnet", "MigratorV2", 150)?.address).to.be.equal(first);
+        expect(getAt(registry, "mainnet", "MigratorV2", 200)?.address).to.be.equal(second);
+        expect(getAt(registry, "mainnet", "MigratorV2", 99)).to.be.undefined;
+        expect(getLatest(registry, "base", "MigratorV2")).to.be.undefined;
+    });
+
+    it("Should list the latest deployments or the whole history", function () {
+        const registry = setupRegistry();
+
+        const latest = list(registry, { network: "mainnet" }).map(({ name, entry }) => `${name} ${entry.address}`);
+        expect(latest).to.be.deep.equal([`MigratorV2 ${second}`, `AaveV3UsdsAdapter ${adapter}`]);
+
+        const migrators = list(registry, { name: "MigratorV2", history: true });
+        expect(migrators.map(({ revision, isLatest }) => [revision, isLatest])).to.be.deep.equal([
+            [0, false],
+            [1, true]
+        ]);
+    });
+
+    it("Should write and read the registry", function () {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "deployments-")), "deployments.json");
+        writeRegistry(setupRegistry(), file);
+
+        expect(readRegistry(file)).to.be.deep.equal(setupRegistry());
+        fs.writeFileSync(file, JSON.stringify({ version: 2, networks: {} }));
+        expect(() => readRegistry(file)).to.throw("Unsupported deployment registry version 2");
+    });
+});
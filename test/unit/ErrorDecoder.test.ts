@@ -0,0 +1,106 @@
+import { artifacts } from "hardhat";
+import { loadFixture, ethers, expect, parseEther } from "../helpers";
+
+import { decodeError, decodeRevertData, formatDecodedError, rootCause } from "../../sdk/errors";
+
+describe("Error decoder", function () {
+    async function setupMigrator() {
+        const [owner, user] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const USDC = await MockERC20.deploy("USDC", "USDC", parseEther("1000000"), owner.address);
+        const WETH = await MockERC20.deploy("WETH", "WETH", parseEther("1000000"), owner.address);
+        const comet = await (await ethers.getContractFactory("MockComet")).deploy(USDC.address, WETH.address);
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(USDC.address, WETH.address);
+
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            [],
+            [comet.address],
+            [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: true }],
+            ethers.constants.AddressZero,
+            ethers.constants.AddressZero
+        );
+
+        return { user, comet, migrator };
+    }
+
+    it("Should know every custom error of the migrator, the adapters and the modules", async function () {
+        const contracts = [
+            "MigratorV2",
+            "AaveV3UsdsAdapter",
+            "SparkUsdsAdapter",
+            "MorphoUsdsAdapter",
+            "SwapModule",
+            "ConvertModule",
+            "CommonErrors"
+        ];
+        for (const name of contracts) {
+            const { abi } = await artifacts.readArtifact(name);
+            const contractInterface = new ethers.utils.Interface(abi);
+            for (const fragment of Object.values(contractInterface.errors)) {
+                const decoded = decodeRevertData(contractInterface.getSighash(fragment));
+                expect(decoded.name, `${name}.${fragment.name}`).to.be.equal(fragment.name);
+            }
+        }
+    });
+
+    it("Should decode the reverts thrown by ethers", async function () {
+        const { user, comet, migrator } = await loadFixture(setupMigrator);
+
+        const error = await migrator
+            .connect(user)
+            .callStatic.migrate(comet.address, comet.address, "0x01", 0)
+            .catch((error: unknown) => error);
+        expect(decodeError(error)).to.include({
+            name: "InvalidAdapter",
+            explanation: "The adapter is not allowed by the migrator."
+        });
+
+        const ownerError = await migrator
+            .connect(user)
+            .callStatic.pause()
+            .catch((error: unknown) => error);
+        const decoded = decodeError(ownerError);
+        expect(decoded?.name).to.be.equal("OwnableUnauthorizedAccount");
+        expect(decoded?.args).to.be.deep.equal({ account: user.address });
+        expect(decodeError(new Error("network error"))).to.be.equal(undefined);
+    });
+
+    it("Should decode adapter errors with their arguments", async function () {
+        const adapter = await ethers.getContractFactory("AaveV3UsdsAdapter");
+        const token = ethers.Wallet.createRandom().address;
+
+        const decoded = decodeRevertData(adapter.interface.encodeErrorResult("DebtNotCleared", [token]));
+        expect(decoded.args).to.be.deep.equal({ token });
+        expect(decoded.sources).to.include("MorphoUsdsAdapter");
+
+        const conversion = decodeRevertData(adapter.interface.encodeErrorResult("ConversionFailed", [100, 99]));
+        expect(conversion.args).to.be.deep.equal({ expectedAmount: "100", actualAmount: "99" });
+        expect(formatDecodedError(conversion)).to.be.equal(
+            "ConversionFailed(100, 99) [ConvertModule]: The DAI ⇄ USDS converter returned a different amount than " +
+                "requested.\n  Fix: Check the `daiUsdsConverter` of the adapter."
+        );
+    });
+
+    it("Should decode messages, panics and nested payloads", function () {
+        const { hexConcat, defaultAbiCoder } = ethers.utils;
+        const errorString = (message: string) =>
+            hexConcat(["0x08c379a0", defaultAbiCoder.encode(["string"], [message])]);
+        const panic = hexConcat(["0x4e487b71", defaultAbiCoder.encode(["uint256"], [0x11])]);
+
+        expect(decodeRevertData(errorString("Too little received")).explanation).to.match(/amountOutMinimum/);
+        expect(decodeRevertData(panic).explanation).to.match(/overflow/);
+        expect(decodeRevertData("0x12345678").explanation).to.be.equal("Unknown custom error 0x12345678.");
+        expect(decodeRevertData("0x").explanation).to.be.equal("Reverted without a reason.");
+
+        const inner = new ethers.utils.Interface(["error InvalidSwapDeadline()"]).encodeErrorResult(
+            "InvalidSwapDeadline"
+        );
+        const nested = decodeRevertData(errorString(inner));
+        expect(rootCause(nested).name).to.be.equal("InvalidSwapDeadline");
+        expect(formatDecodedError(nested).split("\n")).to.have.length(3);
+    });
+});
@@ -0,0 +1,115 @@
+import { loadFixture, ethers, expect, parseEther, parseUnits, BigNumber } from "../helpers";
+
+import { assessCollateralization, estimateFlashAmount, flashFee, requiredFlashAmount } from "../../sdk/flash";
+import type { PlannedLeg, PlannedMigration } from "../../sdk/planner";
+
+describe("Flash amount estimation", function () {
+    async function setupFlashPool() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const USDC = await MockERC20.deploy("USDC", "USDC", parseEther("1000000"), owner.address);
+        const USDT = await MockERC20.deploy("USDT", "USDT", parseEther("1000000"), owner.address);
+        const DAI = await MockERC20.deploy("DAI", "DAI", parseEther("1000000"), owner.address);
+        const USDS = await MockERC20.deploy("USDS", "USDS", parseEther("1000000"), owner.address);
+        const WETH = await MockERC20.deploy("WETH", "WETH", parseEther("1000000"), owner.address);
+
+        const comet = await (await ethers.getContractFactory("MockComet")).deploy(USDC.address, WETH.address);
+        // USDC is `token1` of the pool.
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(USDT.address, USDC.address);
+        await USDC.transfer(pool.address, 5_000);
+
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            [],
+            [comet.address],
+            [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: false }],
+            DAI.address,
+            USDS.address
+        );
+
+        return { tokens: { USDC, USDT, WETH }, comet, pool, migrator };
+    }
+
+    const user = ethers.Wallet.createRandom().address;
+    const adapter = ethers.Wallet.createRandom().address;
+
+    function borrowLeg(amount: number, limit?: number): PlannedLeg {
+        return {
+            kind: "borrow",
+            asset: adapter,
+            amount: BigNumber.from(amount),
+            action: limit === undefined ? "none" : "swap",
+            tokenIn: adapter,
+            tokenOut: adapter,
+            ...(limit === undefined ? {} : { estimatedAmount: BigNumber.from(limit), limit: BigNumber.from(limit) })
+        };
+    }
+
+    it("Should round the flash fee and the buffer up", function () {
+        expect(flashFee(BigNumber.from(1_000_000), 500)).to.be.equal(500);
+        expect(flashFee(BigNumber.from(1), 100)).to.be.equal(1);
+        expect(requiredFlashAmount([borrowLeg(100), borrowLeg(1000, 960)])).to.be.equal(1060);
+        expect(requiredFlashAmount([borrowLeg(100), borrowLeg(1000, 960)], 10)).to.be.equal(1062);
+    });
+
+    it("Should mirror the Comet collateralization check", function () {
+        const weth = {
+            asset: adapter,
+            amount: parseEther("1"),
+            price: parseUnits("3000", 8),
+            scale: parseEther("1"),
+            borrowCollateralFactor: parseEther("0.8")
+        };
+        const baseScale = parseUnits("1", 6);
+        const basePrice = parseUnits("1", 8);
+
+        const healthy = assessCollateralization(parseUnits("2400", 6), basePrice, baseScale, [weth]);
+        expect(healthy.borrowCapacity).to.be.equal(parseUnits("2400", 8));
+        expect(healthy.isCollateralized).to.be.true;
+
+        const unhealthy = assessCollateralization(parseUnits("2401", 6), basePrice, baseScale, [weth]);
+        expect(unhealthy.isCollateralized).to.be.false;
+    });
+
+    it("Should size the flash loan against the pool liquidity", async function () {
+        const { tokens, comet, pool, migrator } = await loadFixture(setupFlashPool);
+        const planned: PlannedMigration = {
+            plan: {
+                adapterType: "AaveV3",
+                adapter,
+                comet: comet.address,
+                migrator: migrator.address,
+                user,
+                flashAmount: "0",
+                borrows: [],
+                collaterals: []
+            },
+            legs: [borrowLeg(1000, 1200), borrowLeg(3000)],
+            flashToken: tokens.USDC.address,
+            liquidityPool: pool.address
+        };
+
+        const estimate = await estimateFlashAmount(ethers.provider, planned, {
+            poolFee: 500,
+            checkCollateralization: false
+        });
+
+        expect(estimate.flashAmount).to.be.equal(4200);
+        expect(estimate.flashFee).to.be.equal(3);
+        expect(estimate.plan.flashAmount).to.be.equal("4200");
+        expect(estimate.availableLiquidity).to.be.equal(5000);
+        expect(estimate.expectedDebt).to.be.equal(4203);
+        expect(estimate.errors).to.be.empty;
+
+        const { errors } = await estimateFlashAmount(
+            ethers.provider,
+            { ...planned, legs: [borrowLeg(6000)] },
+            { poolFee: 500, checkCollateralization: false }
+        );
+        expect(errors).to.have.length(1);
+        expect(errors[0]).to.match(/The pool holds 5000/);
+    });
+});
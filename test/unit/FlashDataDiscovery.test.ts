@@ -0,0 +1,95 @@
+import { loadFixture, ethers, expect, parseEther } from "../helpers";
+
+import { discoverFlashData } from "../../sdk/flash";
+import { encodeSingleHopPath } from "../../sdk/path";
+
+describe("FlashData discovery", function () {
+    async function setupPools() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [USDC, USDT, WETH, DAI, USDS] = await Promise.all(
+            ["USDC", "USDT", "WETH", "DAI", "USDS"].map(deployToken)
+        );
+
+        const MockComet = await ethers.getContractFactory("MockComet");
+        const cometUSDC = await MockComet.deploy(USDC.address, WETH.address);
+        const cometUSDS = await MockComet.deploy(USDS.address, WETH.address);
+        const factory = await (await ethers.getContractFactory("MockUniswapV3Factory")).deploy();
+
+        const MockUniswapV3Pool = await ethers.getContractFactory("MockUniswapV3Pool");
+        const createPool = async (tokenA: string, tokenB: string, fee: number, liquidity: number) => {
+            const pool = await MockUniswapV3Pool.deploy(tokenA, tokenB);
+            await factory.setPool(tokenA, tokenB, fee, pool.address);
+            await (await ethers.getContractAt("MockERC20", tokenA)).transfer(pool.address, liquidity);
+            return pool.address;
+        };
+        const pools = {
+            // Same liquidity as the 0.3% pool.
+            wethUsdc500: await createPool(USDC.address, WETH.address, 500, 9_000),
+            wethUsdc3000: await createPool(USDC.address, WETH.address, 3000, 9_000),
+            usdtUsdc100: await createPool(USDC.address, USDT.address, 100, 5_000),
+            daiWeth500: await createPool(DAI.address, WETH.address, 500, 20_000)
+        };
+
+        return { tokens: { USDC, USDT, WETH, DAI, USDS }, cometUSDC, cometUSDS, factory, pools };
+    }
+
+    it("Should pick the most liquid and cheapest pool with the right isToken0", async function () {
+        const { tokens, cometUSDC, factory, pools } = await loadFixture(setupPools);
+        const discovery = await discoverFlashData(ethers.provider, cometUSDC.address, {
+            factory: factory.address,
+            pairTokens: [tokens.WETH.address, tokens.USDT.address]
+        });
+
+        expect(discovery.baseToken).to.be.equal(tokens.USDC.address);
+        expect(discovery.candidates.map(({ pool }) => pool)).to.be.deep.equal([
+            pools.wethUsdc500,
+            pools.wethUsdc3000,
+            pools.usdtUsdc100
+        ]);
+        expect(discovery.flashData).to.be.deep.equal({
+            liquidityPool: pools.wethUsdc500,
+            baseToken: tokens.USDC.address,
+            isToken0: true
+        });
+    });
+
+    it("Should exclude the pools of the swap routes", async function () {
+        const { tokens, cometUSDC, factory, pools } = await loadFixture(setupPools);
+
+        const discovery = await discoverFlashData(ethers.provider, cometUSDC.address, {
+            factory: factory.address,
+            pairTokens: [tokens.WETH.address, tokens.USDT.address],
+            swapPaths: [encodeSingleHopPath(tokens.WETH.address, 500, tokens.USDC.address)],
+            excludedPools: [pools.wethUsdc3000]
+        });
+
+        expect(discovery.flashData.liquidityPool).to.be.equal(pools.usdtUsdc100);
+        expect(discovery.excluded.map(({ excludedReason }) => excludedReason)).to.be.deep.equal([
+            "used by a swap route",
+            "excluded"
+        ]);
+    });
+
+    it("Should lend DAI for a USDS market", async function () {
+        const { tokens, cometUSDS, factory, pools } = await loadFixture(setupPools);
+        const options = { factory: factory.address, pairTokens: [tokens.WETH.address] };
+
+        await expect(discoverFlashData(ethers.provider, cometUSDS.address, options)).to.be.rejectedWith(
+            "No usable Uniswap V3 pool"
+        );
+
+        const discovery = await discoverFlashData(ethers.provider, cometUSDS.address, {
+            ...options,
+            dai: tokens.DAI.address,
+            usds: tokens.USDS.address
+        });
+        expect(discovery.flashData).to.be.deep.equal({
+            liquidityPool: pools.daiWeth500,
+            baseToken: tokens.DAI.address,
+            isToken0: true
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import { expect, parseEther, parseUnits } from "../helpers";
+
+import { getAddressBook } from "../../sdk/addresses";
+import { MORPHO_MARKETS, expandScenario, parseScenarios } from "../fork/scenarios/dsl";
+
+describe("Fork test scenarios", function () {
+    it("Should expand a scenario to the adapters and networks that have its assets", function () {
+        const [scenario] = parseScenarios([
+            {
+                name: "ETH+WBTC to cUSDCv3",
+                supply: { ETH: "0.5", WBTC: 0.01 },
+                borrow: { USDC: "400" },
+                comet: "cUSDCv3"
+            }
+        ]);
+        expect(scenario.supply).to.be.deep.equal({ ETH: "0.5", WBTC: "0.01" });
+
+        const cases = expandScenario(scenario);
+        expect(cases.map(({ adapterType, network }) => `${adapterType} on ${network}`)).to.be.deep.equal([
+            "AaveV3 on ethereum",
+            "Spark on ethereum",
+            "AaveV3 on optimism",
+            "AaveV3 on arbitrum"
+        ]);
+        const ethereum = getAddressBook("ethereum");
+        expect(cases[0].supplies).to.be.deep.equal([
+            { symbol: "WETH", token: ethereum.tokens.WETH.address, amount: parseEther("0.5") },
+            { symbol: "WBTC", token: ethereum.tokens.WBTC.address, amount: parseUnits("0.01", 8) }
+        ]);
+        expect(expandScenario({ ...scenario, adapters: ["Spark"], networks: ["optimism"] })).to.be.empty;
+    });
+
+    it("Should put every Morpho borrow into a market of a supplied collateral", function () {
+        const markets = Object.fromEntries(MORPHO_MARKETS.ethereum.map((market) => [market.collateral, market.id]));
+        const scenario = { name: "Morpho", comet: "cUSDCv3", adapters: ["Morpho" as const] };
+
+        const [morpho] = expandScenario({
+            ...scenario,
+            supply: { WBTC: "0.02", wstETH: "0.4", cbBTC: "0.01" },
+            borrow: { USDT: "300", USDC: "200" }
+        });
+        expect(morpho.supplies.map(({ marketId }) => marketId)).to.be.deep.equal([
+            markets.WBTC,
+            markets.wstETH,
+            markets.cbBTC
+        ]);
+        expect(morpho.borrows.map(({ marketId }) => marketId)).to.be.deep.equal([markets.WBTC, markets.wstETH]);
+
+        // No market lends DAI against WBTC.
+        expect(expandScenario({ ...scenario, supply: { WBTC: "0.02" }, borrow: { DAI: "100" } })).to.be.empty;
+    });
+
+    it("Should reject malformed scenarios", function () {
+        const scenario = { name: "WETH", supply: { WETH: "1" }, comet: "cWETHv3" };
+        expect(() => parseScenarios(scenario)).to.throw(/must be a list of scenarios/);
+        expect(() => parseScenarios([{ ...scenario, supply: { WETH: "-1" } }])).to.throw(/"WETH".supply.WETH must be/);
+        expect(() => parseScenarios([{ ...scenario, adapters: ["Compound"] }])).to.throw(/unknown entry Compound/);
+        expect(() => parseScenarios([{ ...scenario, networks: ["goerli"] }])).to.throw(/unknown entry goerli/);
+        expect(parseScenarios([scenario])[0]).to.be.deep.equal({ ...scenario, borrow: {} });
+    });
+});
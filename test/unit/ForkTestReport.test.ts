@@ -0,0 +1,71 @@
+import * as path from "path";
+
+import { expect } from "../helpers";
+
+import { formatJUnitReport, forkSuiteReport, summarizeForkTests } from "../../scripts/fork-tests/report";
+import { forkTestJobs } from "../../scripts/fork-tests/runner";
+
+describe("Fork test report", function () {
+    const root = path.join(__dirname, "..", "..");
+
+    it("Should run the suites that have a test file on each network", function () {
+        const jobs = forkTestJobs(root, ["ethereum", "base"], ["Spark", "Morpho", "Scenarios"]);
+        expect(jobs.map(({ network, suite }) => `${network}/${suite}`)).to.be.deep.equal([
+            "ethereum/Spark",
+            "ethereum/Morpho",
+            "ethereum/Scenarios",
+            "base/Morpho",
+            "base/Scenarios"
+        ]);
+        expect(jobs[3].file).to.be.equal(path.join("test", "fork", "networks", "base", "MigratorV2WithMorpho.test.ts"));
+
+        expect(() => forkTestJobs(root, ["ethereum"], ["Compound"])).to.throw(/Unknown suite "Compound"/);
+    });
+
+    it("Should report a crashed process as a failure", function () {
+        const job = { network: "base", suite: "AaveV3", file: "base.test.ts" };
+        const passed = { title: "Migrates", state: "passed" as const, durationMs: 10, gasUsed: 500_000 };
+
+        expect(forkSuiteReport(job, 0, 20, [passed]).tests).to.be.deep.equal([passed]);
+        const crashed = forkSuiteReport(job, 1, 20, [passed]);
+        expect(crashed.tests[1]).to.be.deep.equal({
+            title: "base.test.ts",
+            state: "failed",
+            error: "The process exited with code 1"
+        });
+        expect(summarizeForkTests(crashed.tests)).to.be.deep.equal({
+            tests: 2,
+            passed: 1,
+            failed: 1,
+            pending: 0,
+            gasUsed: 500_000
+        });
+        // The failed test already shows the failure.
+        const failed = forkSuiteReport(job, 1, 20, [{ ...passed, state: "failed" }]);
+        expect(failed.tests).to.have.length(1);
+    });
+
+    it("Should format the report as JUnit XML", function () {
+        const suites = [
+            forkSuiteReport({ network: "ethereum", suite: "Morpho", file: "morpho.test.ts" }, 1, 1500, [
+                { title: "Migrates WETH & <USDC>", state: "passed", durationMs: 1200, gasUsed: 321_000 },
+                { title: "Migrates DAI", state: "failed", durationMs: 300, error: "Reverted\n    at stack" },
+                { title: "Migrates USDT", state: "pending" }
+            ])
+        ];
+        const xml = formatJUnitReport({
+            version: 1,
+            createdAt: "2024-01-01T00:00:00.000Z",
+            durationMs: 2000,
+            summary: summarizeForkTests(suites[0].tests),
+            suites
+        });
+
+        expect(xml).to.match(/<testsuites name="fork tests" tests="3" failures="1" skipped="1" time="2.000">/);
+        expect(xml).to.match(/<testsuite name="ethereum\/Morpho" file="morpho.test.ts" tests="3" failures="1"/);
+        expect(xml).to.match(/name="Migrates WETH &amp; &lt;USDC&gt;" time="1.200"/);
+        expect(xml).to.match(/<property name="gasUsed" value="321000"\/>/);
+        expect(xml).to.match(/<failure message="Reverted">Reverted\n {4}at stack<\/failure>/);
+        expect(xml).to.include("<skipped/>");
+    });
+});
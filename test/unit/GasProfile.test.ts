@@ -0,0 +1,78 @@
+import hre from "hardhat";
+import { expect } from "../helpers";
+
+import { profileMockScenarios } from "../../scripts/profile/profiler";
+import { compareProfiles, formatProfileMarkdown, PROFILE_VERSION } from "../../scripts/profile/report";
+import type { ProfileEntry, ProfileReport } from "../../scripts/profile/report";
+import { scenarioId, scenarioMatrix } from "../../scripts/profile/scenarios";
+import type { Scenario } from "../../scripts/profile/scenarios";
+import { calldataCost } from "../../scripts/profile/trace";
+
+describe("Gas profile", function () {
+    const scenario: Scenario = { adapter: "AaveV3", borrows: 1, collaterals: 1, conversion: "swap", flash: true };
+
+    function report(gasUsed: number, calldataBytes = 100): ProfileReport {
+        const entry: ProfileEntry = {
+            id: scenarioId(scenario),
+            scenario,
+            status: "ok",
+            gasUsed,
+            calldataBytes,
+            calldataGas: calldataBytes * 16,
+            calls: [{ target: "AaveV3UsdsAdapter", method: "executeMigration", kind: "DELEGATECALL", calls: 1, gas: 1 }]
+        };
+        return { version: PROFILE_VERSION, target: "mocks", createdAt: "2024-01-01T00:00:00.000Z", entries: [entry] };
+    }
+
+    it("Should build the scenario matrix without borrows repaid without flash loan", function () {
+        const scenarios = scenarioMatrix({
+            adapters: ["Morpho"],
+            borrows: [0, 1],
+            collaterals: [1],
+            conversions: ["none"],
+            flash: [true, false]
+        });
+
+        expect(scenarios.map(scenarioId)).to.be.deep.equal([
+            "Morpho/0b-1c/none/flash",
+            "Morpho/0b-1c/none/no-flash",
+            "Morpho/1b-1c/none/flash"
+        ]);
+        expect(calldataCost("0x00ff")).to.be.deep.equal({ bytes: 2, gas: 20 });
+    });
+
+    it("Should compare a report with its baseline within the tolerance", function () {
+        const baseline = report(100_000);
+
+        expect(compareProfiles(baseline, report(100_500), 1).regressions).to.be.empty;
+        const comparison = compareProfiles(baseline, report(110_000, 90), 1);
+        expect(comparison.regressions).to.be.deep.equal([
+            { id: scenarioId(scenario), metric: "gasUsed", baseline: 100_000, current: 110_000, change: 10 }
+        ]);
+        expect(comparison.improvements.map(({ metric }) => metric)).to.be.deep.equal(["calldataBytes"]);
+
+        const markdown = formatProfileMarkdown(report(110_000), comparison);
+        expect(markdown).to.include("| AaveV3/1b-1c/swap/flash | gasUsed | 100000 | 110000 | +10.00% |");
+        expect(markdown).to.include("| DELEGATECALL AaveV3UsdsAdapter.executeMigration | 1 | 1 |");
+    });
+
+    it("Should profile scenarios on the mocks with the gas of their internal calls", async function () {
+        const entries = await profileMockScenarios(hre, [
+            scenario,
+            { adapter: "Morpho", borrows: 0, collaterals: 2, conversion: "convert", flash: false }
+        ]);
+
+        for (const entry of entries) {
+            expect(entry.status, entry.error).to.be.equal("ok");
+            expect(entry.gasUsed).to.be.greaterThan(0);
+            expect(entry.calldataBytes).to.be.greaterThan(4);
+        }
+        const calls = entries[0].calls.map(({ kind, target, method }) => `${kind} ${target}.${method}`);
+        expect(calls).to.include.members([
+            "CALL UniswapV3Pool USDT/DAI.flash",
+            "DELEGATECALL AaveV3UsdsAdapter.executeMigration",
+            "CALL SwapRouter.exactOutput"
+        ]);
+        expect(entries[1].calls.map(({ method }) => method)).to.include("daiToUsds");
+    });
+});
@@ -0,0 +1,189 @@
+import { ethers, expect, parseEther, parseUnits, MaxUint256 } from "../helpers";
+import hre from "hardhat";
+
+import {
+    AAVE_V3_POSITION_ABI,
+    SPARK_POSITION_ABI,
+    MORPHO_POSITION_ABI,
+    encodeAaveV3Position,
+    encodeSparkPosition,
+    encodeMorphoPosition,
+    encodeMigrationData,
+    decodeAaveV3Position,
+    decodeSparkPosition,
+    decodeMorphoPosition,
+    decodeMigrationData,
+    noSwapInput,
+    noSwapOutput,
+    swapInput,
+    swapOutput
+} from "../../sdk/encoding";
+
+// Convert fee to 3-byte hex
+const FEE_3000 = ethers.utils.hexZeroPad(ethers.utils.hexlify(3000), 3); // 0.3%
+
+// The layout the tests used to build by hand before the SDK existed.
+const POSITION_AAVE_ABI = [
+    "tuple(address debtToken, uint256 amount, " +
+        "tuple(bytes path, uint256 deadline, uint256 amountInMaximum) swapParams)[]",
+    "tuple(address aToken, uint256 amount, " +
+        "tuple(bytes path, uint256 deadline, uint256 amountOutMinimum) swapParams)[]"
+];
+
+interface AstNode {
+    id?: number;
+    nodeType?: string;
+    name?: string;
+    canonicalName?: string;
+    members?: AstNode[];
+    typeName?: AstNode;
+    baseType?: AstNode;
+    underlyingType?: AstNode;
+    referencedDeclaration?: number;
+}
+
+/*
+ * Rebuilds the ABI type of a Solidity struct from the compiler AST, so the SDK encoders are checked against the
+ * actual contract sources instead of a copy of them.
+ */
+async function structAbiFromSources(contractName: string, structName: string): Promise<string> {
+    const artifact = await hre.artifacts.readArtifact(contractName);
+    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${contractName}`);
+    if (!buildInfo) throw new Error(`Build info for ${contractName} not found`);
+
+    const nodes = new Map<number, AstNode>();
+    const collect = (value: unknown) => {
+        if (Array.isArray(value)) return value.forEach(collect);
+        if (value === null || typeof value !== "object") return;
+        const node = value as AstNode;
+        if (node.id !== undefined && node.nodeType !== undefined) nodes.set(node.id, node);
+        Object.values(node).forEach(collect);
+    };
+    Object.values(buildInfo.output.sources).forEach((source) => collect(source.ast));
+
+    const get = <T>(value: T | undefined): T => {
+        if (value === undefined) throw new Error("Unexpected AST node");
+        return value;
+    };
+    const typeOf = (typeName: AstNode): string => {
+        if (typeName.nodeType === "ArrayTypeName") return `${typeOf(get(typeName.baseType))}[]`;
+        if (typeName.nodeType === "ElementaryTypeName") return get(typeName.name);
+        const declaration = get(nodes.get(get(typeName.referencedDeclaration)));
+        if (declaration.nodeType === "UserDefinedValueTypeDefinition") return get(declaration.underlyingType?.name);
+        return structOf(declaration);
+    };
+    const structOf = (struct: AstNode): string =>
+        `tuple(${get(struct.members)
+            .map((member) => `${typeOf(get(member.typeName))} ${get(member.name)}`)
+            .join(", ")})`;
+
+    const struct = [...nodes.values()].find(
+        (node) => node.nodeType === "StructDefinition" && node.canonicalName === `${contractName}.${structName}`
+    );
+    if (!struct) throw new Error(`Struct ${contractName}.${structName} not found`);
+    return structOf(struct);
+}
+
+function formatAbi(abi: string): string {
+    return ethers.utils.ParamType.from(abi).format(ethers.utils.FormatTypes.full);
+}
+
+describe("Migration data encoding", function () {
+    const deadline = 1_900_000_000;
+    const tokenA = ethers.Wallet.createRandom().address;
+    const tokenB = ethers.Wallet.createRandom().address;
+    const path = ethers.utils.concat([tokenA, FEE_3000, tokenB]);
+    const marketId = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("market"));
+
+    context("* Solidity structs", function () {
+        it("Should match `AaveV3UsdsAdapter.AaveV3Position`", async function () {
+            expect(formatAbi(AAVE_V3_POSITION_ABI)).to.be.equal(
+                await structAbiFromSources("AaveV3UsdsAdapter", "AaveV3Position")
+            );
+        });
+
+        it("Should match `SparkUsdsAdapter.SparkPosition`", async function () {
+            expect(formatAbi(SPARK_POSITION_ABI)).to.be.equal(
+                await structAbiFromSources("SparkUsdsAdapter", "SparkPosition")
+            );
+        });
+
+        it("Should match `MorphoUsdsAdapter.MorphoPosition`", async function () {
+            expect(formatAbi(MORPHO_POSITION_ABI)).to.be.equal(
+                await structAbiFromSources("MorphoUsdsAdapter", "MorphoPosition")
+            );
+        });
+    });
+
+    context("* Encoding", function () {
+        it("Should produce the same bytes as the hand-rolled Aave position encoding", function () {
+            const borrows = [{ debtToken: tokenA, amount: MaxUint256, swapParams: swapInput(path, deadline, 100) }];
+            const collaterals = [{ aToken: tokenB, amount: parseEther("1"), swapParams: noSwapOutput() }];
+
+            const legacy = ethers.utils.defaultAbiCoder.encode(
+                ["tuple(" + POSITION_AAVE_ABI.join(",") + ")"],
+                [[borrows, collaterals]]
+            );
+
+            expect(encodeAaveV3Position({ borrows, collaterals })).to.be.equal(legacy);
+            expect(encodeMigrationData("AaveV3", { borrows, collaterals })).to.be.equal(legacy);
+        });
+
+        it("Should round-trip an Aave position", function () {
+            const position = {
+                borrows: [{ debtToken: tokenA, amount: parseUnits("10", 6), swapParams: swapInput(path, deadline, 7) }],
+                collaterals: [{ aToken: tokenB, amount: MaxUint256, swapParams: swapOutput(path, deadline, 5) }]
+            };
+
+            const decoded = decodeAaveV3Position(encodeAaveV3Position(position));
+
+            expect(decoded.borrows[0].debtToken).to.be.equal(tokenA);
+            expect(decoded.borrows[0].amount).to.be.equal(parseUnits("10", 6));
+            expect(decoded.borrows[0].swapParams.path).to.be.equal(ethers.utils.hexlify(path).toLowerCase());
+            expect(decoded.borrows[0].swapParams.deadline).to.be.equal(deadline);
+            expect(decoded.borrows[0].swapParams.amountInMaximum).to.be.equal(7);
+            expect(decoded.collaterals[0].aToken).to.be.equal(tokenB);
+            expect(decoded.collaterals[0].amount).to.be.equal(MaxUint256);
+            expect(decoded.collaterals[0].swapParams.amountOutMinimum).to.be.equal(5);
+            // The decoded position can be encoded again without changes.
+            expect(encodeAaveV3Position(decoded)).to.be.equal(encodeAaveV3Position(position));
+        });
+
+        it("Should round-trip a Spark position", function () {
+            const position = {
+                borrows: [{ debtToken: tokenA, amount: 1, swapParams: noSwapInput() }],
+                collateral: [{ spToken: tokenB, amount: 2, swapParams: swapOutput(path, deadline, 3) }]
+            };
+
+            const data = encodeSparkPosition(position);
+            const decoded = decodeSparkPosition(data);
+
+            expect(decoded.borrows[0].swapParams.path).to.be.equal("0x");
+            expect(decoded.collateral[0].spToken).to.be.equal(tokenB);
+            expect(decodeMigrationData("Spark", data)).to.be.deep.equal(decoded);
+            expect(encodeSparkPosition(decoded)).to.be.equal(data);
+        });
+
+        it("Should round-trip a Morpho position", function () {
+            const position = {
+                borrows: [{ marketId, assetsAmount: MaxUint256, swapParams: swapInput(path, deadline, 9) }],
+                collateral: [{ marketId, assetsAmount: parseEther("3"), swapParams: noSwapOutput() }]
+            };
+
+            const data = encodeMorphoPosition(position);
+            const decoded = decodeMorphoPosition(data);
+
+            expect(decoded.borrows[0].marketId).to.be.equal(marketId);
+            expect(decoded.borrows[0].assetsAmount).to.be.equal(MaxUint256);
+            expect(decoded.collateral[0].assetsAmount).to.be.equal(parseEther("3"));
+            expect(encodeMigrationData("Morpho", decoded)).to.be.equal(data);
+        });
+
+        it("Should reject a position with a missing field", function () {
+            const position = { borrows: [], collaterals: [{ aToken: tokenB, amount: 1 }] };
+            expect(() =>
+                encodeAaveV3Position(position as unknown as Parameters<typeof encodeAaveV3Position>[0])
+            ).to.throw();
+        });
+    });
+});
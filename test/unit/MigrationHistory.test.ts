@@ -0,0 +1,122 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import hre from "hardhat";
+import { loadFixture, ethers, expect } from "../helpers";
+import type { providers } from "ethers";
+
+import { indexMigratorHistory } from "../../scripts/history/indexer";
+import {
+    paginate,
+    queryMigrations,
+    readHistoryStore,
+    summarizeFlashFees,
+    writeHistoryStore
+} from "../../scripts/history/store";
+import { deployProfileMocks } from "../../scripts/profile/mocks";
+import { simulateMigration } from "../../sdk/simulation";
+
+describe("Migration history", function () {
+    async function setupHistory() {
+        const fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+        const environment = await deployProfileMocks(hre, 1, 1);
+        const migrator = await ethers.getContractAt("MigratorV2", environment.migrator);
+
+        const migrate = async (flash: boolean) => {
+            const plan = await environment.preparePlan({
+                adapter: "AaveV3",
+                borrows: flash ? 1 : 0,
+                collaterals: 1,
+                conversion: "none",
+                flash
+            });
+            const result = await simulateMigration(ethers.provider, plan, {
+                migrator: migrator.address,
+                cometAssets: [],
+                keepState: true
+            });
+            expect(result.success, result.error?.message).to.be.true;
+            return plan;
+        };
+
+        // The fixture result is shared by the tests: each one starts its own store.
+        const newStore = () =>
+            readHistoryStore(path.join(os.tmpdir(), "missing.json"), 31337, migrator.address, fromBlock);
+        return { migrator, migrate, newStore };
+    }
+
+    it("Should index the events page by page and resume from the last indexed block", async function () {
+        const { migrator, migrate, newStore } = await loadFixture(setupHistory);
+        const store = newStore();
+        const flashPlan = await migrate(true);
+        await migrate(false);
+
+        const first = await indexMigratorHistory(ethers.provider, store, { batchSize: 5 });
+        expect(first.pages).to.be.greaterThan(1);
+        expect(first.migrations).to.be.equal(2);
+        expect(store.events.map(({ name }) => name)).to.include("AdapterAllowed");
+
+        await migrator.pause();
+        await migrator.unpause();
+        const second = await indexMigratorHistory(ethers.provider, store, { batchSize: 5 });
+        expect(second.fromBlock).to.be.equal(first.toBlock + 1);
+        expect(second).to.include({ migrations: 0, events: 2 });
+        expect(store.events.slice(-2).map(({ name }) => name)).to.be.deep.equal(["Paused", "Unpaused"]);
+
+        const [withFlash] = queryMigrations(store, { user: flashPlan.user });
+        expect(withFlash).to.include({
+            adapter: flashPlan.adapter,
+            comet: flashPlan.comet,
+            flashAmount: "10000000000000000000"
+        });
+        expect(withFlash.flashFee).to.be.equal("3000000000000000");
+        expect(summarizeFlashFees(queryMigrations(store, { adapter: flashPlan.adapter }))).to.be.deep.equal([
+            {
+                comet: flashPlan.comet,
+                adapter: flashPlan.adapter,
+                migrations: 2,
+                flashLoans: 1,
+                flashAmount: "10000000000000000000",
+                flashFee: "3000000000000000"
+            }
+        ]);
+        expect(paginate(store.migrations, 2, 1)).to.be.deep.equal([store.migrations[1]]);
+    });
+
+    it("Should persist the store and reject the store of another migrator", async function () {
+        const { migrate, newStore } = await loadFixture(setupHistory);
+        const store = newStore();
+        await migrate(false);
+        await indexMigratorHistory(ethers.provider, store);
+
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "history-")), "hardhat", "migrator.json");
+        writeHistoryStore(file, store);
+        expect(readHistoryStore(file, 31337, store.migrator, 0)).to.be.deep.equal(store);
+        expect(() => readHistoryStore(file, 31337, ethers.constants.AddressZero, 0)).to.throw(/holds the history/);
+        expect(() => readHistoryStore(file, 1, store.migrator, 0)).to.throw(/on chain 31337/);
+    });
+
+    it("Should halve the pages the provider rejects", async function () {
+        const { migrate, newStore } = await loadFixture(setupHistory);
+        const store = newStore();
+        await migrate(false);
+
+        // A provider limiting `eth_getLogs` to 4 blocks.
+        const ranges: number[] = [];
+        const provider = {
+            getBlockNumber: () => ethers.provider.getBlockNumber(),
+            getBlock: (block: number) => ethers.provider.getBlock(block),
+            getLogs: (filter: providers.Filter) => {
+                const range = (filter.toBlock as number) - (filter.fromBlock as number) + 1;
+                ranges.push(range);
+                if (range > 4) return Promise.reject(new Error("block range is too wide"));
+                return ethers.provider.getLogs(filter);
+            }
+        } as unknown as providers.Provider;
+
+        const result = await indexMigratorHistory(provider, store, { batchSize: 16 });
+        expect(ranges.slice(0, 3)).to.be.deep.equal([16, 8, 4]);
+        expect(result.migrations).to.be.equal(1);
+        expect(store.lastIndexedBlock).to.be.equal(await ethers.provider.getBlockNumber());
+    });
+});
@@ -0,0 +1,100 @@
+import { ethers, expect, MaxUint256 } from "../helpers";
+
+import { decodeAaveV3Position, decodeMorphoPosition, decodeSparkPosition } from "../../sdk/encoding";
+import { encodeConversionPath, encodeSingleHopPath, reversePath } from "../../sdk/path";
+import { buildPlanPosition, encodeMigrationPlan, parseMigrationPlan } from "../../sdk/plan";
+
+describe("Migration plans", function () {
+    const deadline = 1_900_000_000;
+    const [adapter, comet, dai, usds, weth, usdc] = Array.from(
+        { length: 6 },
+        () => ethers.Wallet.createRandom().address
+    );
+    const marketId = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("market"));
+
+    const aavePlan = {
+        adapterType: "AaveV3",
+        adapter: adapter.toLowerCase(),
+        comet,
+        flashAmount: "1000",
+        borrows: [
+            {
+                debtToken: weth,
+                amount: "max",
+                swap: { hops: [{ token: usdc, fee: 500 }, { token: weth }], amountInMaximum: "1100" }
+            }
+        ],
+        collaterals: [{ aToken: dai, amount: "500", swap: { convert: "DAI_TO_USDS" } }]
+    };
+
+    context("* Parsing", function () {
+        it("Should checksum addresses and default the flash amount", function () {
+            const plan = parseMigrationPlan({ ...aavePlan, flashAmount: undefined });
+
+            expect(plan.adapter).to.be.equal(adapter);
+            expect(plan.flashAmount).to.be.equal("0");
+        });
+
+        it("Should reject invalid plans with the location of the problem", function () {
+            expect(() => parseMigrationPlan({ ...aavePlan, adapterType: "Compound" })).to.throw(/adapterType/);
+            expect(() => parseMigrationPlan({ ...aavePlan, comet: "0x1234" })).to.throw(/comet must be an address/);
+            expect(() => parseMigrationPlan({ ...aavePlan, borrows: [{ debtToken: weth, amount: "1.5" }] })).to.throw(
+                /borrows\[0\]\.amount/
+            );
+            expect(() =>
+                parseMigrationPlan({ ...aavePlan, borrows: [{ debtToken: weth, amount: "1", swap: { hops: [] } }] })
+            ).to.throw(/borrows\[0\]\.swap\.amountInMaximum/);
+            expect(() =>
+                parseMigrationPlan({ ...aavePlan, adapterType: "Morpho", borrows: [{ marketId: weth, amount: "1" }] })
+            ).to.throw(/32-byte market id/);
+        });
+    });
+
+    context("* Encoding", function () {
+        it("Should reverse borrow hops and build conversion paths", function () {
+            const plan = parseMigrationPlan(aavePlan);
+            const position = decodeAaveV3Position(encodeMigrationPlan(plan, { deadline, dai, usds }));
+
+            expect(position.borrows[0].amount).to.be.equal(MaxUint256);
+            expect(position.borrows[0].swapParams.path).to.be.equal(
+                reversePath(encodeSingleHopPath(usdc, 500, weth)).toLowerCase()
+            );
+            expect(position.borrows[0].swapParams.amountInMaximum).to.be.equal(1100);
+            expect(position.borrows[0].swapParams.deadline).to.be.equal(deadline);
+            expect(position.collaterals[0].swapParams.path).to.be.equal(encodeConversionPath(dai, usds).toLowerCase());
+            expect(position.collaterals[0].swapParams.amountOutMinimum).to.be.equal(0);
+        });
+
+        it("Should require DAI and USDS for conversions", function () {
+            expect(() => encodeMigrationPlan(parseMigrationPlan(aavePlan), { deadline })).to.throw(/DAI and USDS/);
+        });
+
+        it("Should encode Spark and Morpho plans", function () {
+            const path = encodeSingleHopPath(weth, 3000, usdc);
+            const spark = parseMigrationPlan({
+                ...aavePlan,
+                adapterType: "Spark",
+                borrows: [],
+                collaterals: [{ spToken: weth, amount: "7", swap: { path, amountOutMinimum: "6", deadline: 1 } }]
+            });
+            const sparkPosition = decodeSparkPosition(encodeMigrationPlan(spark, { deadline }));
+
+            expect(sparkPosition.collateral[0].spToken).to.be.equal(weth);
+            expect(sparkPosition.collateral[0].swapParams.path).to.be.equal(path.toLowerCase());
+            expect(sparkPosition.collateral[0].swapParams.deadline).to.be.equal(1);
+
+            const morpho = parseMigrationPlan({
+                ...aavePlan,
+                adapterType: "Morpho",
+                borrows: [{ marketId, amount: "max" }],
+                collaterals: [{ marketId, amount: "3" }]
+            });
+            const morphoPosition = decodeMorphoPosition(encodeMigrationPlan(morpho, { deadline }));
+
+            expect(morphoPosition.borrows[0].assetsAmount).to.be.equal(MaxUint256);
+            expect(morphoPosition.borrows[0].swapParams.path).to.be.equal("0x");
+            expect(morphoPosition.collateral[0].marketId).to.be.equal(marketId);
+            expect(buildPlanPosition(morpho, { deadline })).to.have.keys("borrows", "collateral");
+        });
+    });
+});
@@ -0,0 +1,144 @@
+import { loadFixture, ethers, expect, parseEther, BigNumber } from "../helpers";
+
+import { decodePath, encodeConversionPath } from "../../sdk/path";
+import { encodeMigrationPlan, parseMigrationPlan } from "../../sdk/plan";
+import { pathFinderQuoter, planMigration, quoterV2Quoter, withSlippage } from "../../sdk/planner";
+import type { DiscoveredPositions } from "../../sdk/positions";
+
+describe("Migration planner", function () {
+    async function setupPlanner() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [DAI, USDS, USDC, USDT, WETH, WBTC] = await Promise.all(
+            ["DAI", "USDS", "USDC", "USDT", "WETH", "WBTC"].map(deployToken)
+        );
+
+        const MockComet = await ethers.getContractFactory("MockComet");
+        const cometUsdc = await MockComet.deploy(USDC.address, WETH.address);
+        const cometUsds = await MockComet.deploy(USDS.address, WETH.address);
+
+        const MockUniswapV3Pool = await ethers.getContractFactory("MockUniswapV3Pool");
+        const poolUsdcUsdt = await MockUniswapV3Pool.deploy(USDC.address, USDT.address);
+        const poolDaiUsds = await MockUniswapV3Pool.deploy(DAI.address, USDS.address);
+
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            [],
+            [cometUsdc.address, cometUsds.address],
+            [
+                { liquidityPool: poolUsdcUsdt.address, baseToken: USDC.address, isToken0: true },
+                { liquidityPool: poolDaiUsds.address, baseToken: USDS.address, isToken0: false }
+            ],
+            DAI.address,
+            USDS.address
+        );
+
+        const mockQuoterV2 = await (await ethers.getContractFactory("MockQuoterV2")).deploy();
+        const pathFinder = await (
+            await ethers.getContractFactory("UniswapV3PathFinder")
+        ).deploy(mockQuoterV2.address, mockQuoterV2.address, DAI.address, USDS.address);
+
+        const tokens = { DAI, USDS, USDC, USDT, WETH, WBTC };
+        return { owner, tokens, cometUsdc, cometUsds, migrator, mockQuoterV2, pathFinder };
+    }
+
+    const adapter = ethers.Wallet.createRandom().address;
+    const user = ethers.Wallet.createRandom().address;
+
+    it("Should apply the slippage tolerance in basis points", function () {
+        expect(withSlippage(BigNumber.from(10_000), 50, true)).to.be.equal(10_050);
+        expect(withSlippage(BigNumber.from(10_000), 50, false)).to.be.equal(9_950);
+        expect(withSlippage(BigNumber.from(1), 1, true)).to.be.equal(2);
+        expect(() => withSlippage(BigNumber.from(1), 10_000, false)).to.throw(/slippage/);
+    });
+
+    it("Should swap foreign legs and keep the legs Comet accepts", async function () {
+        const { tokens, cometUsdc, migrator, pathFinder } = await loadFixture(setupPlanner);
+        const positions: DiscoveredPositions = {
+            adapterType: "AaveV3",
+            user,
+            borrows: [
+                { debtToken: adapter, asset: tokens.USDT.address, amount: "1000" },
+                { debtToken: adapter, asset: tokens.USDC.address, amount: "500" }
+            ],
+            collaterals: [
+                { aToken: adapter, asset: tokens.WETH.address, amount: parseEther("1").toString() },
+                { aToken: adapter, asset: tokens.WBTC.address, amount: "2000" }
+            ]
+        };
+
+        const { plan, legs, flashToken } = await planMigration(ethers.provider, positions, {
+            migrator: migrator.address,
+            adapter,
+            comet: cometUsdc.address,
+            quoter: pathFinderQuoter(ethers.provider, pathFinder.address),
+            slippageBps: 100,
+            cometAssets: [tokens.USDC.address, tokens.WETH.address]
+        });
+
+        expect(flashToken).to.be.equal(tokens.USDC.address);
+        expect(legs.map(({ action }) => action)).to.be.deep.equal(["swap", "none", "none", "swap"]);
+
+        // `MockQuoterV2` quotes the 0.3% pools at 95% (exact output) and 105% (exact input).
+        expect(legs[0].estimatedAmount).to.be.equal(950);
+        expect(plan.borrows[0].swap?.amountInMaximum).to.be.equal("960");
+        expect(decodePath(plan.borrows[0].swap?.path as string).tokens).to.be.deep.equal([
+            tokens.USDT.address,
+            tokens.USDC.address
+        ]);
+        expect(plan.borrows[1].swap).to.be.equal(undefined);
+        expect(plan.collaterals[0].swap).to.be.equal(undefined);
+        expect(plan.collaterals[1].swap?.amountOutMinimum).to.be.equal("2079");
+        expect(plan.collaterals[1].amount).to.be.equal("max");
+
+        // The plan is accepted by the encoder as it is.
+        expect(() => encodeMigrationPlan(parseMigrationPlan(plan), { deadline: 1 })).not.to.throw();
+    });
+
+    it("Should use the DAI ⇄ USDS converter", async function () {
+        const { tokens, cometUsds, migrator, pathFinder } = await loadFixture(setupPlanner);
+        const positions: DiscoveredPositions = {
+            adapterType: "Spark",
+            user,
+            borrows: [{ debtToken: adapter, asset: tokens.DAI.address, amount: "1000" }],
+            collaterals: [{ spToken: adapter, asset: tokens.DAI.address, amount: "3000" }]
+        };
+
+        const { plan, legs } = await planMigration(ethers.provider, positions, {
+            migrator: migrator.address,
+            adapter,
+            comet: cometUsds.address,
+            quoter: pathFinderQuoter(ethers.provider, pathFinder.address),
+            slippageBps: 30,
+            cometAssets: [tokens.USDS.address, tokens.WETH.address],
+            exactAmounts: true
+        });
+
+        expect(legs.map(({ action }) => action)).to.be.deep.equal(["convert", "convert"]);
+        expect(plan.borrows[0]).to.include({ amount: "1000" });
+        expect(plan.borrows[0].swap).to.be.deep.equal({ convert: "USDS_TO_DAI" });
+        expect(plan.collaterals[0].swap).to.be.deep.equal({ convert: "DAI_TO_USDS" });
+
+        const data = encodeMigrationPlan(plan, { deadline: 1, dai: tokens.DAI.address, usds: tokens.USDS.address });
+        expect(data).to.include(encodeConversionPath(tokens.USDS.address, tokens.DAI.address).slice(2).toLowerCase());
+    });
+
+    it("Should quote through QuoterV2 with the best fee tier", async function () {
+        const { tokens, mockQuoterV2 } = await loadFixture(setupPlanner);
+        const quoter = quoterV2Quoter(ethers.provider, mockQuoterV2.address, { factory: mockQuoterV2.address });
+
+        const quote = await quoter.quote({
+            tokenIn: tokens.USDC.address,
+            tokenOut: tokens.WETH.address,
+            amount: BigNumber.from(1000),
+            exactInput: true
+        });
+
+        expect(quote.estimatedAmount).to.be.equal(1050);
+        expect(decodePath(quote.path).fees).to.be.deep.equal([3000]);
+    });
+});
@@ -0,0 +1,74 @@
+import { loadFixture, ethers, expect, parseEther } from "../helpers";
+
+import type { MigrationPlan } from "../../sdk/plan";
+import { simulateMigration } from "../../sdk/simulation";
+
+describe("Migration simulation", function () {
+    async function setupSimulation() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [DAI, USDS, USDC, WETH, aWETH] = await Promise.all(
+            ["DAI", "USDS", "USDC", "WETH", "aWETH"].map(deployToken)
+        );
+
+        const comet = await (await ethers.getContractFactory("MockComet")).deploy(USDC.address, WETH.address);
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(USDC.address, WETH.address);
+
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            [],
+            [comet.address],
+            [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: true }],
+            DAI.address,
+            USDS.address
+        );
+
+        const user = ethers.Wallet.createRandom().address;
+        await aWETH.transfer(user, parseEther("2"));
+
+        const plan: MigrationPlan = {
+            adapterType: "AaveV3",
+            adapter: ethers.Wallet.createRandom().address,
+            comet: comet.address,
+            user,
+            flashAmount: "0",
+            borrows: [],
+            collaterals: [{ aToken: aWETH.address, amount: "max" }]
+        };
+
+        return { tokens: { WETH, aWETH }, migrator, plan };
+    }
+
+    it("Should decode the revert of the migration", async function () {
+        const { tokens, migrator, plan } = await loadFixture(setupSimulation);
+
+        const result = await simulateMigration(ethers.provider, plan, {
+            migrator: migrator.address,
+            cometAssets: [tokens.WETH.address]
+        });
+
+        expect(result.success).to.be.false;
+        expect(result.error?.name).to.be.equal("InvalidAdapter");
+        expect(result.error?.data).to.be.equal(migrator.interface.getSighash("InvalidAdapter"));
+        expect(result.before.source[0]).to.include({ kind: "collateral", position: tokens.aWETH.address });
+        expect(result.before.source[0].amount).to.be.equal(parseEther("2"));
+        expect(result.after).to.be.deep.equal(result.before);
+    });
+
+    it("Should revert the node to its previous state", async function () {
+        const { tokens, migrator, plan } = await loadFixture(setupSimulation);
+        const blockNumber = await ethers.provider.getBlockNumber();
+
+        await simulateMigration(ethers.provider, plan, {
+            migrator: migrator.address,
+            cometAssets: [tokens.WETH.address]
+        });
+
+        expect(await ethers.provider.getBlockNumber()).to.be.equal(blockNumber);
+        expect(await ethers.provider.getBalance(plan.user as string)).to.be.equal(0);
+    });
+});
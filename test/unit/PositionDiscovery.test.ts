@@ -0,0 +1,76 @@
+import { loadFixture, ethers, expect, parseEther, BigNumber } from "../helpers";
+
+import { decodeMorphoPosition } from "../../sdk/encoding";
+import { encodeMigrationPlan, parseMigrationPlan } from "../../sdk/plan";
+import { discoverMorphoPositions, morphoSharesToAssetsUp, toMigrationPlan } from "../../sdk/positions";
+
+describe("Position discovery", function () {
+    async function setupMorpho() {
+        const [deployer, user] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const loanToken = await MockERC20.deploy("Mock USDC", "USDC", parseEther("1000000"), deployer.address);
+        const collateralToken = await MockERC20.deploy("Mock WETH", "WETH", parseEther("1000000"), deployer.address);
+        const morpho = await (await ethers.getContractFactory("MockMorpho")).deploy();
+
+        const marketParams = {
+            loanToken: loanToken.address,
+            collateralToken: collateralToken.address,
+            oracle: ethers.constants.AddressZero,
+            irm: ethers.constants.AddressZero,
+            lltv: parseEther("0.86")
+        };
+        await morpho.setMarketParams(marketParams);
+        const marketId = await morpho.getMarketId(marketParams);
+        const emptyMarketId = ethers.utils.keccak256(ethers.utils.toUtf8Bytes("empty"));
+
+        await loanToken.transfer(morpho.address, parseEther("1000"));
+        await collateralToken.transfer(user.address, parseEther("10"));
+        await collateralToken.connect(user).approve(morpho.address, parseEther("10"));
+        await morpho.connect(user).supplyCollateral(marketParams, parseEther("10"), user.address, "0x");
+        await morpho.connect(user).borrow(marketParams, parseEther("300"), 0, user.address, user.address);
+
+        return { user, morpho, marketId, emptyMarketId, loanToken, collateralToken };
+    }
+
+    it("Should convert Morpho borrow shares to assets rounding up", function () {
+        const shares = BigNumber.from(10).pow(6).mul(3);
+        expect(morphoSharesToAssetsUp(shares, BigNumber.from(0), BigNumber.from(0))).to.be.equal(3);
+        expect(morphoSharesToAssetsUp(BigNumber.from(1), BigNumber.from(0), BigNumber.from(0))).to.be.equal(1);
+    });
+
+    it("Should discover Morpho positions and skip empty markets", async function () {
+        const { user, morpho, marketId, emptyMarketId, loanToken, collateralToken } = await loadFixture(setupMorpho);
+
+        const positions = await discoverMorphoPositions(ethers.provider, morpho.address, user.address, [
+            marketId,
+            emptyMarketId
+        ]);
+
+        expect(positions.adapterType).to.be.equal("Morpho");
+        expect(positions.borrows).to.be.deep.equal([
+            { marketId, asset: loanToken.address, amount: parseEther("300").toString() }
+        ]);
+        expect(positions.collaterals).to.be.deep.equal([
+            { marketId, asset: collateralToken.address, amount: parseEther("10").toString() }
+        ]);
+    });
+
+    it("Should feed the discovered positions into the encoder", async function () {
+        const { user, morpho, marketId } = await loadFixture(setupMorpho);
+        const adapter = ethers.Wallet.createRandom().address;
+        const comet = ethers.Wallet.createRandom().address;
+
+        const positions = await discoverMorphoPositions(ethers.provider, morpho.address, user.address, [marketId]);
+        const plan = parseMigrationPlan(
+            JSON.parse(JSON.stringify(toMigrationPlan(positions, { adapter, comet, exactAmounts: true })))
+        );
+        const decoded = decodeMorphoPosition(encodeMigrationPlan(plan, { deadline: 0 }));
+
+        expect(plan.user).to.be.equal(user.address);
+        expect(decoded.borrows[0].marketId).to.be.equal(marketId);
+        expect(decoded.borrows[0].assetsAmount).to.be.equal(parseEther("300"));
+        expect(decoded.collateral[0].assetsAmount).to.be.equal(parseEther("10"));
+        expect(toMigrationPlan(positions, { adapter, comet }).borrows[0].amount).to.be.equal("max");
+    });
+});
@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+
+import { expect } from "../helpers";
+
+import { startRpcCache } from "../../scripts/rpc-cache/proxy";
+import { readRpcCacheStore, requestKey, rpcCacheFile } from "../../scripts/rpc-cache/store";
+
+const PORT = 18549;
+
+async function rpc(url: string, body: unknown): Promise<unknown> {
+    const response = await fetch(url, {
+        method: "POST",
+        // No keep-alive: the proxies of the test listen on the same port one after the other.
+        headers: { "Content-Type": "application/json", Connection: "close" },
+        body: JSON.stringify(body)
+    });
+    return response.json();
+}
+
+describe("RPC cache", function () {
+    // An RPC provider that answers every request with the number of requests it received.
+    async function startUpstream() {
+        let requests = 0;
+        const server = http.createServer((req, res) => {
+            req.resume().on("end", () => {
+                requests++;
+                res.end(JSON.stringify({ jsonrpc: "2.0", id: 1, result: `0x${requests.toString(16)}` }));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        return {
+            url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+            requests: () => requests,
+            close: () => new Promise((resolve) => server.close(resolve))
+        };
+    }
+
+    it("Should record the responses of the provider and replay them offline", async function () {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rpc-cache-"));
+        const upstream = await startUpstream();
+        const balance = { jsonrpc: "2.0", id: 7, method: "eth_getBalance", params: ["0x01", "0x3"] };
+        const code = { jsonrpc: "2.0", id: 8, method: "eth_getCode", params: ["0x01", "0x3"] };
+
+        const recorder = startRpcCache({
+            mode: "record",
+            upstream: upstream.url,
+            chainId: 1,
+            blockNumber: 3,
+            dir,
+            port: PORT
+        });
+        expect(await rpc(recorder.url, balance)).to.be.deep.equal({ jsonrpc: "2.0", id: 7, result: "0x1" });
+        expect(await rpc(recorder.url, [balance, code])).to.be.deep.equal([
+            { jsonrpc: "2.0", id: 7, result: "0x1" },
+            { jsonrpc: "2.0", id: 8, result: "0x2" }
+        ]);
+        expect(upstream.requests()).to.be.equal(2);
+        await recorder.close();
+        await upstream.close();
+
+        const file = rpcCacheFile(dir, 1, 3);
+        expect(readRpcCacheStore(file, 1, 3).responses[requestKey("eth_getBalance", ["0x01", "0x3"])]).to.be.deep.equal(
+            {
+                method: "eth_getBalance",
+                params: ["0x01", "0x3"],
+                result: "0x1"
+            }
+        );
+        expect(() => readRpcCacheStore(file, 1, 4)).to.throw(/holds the responses of chain 1 at block 3/);
+
+        const replayer = startRpcCache({ mode: "replay", chainId: 1, blockNumber: 3, dir, port: PORT });
+        try {
+            expect(await rpc(replayer.url, code)).to.be.deep.equal({ jsonrpc: "2.0", id: 8, result: "0x2" });
+            const miss = (await rpc(replayer.url, { ...code, params: ["0x02", "0x3"] })) as {
+                error: { message: string };
+            };
+            expect(miss.error.message).to.match(/RPC cache miss: eth_getCode \["0x02","0x3"\] is not in/);
+        } finally {
+            await replayer.close();
+        }
+    });
+
+    it("Should share the port with the proxy of the same store only", async function () {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "rpc-cache-"));
+        const replay = { mode: "replay", chainId: 1, blockNumber: 3, dir, port: PORT };
+
+        const first = startRpcCache(replay);
+        await first.ready;
+        try {
+            const same = startRpcCache(replay);
+            await same.ready;
+            expect(same.url).to.be.equal(first.url);
+
+            const other = startRpcCache({ ...replay, blockNumber: 4 });
+            await expect(other.ready).to.be.rejectedWith(`Port ${PORT} of the RPC cache is in use`);
+        } finally {
+            await first.close();
+        }
+
+        // Another process on the port.
+        const server = http.createServer((req, res) => res.end("not JSON-RPC"));
+        await new Promise<void>((resolve) => server.listen(PORT, "127.0.0.1", resolve));
+        try {
+            await expect(startRpcCache(replay).ready).to.be.rejectedWith("set FORK_CACHE_PORT to another one");
+        } finally {
+            server.closeAllConnections();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+
+    it("Should require a pinned fork block and a known mode", function () {
+        expect(() => startRpcCache({ mode: "replay", chainId: 1, port: PORT })).to.throw(/needs a pinned fork block/);
+        expect(() => startRpcCache({ mode: "live", chainId: 1, blockNumber: 3, port: PORT })).to.throw(
+            /FORK_MODE must be record or replay/
+        );
+        expect(() => startRpcCache({ mode: "record", chainId: 1, blockNumber: 3, port: PORT })).to.throw(
+            /needs the RPC URL/
+        );
+    });
+});
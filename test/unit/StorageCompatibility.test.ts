@@ -0,0 +1,58 @@
+import * as path from "path";
+import hre from "hardhat";
+import { expect } from "../helpers";
+
+import { compareStorageLayouts, findStorageOverlaps, readLayoutSnapshot } from "../../scripts/storage/compatibility";
+import { readStorageLayout } from "../../scripts/storage/layout";
+import type { StorageLayout } from "../../scripts/storage/layout";
+
+describe("Storage layout compatibility", function () {
+    let layout: StorageLayout;
+
+    before(async function () {
+        layout = await readStorageLayout(hre.artifacts, "MigratorV2");
+    });
+
+    const copy = (): StorageLayout => JSON.parse(JSON.stringify(layout)) as StorageLayout;
+    const variable = (changed: StorageLayout, label: string) => {
+        return changed.storage.find((entry) => entry.label === label) as StorageLayout["storage"][number];
+    };
+
+    it("Should match the snapshot of the deployed version", function () {
+        const snapshot = readLayoutSnapshot(path.join(__dirname, "../../scripts/deploy/test/storageLayout.json"));
+        expect(compareStorageLayouts(snapshot.MigratorV2, layout)).to.be.deep.equal({ errors: [], warnings: [] });
+    });
+
+    it("Should flag removed, moved and retyped variables", function () {
+        const appended = copy();
+        appended.storage.push({ ...variable(appended, "_preBaseAssetBalance"), label: "_new", slot: "7" });
+        expect(compareStorageLayouts(layout, appended).errors).to.be.empty;
+
+        const changed = copy();
+        changed.storage = changed.storage.filter(({ label }) => label !== "_storedCallbackHash");
+        variable(changed, "_preBaseAssetBalance").slot = "2";
+        variable(changed, "_owner").label = "_admin";
+        variable(changed, "_status").type = "t_bool";
+
+        const { errors, warnings } = compareStorageLayouts(layout, changed);
+        expect(errors.map(({ kind, variable }) => `${kind} ${variable}`)).to.be.deep.equal([
+            "retyped _status",
+            "retyped _storedCallbackHash",
+            "moved _preBaseAssetBalance"
+        ]);
+        expect(warnings.map(({ kind, variable }) => `${kind} ${variable}`)).to.be.deep.equal(["renamed _owner"]);
+    });
+
+    it("Should find the adapter variables sharing the migrator storage", async function () {
+        const adapter = await readStorageLayout(hre.artifacts, "AaveV3UsdsAdapter");
+        expect(findStorageOverlaps(layout, adapter)).to.be.empty;
+
+        const withStorage: StorageLayout = {
+            storage: [{ label: "_lastUser", slot: "1", offset: 12, type: "t_address" }],
+            types: { t_address: { encoding: "inplace", label: "address", numberOfBytes: "20" } }
+        };
+        expect(findStorageOverlaps(layout, withStorage).map(({ message }) => message)).to.be.deep.equal([
+            "_lastUser at slot 1 offset 12 overlaps _owner (slot 1 offset 1)"
+        ]);
+    });
+});
@@ -0,0 +1,67 @@
+import hre from "hardhat";
+import { loadFixture, ethers, expect, parseEther, HashZero } from "../helpers";
+
+import { readStorageLayout, readStorageValue, resolveStorageLocation } from "../../scripts/storage/layout";
+
+describe("Storage layout", function () {
+    async function setupMigrator() {
+        const [owner] = await ethers.getSigners();
+
+        const MockERC20 = await ethers.getContractFactory("MockERC20");
+        const deployToken = (symbol: string) => MockERC20.deploy(symbol, symbol, parseEther("1000000"), owner.address);
+        const [DAI, USDS, USDC, WETH] = await Promise.all(["DAI", "USDS", "USDC", "WETH"].map(deployToken));
+
+        const comet = await (await ethers.getContractFactory("MockComet")).deploy(USDC.address, WETH.address);
+        const pool = await (await ethers.getContractFactory("MockUniswapV3Pool")).deploy(WETH.address, USDC.address);
+        const adapters = [DAI.address, USDS.address];
+
+        const migrator = await (
+            await ethers.getContractFactory("MigratorV2")
+        ).deploy(
+            owner.address,
+            adapters,
+            [comet.address],
+            [{ liquidityPool: pool.address, baseToken: USDC.address, isToken0: false }],
+            DAI.address,
+            USDS.address
+        );
+        await migrator.pause();
+
+        const layout = await readStorageLayout(hre.artifacts, "MigratorV2");
+        const read = async (path: string) =>
+            (await readStorageValue(ethers.provider, migrator.address, layout, path)).value;
+
+        return { owner, tokens: { USDC }, adapters, comet, pool, migrator, layout, read };
+    }
+
+    it("Should decode value types, packed structs and mappings", async function () {
+        const { owner, tokens, comet, pool, read } = await loadFixture(setupMigrator);
+
+        expect(await read("_storedCallbackHash")).to.be.equal(HashZero);
+        expect(await read("_owner")).to.be.equal(owner.address);
+        expect(await read("_paused")).to.be.true;
+        expect(await read(`_flashData[${comet.address}]`)).to.be.deep.equal({
+            liquidityPool: pool.address,
+            baseToken: tokens.USDC.address,
+            isToken0: false
+        });
+        // `isToken0` shares the slot of `baseToken`.
+        expect(await read(`_flashData[${comet.address}].isToken0`)).to.be.false;
+        expect(await read(`_flashData[${pool.address}].liquidityPool`)).to.be.equal(ethers.constants.AddressZero);
+    });
+
+    it("Should decode EnumerableSet sets and their internals", async function () {
+        const { adapters, migrator, layout, read } = await loadFixture(setupMigrator);
+
+        expect(await read("_adapters")).to.be.deep.equal(await migrator.getAdapters());
+        expect(await read("_adapters")).to.be.deep.equal(adapters);
+        expect(await read("_adapters._inner._values[1]")).to.be.equal(
+            ethers.utils.hexZeroPad(adapters[1], 32).toLowerCase()
+        );
+        expect(await read(`_adapters._inner._positions[${ethers.utils.hexZeroPad(adapters[1], 32)}]`)).to.be.equal("2");
+
+        expect(() => resolveStorageLocation(layout, "_unknown")).to.throw("No state variable _unknown");
+        expect(() => resolveStorageLocation(layout, "_adapters.values")).to.throw("has no member values");
+        await expect(read("_flashData")).to.be.rejectedWith("give a key");
+    });
+});
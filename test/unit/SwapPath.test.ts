@@ -0,0 +1,124 @@
+import { ethers, expect } from "../helpers";
+
+import {
+    CONVERT_PATH_LENGTH,
+    FEE_TIERS,
+    feeToHex,
+    encodePath,
+    encodeSingleHopPath,
+    decodePath,
+    reversePath,
+    getTokenIn,
+    getTokenOut,
+    getConnectorTokens,
+    encodeConversionPath,
+    isConversionPath,
+    validatePath
+} from "../../sdk/path";
+import type { FeeTier } from "../../sdk/path";
+
+// Convert fee to 3-byte hex
+const FEE_3000 = ethers.utils.hexZeroPad(ethers.utils.hexlify(3000), 3); // 0.3%
+const FEE_500 = ethers.utils.hexZeroPad(ethers.utils.hexlify(500), 3); // 0.05%
+
+describe("Uniswap V3 swap paths", function () {
+    const [WBTC, WETH, USDC, DAI, USDS] = Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address);
+
+    context("* Encoding", function () {
+        it("Should encode the same bytes as the hand-rolled paths", function () {
+            const legacy = ethers.utils.concat([
+                ethers.utils.hexZeroPad(WBTC, 20),
+                FEE_3000,
+                ethers.utils.hexZeroPad(WETH, 20),
+                FEE_500,
+                ethers.utils.hexZeroPad(USDC, 20)
+            ]);
+
+            expect(encodePath([{ token: WBTC, fee: 3000 }, { token: WETH, fee: 500 }, { token: USDC }])).to.be.equal(
+                ethers.utils.hexlify(legacy)
+            );
+            expect(encodeSingleHopPath(WBTC, 3000, USDC)).to.be.equal(
+                ethers.utils.hexlify(ethers.utils.concat([WBTC, FEE_3000, USDC]))
+            );
+        });
+
+        it("Should encode every fee tier as 3 bytes", function () {
+            for (const fee of FEE_TIERS) {
+                expect(ethers.utils.hexDataLength(feeToHex(fee))).to.be.equal(3);
+            }
+            expect(() => feeToHex(2500 as FeeTier)).to.throw("Unsupported fee tier");
+        });
+
+        it("Should reject malformed hop lists", function () {
+            expect(() => encodePath([{ token: WBTC }])).to.throw("at least two tokens");
+            expect(() => encodePath([{ token: WBTC }, { token: USDC }])).to.throw("Missing fee");
+            expect(() =>
+                encodePath([
+                    { token: WBTC, fee: 500 },
+                    { token: USDC, fee: 500 }
+                ])
+            ).to.throw("must not have a fee");
+        });
+    });
+
+    context("* Decoding", function () {
+        it("Should decode tokens and fees", function () {
+            const path = encodePath([{ token: WBTC, fee: 3000 }, { token: WETH, fee: 500 }, { token: USDC }]);
+
+            expect(decodePath(path)).to.be.deep.equal({ tokens: [WBTC, WETH, USDC], fees: [3000, 500] });
+            expect(getTokenIn(path)).to.be.equal(WBTC);
+            expect(getTokenOut(path)).to.be.equal(USDC);
+            expect(getConnectorTokens(path)).to.be.deep.equal([WETH]);
+            expect(getConnectorTokens(encodeSingleHopPath(WBTC, 500, USDC))).to.be.deep.equal([]);
+        });
+
+        it("Should reject paths with a wrong length or fee tier", function () {
+            expect(() => decodePath(ethers.utils.concat([WBTC, FEE_3000]))).to.throw("Invalid swap path length");
+            expect(() => decodePath(ethers.utils.concat([WBTC, "0x0009c4", USDC]))).to.throw("Unsupported fee tier");
+        });
+
+        it("Should reverse a path for exact output swaps", function () {
+            const path = encodePath([{ token: WBTC, fee: 3000 }, { token: WETH, fee: 500 }, { token: USDC }]);
+
+            expect(reversePath(path)).to.be.equal(
+                encodePath([{ token: USDC, fee: 500 }, { token: WETH, fee: 3000 }, { token: WBTC }])
+            );
+            expect(reversePath(reversePath(path))).to.be.equal(path);
+        });
+    });
+
+    context("* DAI ⇄ USDS conversion", function () {
+        it("Should match the conversion paths of `MigratorV2`", async function () {
+            const [owner] = await ethers.getSigners();
+            const MigratorV2Factory = await ethers.getContractFactory("MigratorV2");
+            const migrator = await MigratorV2Factory.deploy(owner.address, [], [], [], DAI, USDS);
+            await migrator.deployed();
+
+            const daiToUsds = encodeConversionPath(DAI, USDS);
+            expect(daiToUsds).to.be.equal((await migrator.getEncodedDaiToUsdsConversionPath()).toLowerCase());
+            expect(encodeConversionPath(USDS, DAI)).to.be.equal(
+                (await migrator.getEncodedUsdsToDaiConversionPath()).toLowerCase()
+            );
+            expect(ethers.utils.hexDataLength(daiToUsds)).to.be.equal(CONVERT_PATH_LENGTH);
+        });
+
+        it("Should recognize only the 40-byte DAI ⇄ USDS shape as a conversion path", function () {
+            expect(isConversionPath(encodeConversionPath(USDS, DAI), DAI, USDS)).to.be.true;
+            expect(isConversionPath(encodeConversionPath(DAI, USDC), DAI, USDS)).to.be.false;
+            expect(isConversionPath(encodeSingleHopPath(DAI, 100, USDS), DAI, USDS)).to.be.false;
+        });
+
+        it("Should validate swap and conversion paths", function () {
+            expect(() => validatePath(encodeSingleHopPath(DAI, 100, USDS))).to.not.throw();
+            expect(() => validatePath(encodeConversionPath(DAI, USDS), { dai: DAI, usds: USDS })).to.not.throw();
+            expect(() => validatePath(encodeConversionPath(DAI, USDS))).to.throw("only valid as a DAI ⇄ USDS");
+            expect(() => validatePath(encodeConversionPath(DAI, USDC), { dai: DAI, usds: USDS })).to.throw(
+                "must convert between DAI and USDS"
+            );
+            expect(() => validatePath(ethers.utils.concat([DAI, FEE_500, DAI]))).to.throw("Repeated token");
+            expect(() => validatePath(ethers.utils.concat([ethers.constants.AddressZero, FEE_500, DAI]))).to.throw(
+                "Zero address"
+            );
+        });
+    });
+});
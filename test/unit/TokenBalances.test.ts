@@ -0,0 +1,46 @@
+import { loadFixture, ethers, expect, findBalanceSlot, fundToken, parseEther, setTokenBalance } from "../helpers";
+
+describe("Token balance seeding", function () {
+    async function setupTokens() {
+        const [deployer, user] = await ethers.getSigners();
+        const token = await (await ethers.getContractFactory("MockERC20")).deploy("DAI", "DAI", 0, deployer.address);
+        const rebasing = await (await ethers.getContractFactory("MockRebasingToken")).deploy("stETH", "stETH");
+        const comet = await (await ethers.getContractFactory("MockComet")).deploy(token.address, token.address);
+        return { user, token, rebasing, comet };
+    }
+
+    it("Should find the balance mapping of a token and write exact balances", async function () {
+        const { user, token } = await loadFixture(setupTokens);
+
+        const balanceSlot = await findBalanceSlot(token.address);
+        expect(balanceSlot).to.deep.include({ language: "solidity" });
+        expect(balanceSlot?.slot.toNumber()).to.be.equal(0);
+        expect(await findBalanceSlot(token.address)).to.be.equal(balanceSlot);
+
+        await setTokenBalance(token.address, user.address, parseEther("1000"));
+        expect(await token.balanceOf(user.address)).to.be.equal(parseEther("1000"));
+        await fundToken(token.address, user.address, parseEther("5"));
+        expect(await token.balanceOf(user.address)).to.be.equal(parseEther("1005"));
+        await setTokenBalance(token.address, user.address, 1);
+        expect(await token.balanceOf(user.address)).to.be.equal(1);
+    });
+
+    it("Should scale the shares of a rebasing token", async function () {
+        const { user, rebasing } = await loadFixture(setupTokens);
+        await rebasing.setSharePrice(parseEther("1.15"));
+
+        const balance = parseEther("300").add(7);
+        await setTokenBalance(rebasing.address, user.address, balance);
+        const actual = await rebasing.balanceOf(user.address);
+        expect(actual).to.be.gte(balance);
+        expect(actual.sub(balance)).to.be.lte(1);
+    });
+
+    it("Should require a holder when the balance is not a mapping of the token", async function () {
+        const { user, comet } = await loadFixture(setupTokens);
+
+        // The Comet balances are a mapping of mappings.
+        expect(await findBalanceSlot(comet.address)).to.be.undefined;
+        await expect(setTokenBalance(comet.address, user.address, 1)).to.be.rejectedWith(/no holder to transfer from/);
+    });
+});